@@ -0,0 +1,17 @@
+'use server';
+
+import type { TryRequest, TryResponse } from '@/lib/openapi/try-request';
+import { performTryRequest } from '@/lib/openapi/try-transport';
+
+// Off by default so a deployed editor cannot be used to reach the network it
+// runs in. Set it when running the editor locally to try APIs on localhost.
+const ALLOW_PRIVATE_NETWORK = process.env.TRY_IT_ALLOW_PRIVATE_NETWORK === 'true';
+
+// The server URLs come from the caller, so they only keep the console on the
+// document's servers; the private network check is what protects the host
+export async function sendTryRequest(
+  request: TryRequest,
+  serverUrls: string[]
+): Promise<{ response?: TryResponse; error?: string }> {
+  return performTryRequest(request, { serverUrls, allowPrivateNetwork: ALLOW_PRIVATE_NETWORK });
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Box, Keyboard, Layers, Route as RouteIcon, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useEditorStore } from '@/lib/openapi/store';
+import { COMPONENT_KINDS, type Component, type NodeId } from '@/lib/openapi/types';
+import {
+  SHORTCUT_LABELS,
+  eventToShortcut,
+  formatShortcut,
+  useShortcutStore,
+  type ShortcutAction,
+} from '@/hooks/use-shortcuts';
+import { cn } from '@/lib/utils';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Actions the current layout supports; the palette only lists these */
+  actions: Partial<Record<ShortcutAction, () => void>>;
+}
+
+/**
+ * Searchable list of editor actions and of every route, schema and component,
+ * opened with Ctrl/Cmd+K. Also gives access to the key binding settings.
+ */
+export function CommandPalette({ open, onOpenChange, actions }: CommandPaletteProps) {
+  const { document, setActiveTab, selectRoute, selectSchema, selectComponent } = useEditorStore();
+  const bindings = useShortcutStore((state) => state.bindings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  // Close first so focus returns to the editor before the action runs
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  const components = COMPONENT_KINDS.flatMap((kind) =>
+    Array.from((document[kind] as Map<NodeId, Component<unknown>>).values()).map((c) => ({ kind, ...c }))
+  );
+
+  return (
+    <>
+      <CommandDialog open={open} onOpenChange={onOpenChange}>
+        <CommandInput placeholder="Search routes, schemas or actions..." />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+
+          <CommandGroup heading="Actions">
+            {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[])
+              .filter((action) => action !== 'commandPalette' && actions[action])
+              .map((action) => (
+                <CommandItem key={action} value={SHORTCUT_LABELS[action]} onSelect={() => run(actions[action]!)}>
+                  <Zap className="mr-2 h-4 w-4" />
+                  {SHORTCUT_LABELS[action]}
+                  <CommandShortcut>{formatShortcut(bindings[action])}</CommandShortcut>
+                </CommandItem>
+              ))}
+            <CommandItem value="Keyboard shortcuts" onSelect={() => run(() => setSettingsOpen(true))}>
+              <Keyboard className="mr-2 h-4 w-4" />
+              Keyboard shortcuts...
+            </CommandItem>
+          </CommandGroup>
+
+          {document.routes.size > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Routes">
+                {Array.from(document.routes.values()).map((route) => (
+                  <CommandItem
+                    key={route.id}
+                    value={`${route.method} ${route.path} ${route.summary ?? ''} ${route.id}`}
+                    onSelect={() =>
+                      run(() => {
+                        setActiveTab('routes');
+                        selectRoute(route.id);
+                      })
+                    }
+                  >
+                    <RouteIcon className="mr-2 h-4 w-4" />
+                    <span className="w-16 shrink-0 font-mono text-xs font-bold uppercase">{route.method}</span>
+                    <span className="truncate font-mono">{route.path}</span>
+                    {route.summary && (
+                      <span className="ml-2 truncate text-xs text-muted-foreground">{route.summary}</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+
+          {document.schemas.size > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Schemas">
+                {Array.from(document.schemas.values()).map((schema) => (
+                  <CommandItem
+                    key={schema.id}
+                    value={`${schema.name ?? 'Unnamed'} ${schema.id}`}
+                    onSelect={() =>
+                      run(() => {
+                        setActiveTab('schemas');
+                        selectSchema(schema.id);
+                      })
+                    }
+                  >
+                    <Box className="mr-2 h-4 w-4" />
+                    <span className="truncate">{schema.name || 'Unnamed'}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{schema.type}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+
+          {components.length > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Components">
+                {components.map((component) => (
+                  <CommandItem
+                    key={component.id}
+                    value={`${component.name} ${component.kind} ${component.id}`}
+                    onSelect={() =>
+                      run(() => {
+                        setActiveTab('components');
+                        selectComponent(component.id);
+                      })
+                    }
+                  >
+                    <Layers className="mr-2 h-4 w-4" />
+                    <span className="truncate">{component.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{component.kind}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      <ShortcutSettings open={settingsOpen} onOpenChange={setSettingsOpen} />
+    </>
+  );
+}
+
+interface ShortcutSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ShortcutSettings({ open, onOpenChange }: ShortcutSettingsProps) {
+  const { bindings, setBinding, resetBindings } = useShortcutStore();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  // Capture the next key combination before any shortcut handler sees it
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const shortcut = eventToShortcut(event);
+      if (!shortcut) return;
+      setBinding(recording, shortcut);
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, setBinding]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        onOpenChange(value);
+        setRecording(null);
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a binding, then press the new key combination. Escape cancels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="divide-y-2 divide-foreground/10 border-2 border-foreground">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map((action) => (
+            <div key={action} className="flex items-center justify-between gap-2 px-3 py-2">
+              <span className="text-sm">{SHORTCUT_LABELS[action]}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRecording(action)}
+                className={cn(
+                  'min-w-28 border-2 border-foreground font-mono text-xs',
+                  recording === action && 'bg-accent'
+                )}
+              >
+                {recording === action
+                  ? 'Press keys...'
+                  : formatShortcut(bindings[action]) || <span className="text-muted-foreground">Unbound</span>}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={resetBindings}>
+            Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,871 @@
+'use client';
+
+import React from "react"
+
+import { useId, useState } from 'react';
+import { Plus, Trash2, Link2, FileOutput, SlidersHorizontal, FileInput, Heading } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useEditorStore } from '@/lib/openapi/store';
+import {
+  Component,
+  ComponentKind,
+  ComponentDefinitions,
+  ComponentRef,
+  ParameterDef,
+  RequestBody,
+  ResponseDef,
+  HeaderDef,
+  HeaderOrRef,
+  SchemaNode,
+  SchemaOrRef,
+  SchemaType,
+  NodeId,
+  COMPONENT_KINDS,
+  createSchema,
+  findComponent,
+  generateId,
+  isComponentRef,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+import { SchemaCombobox } from './schema-combobox';
+import { ExtensionsEditor } from './extensions-editor';
+import { MediaTypesEditor } from './media-type-editor';
+import { ExampleValueEditor, ExamplesEditor } from './examples-editor';
+
+export const COMPONENT_KIND_CONFIG: Record<
+  ComponentKind,
+  { label: string; singular: string; icon: typeof FileOutput }
+> = {
+  responses: { label: 'Responses', singular: 'Response', icon: FileOutput },
+  parameters: { label: 'Parameters', singular: 'Parameter', icon: SlidersHorizontal },
+  requestBodies: { label: 'Request Bodies', singular: 'Request Body', icon: FileInput },
+  headers: { label: 'Headers', singular: 'Header', icon: Heading },
+};
+
+const PRIMITIVE_TYPES: SchemaType[] = ['string', 'integer', 'number', 'boolean'];
+
+const PARAMETER_LOCATIONS: ParameterDef['in'][] = ['query', 'path', 'header', 'cookie'];
+
+function createComponentDefinition<K extends ComponentKind>(kind: K): ComponentDefinitions[K] {
+  const definitions: { [P in ComponentKind]: () => ComponentDefinitions[P] } = {
+    responses: () => ({ id: generateId(), description: 'Response' }),
+    parameters: () => ({
+      id: generateId(),
+      name: 'param',
+      in: 'query',
+      required: false,
+      schema: { kind: 'inline', schema: createSchema('string') },
+    }),
+    requestBodies: () => ({
+      id: generateId(),
+      required: true,
+      content: new Map([
+        ['application/json', { schema: { kind: 'inline', schema: createSchema('object') } }],
+      ]),
+    }),
+    headers: () => ({
+      id: generateId(),
+      required: false,
+      schema: { kind: 'inline', schema: createSchema('string') },
+    }),
+  };
+  return definitions[kind]();
+}
+
+interface ComponentListProps {
+  onSelect: (id: NodeId) => void;
+}
+
+export function ComponentList({ onSelect }: ComponentListProps) {
+  const {
+    document,
+    selectedComponentId,
+    selectComponent,
+    addComponent,
+    deleteComponent,
+    getComponentUsageCount,
+  } = useEditorStore();
+  const [newDialogOpen, setNewDialogOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<ComponentKind>('responses');
+
+  const total = COMPONENT_KINDS.reduce((sum, kind) => sum + document[kind].size, 0);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    addComponent(newKind, {
+      id: generateId(),
+      name: newName.trim(),
+      definition: createComponentDefinition(newKind),
+    });
+    setNewDialogOpen(false);
+    setNewName('');
+  };
+
+  const handleDelete = (kind: ComponentKind, id: NodeId, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const usageCount = getComponentUsageCount(id);
+    if (usageCount > 0) {
+      const confirmed = window.confirm(
+        `This component is used in ${usageCount} place(s). Are you sure you want to delete it?`
+      );
+      if (!confirmed) return;
+    }
+    deleteComponent(kind, id);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b-4 border-foreground p-4">
+        <h2 className="text-lg font-bold uppercase tracking-tight text-foreground">Components</h2>
+        <Dialog open={newDialogOpen} onOpenChange={setNewDialogOpen}>
+          <DialogTrigger asChild>
+            <Button className="neo-btn-accent">
+              <Plus className="mr-1 h-4 w-4" />
+              New
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create New Component</DialogTitle>
+              <DialogDescription>
+                Define a reusable response, parameter, request body or header.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="componentName">Name</Label>
+                <Input
+                  id="componentName"
+                  placeholder="e.g., ErrorResponse, PageParams"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Kind</Label>
+                <Select value={newKind} onValueChange={(v) => setNewKind(v as ComponentKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPONENT_KINDS.map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {COMPONENT_KIND_CONFIG[kind].singular}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setNewDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={!newName.trim()}>
+                Create
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-4 p-2">
+          {total === 0 ? (
+            <div className="m-2 border-2 border-dashed border-muted-foreground/50 p-8 text-center">
+              <p className="font-mono text-sm text-muted-foreground">No components defined yet.</p>
+              <p className="font-mono text-sm text-muted-foreground">Click "New" to create one.</p>
+            </div>
+          ) : (
+            COMPONENT_KINDS.filter((kind) => document[kind].size > 0).map((kind) => {
+              const { label, icon: Icon } = COMPONENT_KIND_CONFIG[kind];
+              return (
+                <div key={kind}>
+                  <div className="mb-1 px-3 text-xs font-bold uppercase text-muted-foreground">
+                    {label}
+                  </div>
+                  <div className="space-y-1">
+                    {Array.from<Component<ComponentDefinitions[ComponentKind]>>(document[kind].values()).map((component) => {
+                      const usageCount = getComponentUsageCount(component.id);
+                      return (
+                        <div
+                          key={component.id}
+                          className={cn(
+                            'group flex cursor-pointer items-center justify-between border-2 border-transparent px-3 py-3 transition-all hover:border-foreground hover:bg-muted',
+                            selectedComponentId === component.id && 'border-foreground bg-secondary neo-shadow-sm'
+                          )}
+                          onClick={() => {
+                            selectComponent(component.id);
+                            onSelect(component.id);
+                          }}
+                        >
+                          <div className="flex items-center gap-3 overflow-hidden">
+                            <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            <span className="truncate font-bold text-foreground">
+                              {component.name || 'Unnamed'}
+                            </span>
+                            {usageCount > 0 && (
+                              <Badge className="border-2 border-foreground bg-accent text-foreground font-mono text-xs">
+                                {usageCount}
+                              </Badge>
+                            )}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 border-2 border-transparent opacity-0 group-hover:opacity-100 hover:border-destructive hover:bg-destructive/10"
+                            onClick={(e) => handleDelete(kind, component.id, e)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+interface ComponentEditorProps {
+  componentId: NodeId;
+}
+
+export function ComponentEditor({ componentId }: ComponentEditorProps) {
+  const { document, updateComponent } = useEditorStore();
+  const found = findComponent(document, componentId);
+
+  if (!found) {
+    return (
+      <div className="flex h-full items-center justify-center text-muted-foreground">
+        Select a component to edit
+      </div>
+    );
+  }
+
+  const { kind, component } = found;
+  const { singular, icon: Icon } = COMPONENT_KIND_CONFIG[kind];
+  const allSchemas = Array.from(document.schemas.values()).filter((s) => s.name);
+
+  const updateDefinition = (updates: Partial<ComponentDefinitions[ComponentKind]>) => {
+    updateComponent(kind, componentId, {
+      definition: { ...component.definition, ...updates } as ComponentDefinitions[ComponentKind],
+    });
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="border-b-4 border-foreground p-6">
+        <div className="flex items-center gap-3">
+          <div className="flex h-12 w-12 items-center justify-center border-2 border-foreground bg-secondary neo-shadow-sm">
+            <Icon className="h-5 w-5" />
+          </div>
+          <Input
+            value={component.name}
+            onChange={(e) => updateComponent(kind, componentId, { name: e.target.value })}
+            placeholder={`${singular} name`}
+            className="border-2 border-foreground bg-background text-xl font-bold tracking-tight focus-visible:ring-0 focus-visible:ring-offset-0 focus-visible:border-accent"
+          />
+          <Badge variant="outline" className="shrink-0 border-2 border-foreground font-mono text-xs">
+            {singular}
+          </Badge>
+        </div>
+        <p className="mt-3 font-mono text-xs text-muted-foreground">
+          #/components/{kind}/{component.name}
+        </p>
+      </div>
+
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-4">
+          {kind === 'parameters' && (
+            <ParameterComponentForm
+              parameter={component.definition as ParameterDef}
+              allSchemas={allSchemas}
+              onUpdate={updateDefinition}
+            />
+          )}
+          {kind === 'headers' && (
+            <HeaderComponentForm
+              header={component.definition as HeaderDef}
+              allSchemas={allSchemas}
+              onUpdate={updateDefinition}
+            />
+          )}
+          {kind === 'requestBodies' && (
+            <RequestBodyComponentForm
+              body={component.definition as RequestBody}
+              allSchemas={allSchemas}
+              onUpdate={updateDefinition}
+            />
+          )}
+          {kind === 'responses' && (
+            <ResponseComponentForm
+              response={component.definition as ResponseDef}
+              allSchemas={allSchemas}
+              onUpdate={updateDefinition}
+            />
+          )}
+
+          {kind !== 'requestBodies' && (
+            <div className="space-y-2">
+              <Label className="font-bold uppercase">Extensions</Label>
+              <ExtensionsEditor
+                extensions={(component.definition as ParameterDef | HeaderDef | ResponseDef).extensions}
+                onChange={(extensions) => updateDefinition({ extensions })}
+              />
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+// Sub-components
+
+interface PrimitiveSchemaPickerProps {
+  schema: SchemaOrRef;
+  allSchemas: SchemaNode[];
+  onChange: (schema: SchemaOrRef) => void;
+}
+
+function PrimitiveSchemaPicker({ schema, allSchemas, onChange }: PrimitiveSchemaPickerProps) {
+  return (
+    <div className="flex gap-2">
+      <SchemaCombobox
+        value={schema.kind === 'ref' ? schema.targetId : 'inline'}
+        onValueChange={(v) =>
+          onChange(
+            v === 'inline'
+              ? { kind: 'inline', schema: createSchema('string') }
+              : { kind: 'ref', targetId: v }
+          )
+        }
+        schemas={allSchemas}
+        includeInline
+        className="flex-1"
+      />
+      {schema.kind === 'inline' && (
+        <Select
+          value={schema.schema.type}
+          onValueChange={(v) => onChange({ kind: 'inline', schema: createSchema(v as SchemaType) })}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRIMITIVE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+interface ParameterComponentFormProps {
+  parameter: ParameterDef;
+  allSchemas: SchemaNode[];
+  onUpdate: (updates: Partial<ParameterDef>) => void;
+}
+
+function ParameterComponentForm({ parameter, allSchemas, onUpdate }: ParameterComponentFormProps) {
+  return (
+    <Card>
+      <CardContent className="grid gap-4 pt-4">
+        <div className="flex gap-4">
+          <div className="grid flex-1 gap-2">
+            <Label className="text-xs text-muted-foreground">Parameter Name</Label>
+            <Input
+              value={parameter.name}
+              onChange={(e) => onUpdate({ name: e.target.value })}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid w-36 gap-2">
+            <Label className="text-xs text-muted-foreground">Location</Label>
+            <Select
+              value={parameter.in}
+              onValueChange={(v) =>
+                onUpdate({ in: v as ParameterDef['in'], required: v === 'path' ? true : parameter.required })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARAMETER_LOCATIONS.map((location) => (
+                  <SelectItem key={location} value={location}>
+                    {location}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Schema</Label>
+          <PrimitiveSchemaPicker
+            schema={parameter.schema}
+            allSchemas={allSchemas}
+            onChange={(schema) => onUpdate({ schema })}
+          />
+        </div>
+        <Textarea
+          placeholder="Description"
+          value={parameter.description || ''}
+          onChange={(e) => onUpdate({ description: e.target.value })}
+          className="h-20 resize-none font-mono"
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="componentParamRequired"
+            checked={parameter.required}
+            disabled={parameter.in === 'path'}
+            onCheckedChange={(c) => onUpdate({ required: c === true })}
+          />
+          <Label htmlFor="componentParamRequired">Required</Label>
+        </div>
+        <ExampleValueEditor
+          value={parameter.example}
+          onChange={(example) => onUpdate({ example })}
+          json
+          schema={parameter.schema}
+        />
+        <ExamplesEditor
+          examples={parameter.examples}
+          json
+          schema={parameter.schema}
+          onChange={(examples) => onUpdate({ examples })}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+interface HeaderComponentFormProps {
+  header: HeaderDef;
+  allSchemas: SchemaNode[];
+  onUpdate: (updates: Partial<HeaderDef>) => void;
+}
+
+function HeaderComponentForm({ header, allSchemas, onUpdate }: HeaderComponentFormProps) {
+  return (
+    <Card>
+      <CardContent className="grid gap-4 pt-4">
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Schema</Label>
+          <PrimitiveSchemaPicker
+            schema={header.schema}
+            allSchemas={allSchemas}
+            onChange={(schema) => onUpdate({ schema })}
+          />
+        </div>
+        <Textarea
+          placeholder="Description"
+          value={header.description || ''}
+          onChange={(e) => onUpdate({ description: e.target.value })}
+          className="h-20 resize-none font-mono"
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="componentHeaderRequired"
+            checked={header.required}
+            onCheckedChange={(c) => onUpdate({ required: c === true })}
+          />
+          <Label htmlFor="componentHeaderRequired">Required</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RequestBodyComponentFormProps {
+  body: RequestBody;
+  allSchemas: SchemaNode[];
+  onUpdate: (updates: Partial<RequestBody>) => void;
+}
+
+function RequestBodyComponentForm({ body, allSchemas, onUpdate }: RequestBodyComponentFormProps) {
+  return (
+    <Card>
+      <CardContent className="grid gap-4 pt-4">
+        <Textarea
+          placeholder="Description"
+          value={body.description || ''}
+          onChange={(e) => onUpdate({ description: e.target.value })}
+          className="h-20 resize-none font-mono"
+        />
+        <MediaTypesEditor
+          content={body.content}
+          allSchemas={allSchemas}
+          requireOne
+          encodings
+          onChange={(content) => content && onUpdate({ content })}
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="componentBodyRequired"
+            checked={body.required}
+            onCheckedChange={(c) => onUpdate({ required: c === true })}
+          />
+          <Label htmlFor="componentBodyRequired">Required</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ResponseComponentFormProps {
+  response: ResponseDef;
+  allSchemas: SchemaNode[];
+  onUpdate: (updates: Partial<ResponseDef>) => void;
+}
+
+function ResponseComponentForm({ response, allSchemas, onUpdate }: ResponseComponentFormProps) {
+  return (
+    <Card>
+      <CardContent className="grid gap-4 pt-4">
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Description</Label>
+          <Input
+            value={response.description}
+            onChange={(e) => onUpdate({ description: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Content</Label>
+          <MediaTypesEditor
+            content={response.content}
+            allSchemas={allSchemas}
+            onChange={(content) => onUpdate({ content })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Headers</Label>
+          <HeadersEditor
+            headers={response.headers}
+            allSchemas={allSchemas}
+            onChange={(headers) => onUpdate({ headers })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Suggested in the header name inputs
+const COMMON_RESPONSE_HEADERS = [
+  'Location',
+  'ETag',
+  'Last-Modified',
+  'Cache-Control',
+  'Retry-After',
+  'Link',
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+  'X-Request-Id',
+];
+
+interface HeadersEditorProps {
+  headers?: Map<string, HeaderOrRef>;
+  allSchemas: SchemaNode[];
+  // An empty header list passes undefined, so nothing is serialized
+  onChange: (headers: Map<string, HeaderOrRef> | undefined) => void;
+}
+
+/**
+ * Edits the headers of a response, inline or as edges to shared headers
+ */
+export function HeadersEditor({ headers, allSchemas, onChange }: HeadersEditorProps) {
+  const { document } = useEditorStore();
+  const [newName, setNewName] = useState('');
+  const suggestionsId = useId();
+  const entries = headers ? Array.from(headers.entries()) : [];
+  const trimmedName = newName.trim();
+  const taken = (name: string) => entries.some(([other]) => other.toLowerCase() === name.toLowerCase());
+
+  // Rebuilds the map in its current order so the output keeps the user's order
+  const replace = (from: string, to: string, header: HeaderOrRef) => {
+    onChange(new Map(entries.map(([name, value]) => (name === from ? [to, header] : [name, value]))));
+  };
+
+  const remove = (name: string) => {
+    const rest = entries.filter(([other]) => other !== name);
+    onChange(rest.length > 0 ? new Map(rest) : undefined);
+  };
+
+  const add = (header: HeaderOrRef, name: string) => {
+    if (!name || taken(name)) return;
+    onChange(new Map([...entries, [name, header]]));
+    setNewName('');
+  };
+
+  const addInline = () =>
+    add(
+      {
+        id: generateId(),
+        required: false,
+        schema: { kind: 'inline', schema: createSchema('string') },
+      },
+      trimmedName
+    );
+
+  return (
+    <div className="space-y-2">
+      <datalist id={suggestionsId}>
+        {COMMON_RESPONSE_HEADERS.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+
+      {entries.map(([name, header]) =>
+        isComponentRef(header) ? (
+          <ComponentRefRow
+            key={name}
+            kind="headers"
+            targetId={header.targetId}
+            label={<span className="shrink-0 font-mono text-sm font-medium">{name}</span>}
+            onDelete={() => remove(name)}
+          />
+        ) : (
+          <HeaderRow
+            key={name}
+            name={name}
+            header={header}
+            allSchemas={allSchemas}
+            suggestionsId={suggestionsId}
+            isTaken={(candidate) => candidate.toLowerCase() !== name.toLowerCase() && taken(candidate)}
+            onRename={(to) => replace(name, to, header)}
+            onUpdate={(updates) => replace(name, name, { ...header, ...updates })}
+            onDelete={() => remove(name)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          list={suggestionsId}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addInline()}
+          placeholder="Add header, e.g. X-RateLimit-Remaining"
+          className="h-8 flex-1 font-mono text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 bg-transparent"
+          disabled={!trimmedName || taken(trimmedName)}
+          onClick={addInline}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+        <ComponentPicker
+          kind="headers"
+          // Shared headers are added under the typed name, or their own
+          onSelect={(ref) => add(ref, trimmedName || document.headers.get(ref.targetId)?.name || '')}
+          filter={(component) => !taken(trimmedName || component.name)}
+          className="w-44"
+        />
+      </div>
+    </div>
+  );
+}
+
+interface HeaderRowProps {
+  name: string;
+  header: HeaderDef;
+  allSchemas: SchemaNode[];
+  suggestionsId: string;
+  isTaken: (name: string) => boolean;
+  onRename: (name: string) => void;
+  onUpdate: (updates: Partial<HeaderDef>) => void;
+  onDelete: () => void;
+}
+
+function HeaderRow({
+  name,
+  header,
+  allSchemas,
+  suggestionsId,
+  isTaken,
+  onRename,
+  onUpdate,
+  onDelete,
+}: HeaderRowProps) {
+  const [nameDraft, setNameDraft] = useState(name);
+  const trimmedDraft = nameDraft.trim();
+  const duplicate = isTaken(trimmedDraft);
+
+  // Renames are applied on blur, since the header name is the map key
+  const commitRename = () => {
+    if (trimmedDraft && !duplicate && trimmedDraft !== name) {
+      onRename(trimmedDraft);
+    } else {
+      setNameDraft(name);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border bg-card p-2">
+      <div className="flex items-center gap-2">
+        <Input
+          list={suggestionsId}
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          aria-invalid={duplicate}
+          className={cn('h-8 w-48 font-mono text-xs', duplicate && 'border-destructive')}
+        />
+        <div className="flex-1">
+          <PrimitiveSchemaPicker
+            schema={header.schema}
+            allSchemas={allSchemas}
+            onChange={(schema) => onUpdate({ schema })}
+          />
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          value={header.description || ''}
+          onChange={(e) => onUpdate({ description: e.target.value || undefined })}
+          placeholder="Description"
+          className="h-8 flex-1 text-xs"
+        />
+        <div className="flex items-center gap-1.5">
+          <Checkbox
+            id={`header-required-${header.id}`}
+            checked={header.required}
+            onCheckedChange={(c) => onUpdate({ required: c === true })}
+          />
+          <Label htmlFor={`header-required-${header.id}`} className="text-xs">
+            Required
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ComponentPickerProps<K extends ComponentKind> {
+  kind: K;
+  onSelect: (ref: ComponentRef<K>) => void;
+  filter?: (component: Component<ComponentDefinitions[K]>) => boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Select that inserts a ref edge to an existing reusable component
+ */
+export function ComponentPicker<K extends ComponentKind>({
+  kind,
+  onSelect,
+  filter,
+  placeholder,
+  className,
+}: ComponentPickerProps<K>) {
+  const { document } = useEditorStore();
+  const components = Array.from(
+    (document[kind] as Map<NodeId, Component<ComponentDefinitions[K]>>).values()
+  ).filter((component) => !filter || filter(component));
+
+  if (components.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value=""
+      onValueChange={(targetId) => onSelect({ kind: 'ref', component: kind, targetId })}
+    >
+      <SelectTrigger className={cn('h-8', className)}>
+        <Link2 className="mr-1 h-3 w-3" />
+        <SelectValue placeholder={placeholder || `Use shared ${COMPONENT_KIND_CONFIG[kind].singular.toLowerCase()}`} />
+      </SelectTrigger>
+      <SelectContent>
+        {components.map((component) => (
+          <SelectItem key={component.id} value={component.id}>
+            {component.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface ComponentRefRowProps {
+  kind: ComponentKind;
+  targetId: NodeId;
+  label?: React.ReactNode;
+  onDelete: () => void;
+}
+
+// Read-only row for an edge to a shared component; editing happens in the Components tab
+export function ComponentRefRow({ kind, targetId, label, onDelete }: ComponentRefRowProps) {
+  const { document, setActiveTab, selectComponent } = useEditorStore();
+  const component = document[kind].get(targetId);
+
+  return (
+    <div className="group flex items-center gap-2 rounded-md border border-dashed bg-card p-2">
+      {label}
+      <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+      {component ? (
+        <button
+          type="button"
+          className="flex-1 truncate text-left font-mono text-sm hover:underline"
+          onClick={() => {
+            setActiveTab('components');
+            selectComponent(targetId);
+          }}
+        >
+          #/components/{kind}/{component.name}
+        </button>
+      ) : (
+        <span className="flex-1 font-mono text-sm text-destructive">Missing component</span>
+      )}
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
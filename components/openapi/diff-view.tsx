@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Check, Copy, Download, FileText, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEditorStore } from '@/lib/openapi/store';
+import { parseYaml } from '@/lib/openapi/parser';
+import { diffDocuments, diffToMarkdown, type ApiChange } from '@/lib/openapi/diff';
+import type { ApiDocument } from '@/lib/openapi/types';
+import { getRepository, type ProjectMetadata, type SnapshotMetadata } from '@/lib/storage';
+import { cn } from '@/lib/utils';
+
+interface Baseline {
+  label: string;
+  document: ApiDocument;
+}
+
+interface DiffDialogProps {
+  trigger: React.ReactNode;
+  activeProject: ProjectMetadata | null;
+}
+
+/**
+ * Compares the current document against a snapshot or a pasted/uploaded file
+ * and lists what changed, breaking changes first.
+ */
+export function DiffDialog({ trigger, activeProject }: DiffDialogProps) {
+  const { document } = useEditorStore();
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotMetadata[]>([]);
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [fileContent, setFileContent] = useState('');
+  const [breakingOnly, setBreakingOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const projectId = activeProject?.id;
+
+  useEffect(() => {
+    if (!open || !projectId) return;
+    getRepository()
+      .listSnapshots(projectId)
+      .then(setSnapshots)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to list snapshots'));
+  }, [open, projectId]);
+
+  const diff = useMemo(
+    () => (baseline ? diffDocuments(baseline.document, document) : null),
+    [baseline, document]
+  );
+
+  const visible = diff
+    ? diff.changes
+        .filter((c) => !breakingOnly || c.severity === 'breaking')
+        .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'breaking' ? -1 : 1))
+    : [];
+
+  const currentLabel = `${document.info.title} v${document.info.version}`;
+
+  const handleSelectSnapshot = async (id: string) => {
+    try {
+      const snapshot = await getRepository().getSnapshot(id);
+      if (!snapshot) throw new Error('Snapshot no longer exists');
+      setBaseline({
+        label: `${snapshot.metadata.name} (${format(snapshot.metadata.createdAt, 'PP p')})`,
+        document: snapshot.document,
+      });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshot');
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => setFileContent(event.target?.result as string);
+    reader.readAsText(file);
+  };
+
+  const handleCompareFile = () => {
+    const result = parseYaml(fileContent);
+    if (!result.document) {
+      setError(result.errors.find((e) => e.severity === 'error')?.message ?? 'Could not parse the file');
+      return;
+    }
+    setBaseline({
+      label: `${result.document.info.title} v${result.document.info.version}`,
+      document: result.document,
+    });
+    setError(null);
+  };
+
+  const markdown = () => (diff && baseline ? diffToMarkdown(diff, baseline.label, currentLabel) : '');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(markdown());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([markdown()], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `${document.info.title.toLowerCase().replace(/\s+/g, '-')}-changelog.md`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) {
+          setBaseline(null);
+          setFileContent('');
+          setError(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            Changes from the selected baseline to the current document ({currentLabel}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="snapshot">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="snapshot">Snapshot</TabsTrigger>
+            <TabsTrigger value="file">File</TabsTrigger>
+          </TabsList>
+          <TabsContent value="snapshot" className="pt-2">
+            {snapshots.length === 0 ? (
+              <p className="font-mono text-sm text-muted-foreground">
+                No snapshots yet. Take one from the History dialog.
+              </p>
+            ) : (
+              <Select onValueChange={handleSelectSnapshot}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a snapshot..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshots.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name} · {format(s.createdAt, 'PP p')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </TabsContent>
+          <TabsContent value="file" className="space-y-2 pt-2">
+            <Textarea
+              placeholder="Paste an OpenAPI document (YAML or JSON)..."
+              value={fileContent}
+              onChange={(e) => setFileContent(e.target.value)}
+              className="h-28 font-mono text-xs"
+            />
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".yaml,.yml,.json"
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <FileText className="mr-2 h-4 w-4" />
+                Upload
+              </Button>
+              <Button onClick={handleCompareFile} disabled={!fileContent.trim()}>
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {diff && baseline && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={diff.breaking > 0 ? 'destructive' : 'secondary'}>
+                {diff.breaking} breaking
+              </Badge>
+              <Badge variant="outline">{diff.nonBreaking} non-breaking</Badge>
+              <div className="ml-auto flex items-center gap-2">
+                <Checkbox
+                  id="diff-breaking-only"
+                  checked={breakingOnly}
+                  onCheckedChange={(c) => setBreakingOnly(c === true)}
+                />
+                <Label htmlFor="diff-breaking-only" className="text-sm">
+                  Breaking only
+                </Label>
+              </div>
+            </div>
+
+            <ScrollArea className="h-72 border-2 border-foreground">
+              {visible.length === 0 ? (
+                <div className="p-6 text-center font-mono text-sm text-muted-foreground">
+                  {diff.changes.length === 0 ? 'No changes' : 'No breaking changes'}
+                </div>
+              ) : (
+                <div className="divide-y-2 divide-foreground/10">
+                  {visible.map((change, index) => (
+                    <ChangeRow key={index} change={change} />
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleCopy}>
+                {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                {copied ? 'Copied' : 'Copy Markdown'}
+              </Button>
+              <Button onClick={handleDownload}>
+                <Download className="mr-2 h-4 w-4" />
+                Changelog.md
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ChangeRow({ change }: { change: ApiChange }) {
+  const breaking = change.severity === 'breaking';
+  return (
+    <div className="flex items-start gap-3 p-3">
+      <Badge
+        variant={breaking ? 'destructive' : 'outline'}
+        className={cn('shrink-0 uppercase', !breaking && 'text-muted-foreground')}
+      >
+        {breaking ? 'Breaking' : 'Safe'}
+      </Badge>
+      <div className="min-w-0">
+        <div className="truncate font-mono text-xs font-bold">{change.location}</div>
+        <div className="text-sm">{change.message}</div>
+      </div>
+    </div>
+  );
+}
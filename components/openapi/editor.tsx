@@ -7,6 +7,7 @@ import {
   FileJson,
   Route as RouteIcon,
   Box,
+  Layers,
   Settings,
   Code,
   Undo2,
@@ -17,8 +18,15 @@ import {
   Cloud,
   CloudOff,
   Loader2,
+  AlertTriangle,
+  FolderOpen,
+  History,
+  ListRestart,
+  GitCompare,
+  Search,
 } from 'lucide-react';
 import { usePersistence, useLoadProject } from '@/hooks/use-persistence';
+import { useShortcuts, useShortcutStore, formatShortcut } from '@/hooks/use-shortcuts';
 import { useDeviceType } from '@/hooks/use-mobile';
 import { MobileEditor } from './mobile-editor';
 import { TabletEditor } from './tablet-editor';
@@ -37,13 +45,21 @@ import {
 } from '@/components/ui/tooltip';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { useEditorStore } from '@/lib/openapi/store';
+import { useEditorStore, type TabType } from '@/lib/openapi/store';
 import { SchemaList, SchemaEditor } from './schema-builder';
 import { RouteList, RouteEditor } from './route-editor';
+import { ComponentList, ComponentEditor } from './component-editor';
 import { YamlPreview } from './yaml-preview';
 import { SettingsPanel } from './settings-panel';
 import { ImportDialog } from './import-dialog';
+import { ProjectSwitcher, type ProjectWorkspace } from './project-switcher';
+import { SnapshotHistory } from './snapshot-history';
+import { HistoryPanel } from './history-panel';
+import { DiffDialog } from './diff-view';
+import { CommandPalette } from './command-palette';
+import { ValidationPanel, useDocumentValidation } from './validation-panel';
 import { NodeId } from '@/lib/openapi/types';
+import { serializeToYaml } from '@/lib/openapi/serializer';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/theme-toggle';
 
@@ -57,6 +73,7 @@ export function OpenApiEditor() {
     setActiveTab,
     selectedSchemaId,
     selectedRouteId,
+    selectedComponentId,
     yamlPreviewOpen,
     setYamlPreviewOpen,
     undo,
@@ -64,22 +81,77 @@ export function OpenApiEditor() {
     canUndo,
     canRedo,
     initializeDocument,
+    setNewRouteDialogOpen,
   } = useEditorStore();
 
   const [showYaml, setShowYaml] = useState(false);
+  const [showProblems, setShowProblems] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const paletteBinding = useShortcutStore((state) => state.bindings.commandPalette);
+  const problems = useDocumentValidation();
   
   // Load project from IndexedDB on mount
-  const { document: loadedDocument, isLoading: isLoadingProject } = useLoadProject();
+  const {
+    document: loadedDocument,
+    metadata: loadedMetadata,
+    history: loadedHistory,
+    isLoading: isLoadingProject,
+  } = useLoadProject();
   
   // Initialize store with loaded document
   useEffect(() => {
     if (loadedDocument) {
-      initializeDocument(loadedDocument);
+      initializeDocument(loadedDocument, loadedHistory ?? undefined);
     }
-  }, [loadedDocument, initializeDocument]);
+  }, [loadedDocument, loadedHistory, initializeDocument]);
   
   // Auto-save to IndexedDB
-  const { isSaving, lastSaved, error: saveError } = usePersistence(document, documentVersion);
+  const {
+    isSaving,
+    lastSaved,
+    error: saveError,
+    projectMetadata,
+    saveNow,
+    openProject,
+    renameProject,
+  } = usePersistence(document, documentVersion, { initialMetadata: loadedMetadata });
+  const workspace: ProjectWorkspace = {
+    activeProject: projectMetadata,
+    onSave: saveNow,
+    onOpen: openProject,
+    onRenameActive: renameProject,
+  };
+
+  const handleExport = () => {
+    const yaml = serializeToYaml(document);
+    const blob = new Blob([yaml], { type: 'text/yaml' });
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `${document.info.title.toLowerCase().replace(/\s+/g, '-')}.yaml`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const actions = {
+    undo,
+    redo,
+    save: () => void saveNow(),
+    newRoute: () => {
+      setActiveTab('routes');
+      setNewRouteDialogOpen(true);
+    },
+    toggleYaml: () => setShowYaml((open) => !open),
+    export: handleExport,
+    validate: () => setShowProblems(true),
+  };
+
+  // The tablet layout binds its own shortcuts; phones have no keyboard to bind
+  useShortcuts(
+    deviceType === 'desktop' ? { ...actions, commandPalette: () => setPaletteOpen(true) } : {}
+  );
 
   // Show loading state while loading from IndexedDB
   if (isLoadingProject) {
@@ -95,12 +167,26 @@ export function OpenApiEditor() {
 
   // Render mobile editor for phones
   if (deviceType === 'mobile') {
-    return <MobileEditor isSaving={isSaving} lastSaved={lastSaved} saveError={saveError} />;
+    return (
+      <MobileEditor
+        isSaving={isSaving}
+        lastSaved={lastSaved}
+        saveError={saveError}
+        workspace={workspace}
+      />
+    );
   }
 
   // Render tablet editor for tablets
   if (deviceType === 'tablet') {
-    return <TabletEditor isSaving={isSaving} lastSaved={lastSaved} saveError={saveError} />;
+    return (
+      <TabletEditor
+        isSaving={isSaving}
+        lastSaved={lastSaved}
+        saveError={saveError}
+        workspace={workspace}
+      />
+    );
   }
 
   // Desktop layout
@@ -117,6 +203,18 @@ export function OpenApiEditor() {
               <span className="text-xl font-bold uppercase tracking-tight text-foreground">OpenAPI Editor</span>
             </div>
             <div className="h-8 w-1 bg-foreground" />
+            <ProjectSwitcher
+              {...workspace}
+              trigger={
+                <Button
+                  variant="outline"
+                  className="max-w-56 border-2 border-foreground bg-background font-bold hover:bg-muted"
+                >
+                  <FolderOpen className="mr-2 h-4 w-4 shrink-0" />
+                  <span className="truncate">{projectMetadata?.name ?? 'Projects'}</span>
+                </Button>
+              }
+            />
             <span className="font-mono text-sm text-muted-foreground">
               {document.info.title} v{document.info.version}
             </span>
@@ -142,6 +240,20 @@ export function OpenApiEditor() {
           </div>
 
           <div className="flex items-center gap-3">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setPaletteOpen(true)}
+                  className="border-2 border-foreground bg-background hover:bg-muted hover:neo-shadow-sm"
+                >
+                  <Search className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Command Palette ({formatShortcut(paletteBinding)})</TooltipContent>
+            </Tooltip>
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -172,8 +284,41 @@ export function OpenApiEditor() {
               <TooltipContent>Redo</TooltipContent>
             </Tooltip>
 
+            <HistoryPanel
+              trigger={
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Edit history"
+                  className="border-2 border-foreground bg-background hover:bg-muted hover:neo-shadow-sm"
+                >
+                  <ListRestart className="h-4 w-4" />
+                </Button>
+              }
+            />
+
             <div className="h-8 w-1 bg-foreground" />
 
+            <SnapshotHistory
+              {...workspace}
+              trigger={
+                <Button className="border-2 border-foreground bg-background font-bold uppercase text-foreground hover:bg-muted">
+                  <History className="mr-2 h-4 w-4" />
+                  History
+                </Button>
+              }
+            />
+
+            <DiffDialog
+              activeProject={projectMetadata}
+              trigger={
+                <Button className="border-2 border-foreground bg-background font-bold uppercase text-foreground hover:bg-muted">
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Compare
+                </Button>
+              }
+            />
+
             <ImportDialog
               trigger={
                 <Button className="neo-btn-secondary">
@@ -201,6 +346,29 @@ export function OpenApiEditor() {
               <TooltipContent>Toggle YAML Preview</TooltipContent>
             </Tooltip>
 
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  className={cn(
+                    "border-2 border-foreground font-bold uppercase transition-all",
+                    showProblems
+                      ? "bg-accent text-foreground neo-shadow-sm"
+                      : "bg-background text-foreground hover:bg-muted"
+                  )}
+                  onClick={() => setShowProblems(!showProblems)}
+                >
+                  <AlertTriangle
+                    className={cn(
+                      "mr-2 h-4 w-4",
+                      problems.error.length > 0 && "text-destructive"
+                    )}
+                  />
+                  {problems.error.length + problems.warning.length}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Toggle Problems Panel</TooltipContent>
+            </Tooltip>
+
             <div className="h-8 w-1 bg-foreground" />
 
             <ThemeToggle />
@@ -214,11 +382,11 @@ export function OpenApiEditor() {
             <ResizablePanel defaultSize={25} minSize={20} maxSize={35} className="overflow-hidden">
               <Tabs
                 value={activeTab}
-                onValueChange={(v) => setActiveTab(v as 'routes' | 'schemas' | 'settings')}
+                onValueChange={(v) => setActiveTab(v as TabType)}
                 className="flex h-full flex-col"
               >
                 <div className="m-3 flex gap-1 border-2 border-foreground bg-muted p-1">
-                  <TabsList className="grid w-full grid-cols-3 gap-1 bg-transparent p-0">
+                  <TabsList className="grid w-full grid-cols-4 gap-1 bg-transparent p-0">
                     <TabsTrigger 
                       value="routes" 
                       className="gap-2 border-2 border-transparent bg-transparent font-bold uppercase data-[state=active]:border-foreground data-[state=active]:bg-secondary data-[state=active]:neo-shadow-sm"
@@ -233,6 +401,13 @@ export function OpenApiEditor() {
                       <Box className="h-4 w-4" />
                       <span className="hidden sm:inline">Schemas</span>
                     </TabsTrigger>
+                    <TabsTrigger 
+                      value="components" 
+                      className="gap-2 border-2 border-transparent bg-transparent font-bold uppercase data-[state=active]:border-foreground data-[state=active]:bg-secondary data-[state=active]:neo-shadow-sm"
+                    >
+                      <Layers className="h-4 w-4" />
+                      <span className="hidden sm:inline">Components</span>
+                    </TabsTrigger>
                     <TabsTrigger 
                       value="settings" 
                       className="gap-2 border-2 border-transparent bg-transparent font-bold uppercase data-[state=active]:border-foreground data-[state=active]:bg-secondary data-[state=active]:neo-shadow-sm"
@@ -249,6 +424,9 @@ export function OpenApiEditor() {
                 <TabsContent value="schemas" className="mt-0 flex-1 overflow-hidden">
                   <SchemaList onSelect={(id) => {}} />
                 </TabsContent>
+                <TabsContent value="components" className="mt-0 flex-1 overflow-hidden">
+                  <ComponentList onSelect={(id) => {}} />
+                </TabsContent>
                 <TabsContent value="settings" className="mt-0 flex-1 overflow-hidden">
                   <div className="p-2 text-sm text-muted-foreground">
                     Settings sidebar
@@ -261,29 +439,53 @@ export function OpenApiEditor() {
 
             {/* Center Panel - Editor */}
             <ResizablePanel defaultSize={showYaml ? 45 : 75} minSize={30}>
-              <div className="h-full overflow-hidden">
-                {activeTab === 'routes' && selectedRouteId && (
-                  <RouteEditor routeId={selectedRouteId} />
-                )}
-                {activeTab === 'routes' && !selectedRouteId && (
-                  <EmptyState
-                    icon={<RouteIcon className="h-12 w-12" />}
-                    title="No Route Selected"
-                    description="Select a route from the list or create a new one to start editing."
-                  />
-                )}
-                {activeTab === 'schemas' && selectedSchemaId && (
-                  <SchemaEditor schemaId={selectedSchemaId} />
-                )}
-                {activeTab === 'schemas' && !selectedSchemaId && (
-                  <EmptyState
-                    icon={<Box className="h-12 w-12" />}
-                    title="No Schema Selected"
-                    description="Select a schema from the list or create a new one to start editing."
-                  />
+              <ResizablePanelGroup direction="vertical">
+                <ResizablePanel defaultSize={showProblems ? 70 : 100} minSize={30}>
+                  <div className="h-full overflow-hidden">
+                    {activeTab === 'routes' && selectedRouteId && (
+                      <RouteEditor routeId={selectedRouteId} />
+                    )}
+                    {activeTab === 'routes' && !selectedRouteId && (
+                      <EmptyState
+                        icon={<RouteIcon className="h-12 w-12" />}
+                        title="No Route Selected"
+                        description="Select a route from the list or create a new one to start editing."
+                      />
+                    )}
+                    {activeTab === 'schemas' && selectedSchemaId && (
+                      <SchemaEditor schemaId={selectedSchemaId} />
+                    )}
+                    {activeTab === 'schemas' && !selectedSchemaId && (
+                      <EmptyState
+                        icon={<Box className="h-12 w-12" />}
+                        title="No Schema Selected"
+                        description="Select a schema from the list or create a new one to start editing."
+                      />
+                    )}
+                    {activeTab === 'components' && selectedComponentId && (
+                      <ComponentEditor componentId={selectedComponentId} />
+                    )}
+                    {activeTab === 'components' && !selectedComponentId && (
+                      <EmptyState
+                        icon={<Layers className="h-12 w-12" />}
+                        title="No Component Selected"
+                        description="Select a shared response, parameter, request body or header, or create a new one."
+                      />
+                    )}
+                    {activeTab === 'settings' && <SettingsPanel />}
+                  </div>
+                </ResizablePanel>
+
+                {/* Bottom Panel - Problems */}
+                {showProblems && (
+                  <>
+                    <ResizableHandle withHandle />
+                    <ResizablePanel defaultSize={30} minSize={15}>
+                      <ValidationPanel />
+                    </ResizablePanel>
+                  </>
                 )}
-                {activeTab === 'settings' && <SettingsPanel />}
-              </div>
+              </ResizablePanelGroup>
             </ResizablePanel>
 
             {/* Right Panel - YAML Preview */}
@@ -298,6 +500,8 @@ export function OpenApiEditor() {
           </ResizablePanelGroup>
         </div>
       </div>
+
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} actions={actions} />
     </TooltipProvider>
   );
 }
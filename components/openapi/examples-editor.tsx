@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Plus, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useEditorStore } from '@/lib/openapi/store';
+import { validateInstance } from '@/lib/openapi/instance-validator';
+import { generateExample } from '@/lib/openapi/example-generator';
+import type { ExampleDef, SchemaOrRef } from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+function formatValue(value: unknown, json: boolean): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string' && !json) return value;
+  return JSON.stringify(value, null, 2);
+}
+
+interface ExampleValueEditorProps {
+  value: unknown;
+  onChange: (value: unknown) => void;
+  // JSON values are parsed and checked against the schema; anything else is
+  // kept as the raw payload text
+  json: boolean;
+  schema?: SchemaOrRef;
+  // Offer a button that fills in a value generated from the schema
+  generate?: boolean;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Text editor for an example value. Invalid JSON is kept as a draft and not
+ * saved; valid JSON that breaks the schema is saved and its problems listed.
+ */
+export function ExampleValueEditor({
+  value,
+  onChange,
+  json,
+  schema,
+  generate,
+  label = 'Example',
+  className,
+}: ExampleValueEditorProps) {
+  const { document } = useEditorStore();
+  const [draft, setDraft] = useState(() => formatValue(value, json));
+  const [invalid, setInvalid] = useState(false);
+
+  // Follow changes made elsewhere (undo, source edits) unless the draft already says the same
+  useEffect(() => {
+    setDraft((current) => {
+      if (!json) return formatValue(value, json);
+      try {
+        if (current.trim() && JSON.stringify(JSON.parse(current)) === JSON.stringify(value)) return current;
+      } catch {
+        // An invalid draft is replaced by the stored value
+      }
+      return formatValue(value, json);
+    });
+    setInvalid(false);
+  }, [value, json]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    if (!text.trim()) {
+      setInvalid(false);
+      onChange(undefined);
+      return;
+    }
+    if (!json) {
+      onChange(text);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      setInvalid(false);
+      onChange(parsed);
+    } catch {
+      setInvalid(true);
+    }
+  };
+
+  const problems = json && schema && value !== undefined && !invalid ? validateInstance(value, schema, document) : [];
+
+  return (
+    <div className={cn('grid gap-1', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs text-muted-foreground">
+          {label}
+          {json && ' (JSON)'}
+          {invalid && <span className="ml-2 text-destructive">Invalid JSON, not saved</span>}
+        </Label>
+        {generate && json && schema && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 bg-transparent px-2 text-xs"
+            onClick={() => onChange(generateExample(schema, document))}
+          >
+            <Wand2 className="mr-1 h-3 w-3" />
+            Generate example
+          </Button>
+        )}
+      </div>
+      <Textarea
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={json ? '{ "id": 1 }' : 'Example payload'}
+        spellCheck={false}
+        className={cn(
+          'h-20 resize-y font-mono text-xs',
+          invalid && 'border-destructive',
+          problems.length > 0 && 'border-amber-500'
+        )}
+      />
+      {problems.map((problem, index) => (
+        <p key={index} className="flex items-start gap-1 text-xs text-amber-600">
+          <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+          {problem.path && <span className="font-mono">{problem.path}:</span>}
+          {problem.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+interface ExamplesEditorProps {
+  examples?: Map<string, ExampleDef>;
+  json: boolean;
+  schema?: SchemaOrRef;
+  // An empty list passes undefined, so nothing is serialized
+  onChange: (examples: Map<string, ExampleDef> | undefined) => void;
+}
+
+/**
+ * Edits the named examples of a media type or parameter
+ */
+export function ExamplesEditor({ examples, json, schema, onChange }: ExamplesEditorProps) {
+  const [newName, setNewName] = useState('');
+  const entries = examples ? Array.from(examples.entries()) : [];
+  const trimmedName = newName.trim();
+  const canAdd = trimmedName !== '' && !examples?.has(trimmedName);
+
+  // Rebuilds the map in its current order so the output keeps the user's order
+  const replace = (from: string, to: string, example: ExampleDef) => {
+    onChange(new Map(entries.map(([name, value]) => (name === from ? [to, example] : [name, value]))));
+  };
+
+  const remove = (name: string) => {
+    const rest = entries.filter(([other]) => other !== name);
+    onChange(rest.length > 0 ? new Map(rest) : undefined);
+  };
+
+  const add = () => {
+    if (!canAdd) return;
+    onChange(new Map([...entries, [trimmedName, {}]]));
+    setNewName('');
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label className="text-xs text-muted-foreground">Named examples</Label>
+
+      {entries.map(([name, example]) => (
+        <NamedExampleRow
+          key={name}
+          name={name}
+          example={example}
+          json={json}
+          schema={schema}
+          isTaken={(candidate) => candidate !== name && !!examples?.has(candidate)}
+          onRename={(to) => replace(name, to, example)}
+          onUpdate={(updates) => replace(name, name, { ...example, ...updates })}
+          onDelete={() => remove(name)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder="Add example, e.g. minimal"
+          className="h-8 flex-1 font-mono text-xs"
+        />
+        <Button variant="outline" size="sm" className="h-8 bg-transparent" disabled={!canAdd} onClick={add}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface NamedExampleRowProps {
+  name: string;
+  example: ExampleDef;
+  json: boolean;
+  schema?: SchemaOrRef;
+  isTaken: (name: string) => boolean;
+  onRename: (name: string) => void;
+  onUpdate: (updates: Partial<ExampleDef>) => void;
+  onDelete: () => void;
+}
+
+function NamedExampleRow({
+  name,
+  example,
+  json,
+  schema,
+  isTaken,
+  onRename,
+  onUpdate,
+  onDelete,
+}: NamedExampleRowProps) {
+  const [nameDraft, setNameDraft] = useState(name);
+  const [external, setExternal] = useState(example.externalValue !== undefined);
+  const trimmedDraft = nameDraft.trim();
+  const duplicate = isTaken(trimmedDraft);
+
+  // Renames are applied on blur, since the example name is the map key
+  const commitRename = () => {
+    if (trimmedDraft && !duplicate && trimmedDraft !== name) {
+      onRename(trimmedDraft);
+    } else {
+      setNameDraft(name);
+    }
+  };
+
+  // value and externalValue are mutually exclusive, so switching clears the other
+  const switchSource = (toExternal: boolean) => {
+    setExternal(toExternal);
+    onUpdate(toExternal ? { value: undefined, externalValue: '' } : { externalValue: undefined });
+  };
+
+  return (
+    <div className="space-y-2 border-2 border-foreground/20 p-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          aria-invalid={duplicate}
+          className={cn('h-8 w-40 font-mono text-xs', duplicate && 'border-destructive')}
+        />
+        <Input
+          value={example.summary ?? ''}
+          onChange={(e) => onUpdate({ summary: e.target.value || undefined })}
+          placeholder="Summary"
+          className="h-8 flex-1 text-xs"
+        />
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+      <Input
+        value={example.description ?? ''}
+        onChange={(e) => onUpdate({ description: e.target.value || undefined })}
+        placeholder="Description"
+        className="h-8 text-xs"
+      />
+      <div className="flex border-2 border-foreground text-xs font-bold uppercase">
+        {[
+          [false, 'Value'],
+          [true, 'External URL'],
+        ].map(([value, label]) => (
+          <button
+            key={String(value)}
+            type="button"
+            onClick={() => external !== value && switchSource(value as boolean)}
+            className={cn(
+              'flex-1 px-2 py-1 transition-colors',
+              external === value ? 'bg-accent text-foreground' : 'bg-background text-muted-foreground hover:bg-muted'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {external ? (
+        <Input
+          value={example.externalValue ?? ''}
+          onChange={(e) => onUpdate({ externalValue: e.target.value })}
+          placeholder="https://example.com/examples/user.json"
+          className="h-8 font-mono text-xs"
+        />
+      ) : (
+        <ExampleValueEditor
+          value={example.value}
+          onChange={(value) => onUpdate({ value })}
+          json={json}
+          schema={schema}
+          label="Value"
+        />
+      )}
+    </div>
+  );
+}
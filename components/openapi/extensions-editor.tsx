@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as YAML from 'yaml';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Extensions, isExtensionKey } from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+interface ExtensionsEditorProps {
+  extensions?: Extensions;
+  onChange: (extensions: Extensions | undefined) => void;
+}
+
+/**
+ * Key/value editor for vendor extensions. Values are edited as YAML so
+ * nested objects like x-amazon-apigateway-integration stay editable.
+ */
+export function ExtensionsEditor({ extensions, onChange }: ExtensionsEditorProps) {
+  const entries = Object.entries(extensions || {});
+
+  const commit = (next: [string, unknown][]) => {
+    onChange(next.length > 0 ? Object.fromEntries(next) : undefined);
+  };
+
+  const handleAdd = () => {
+    let key = 'x-extension';
+    let suffix = 2;
+    while (extensions && key in extensions) {
+      key = `x-extension-${suffix++}`;
+    }
+    commit([...entries, [key, '']]);
+  };
+
+  const handleRename = (index: number, key: string) => {
+    commit(entries.map((entry, i) => (i === index ? [key, entry[1]] : entry)));
+  };
+
+  const handleValueChange = (index: number, value: unknown) => {
+    commit(entries.map((entry, i) => (i === index ? [entry[0], value] : entry)));
+  };
+
+  const handleDelete = (index: number) => {
+    commit(entries.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-4">
+        {entries.length === 0 && (
+          <p className="font-mono text-sm text-muted-foreground">No vendor extensions.</p>
+        )}
+        {entries.map(([key, value], index) => (
+          <ExtensionRow
+            key={index}
+            name={key}
+            value={value}
+            isTaken={(candidate) => entries.some(([k], i) => i !== index && k === candidate)}
+            onRename={(newKey) => handleRename(index, newKey)}
+            onValueChange={(newValue) => handleValueChange(index, newValue)}
+            onDelete={() => handleDelete(index)}
+          />
+        ))}
+        <Button variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Extension
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ExtensionRowProps {
+  name: string;
+  value: unknown;
+  isTaken: (key: string) => boolean;
+  onRename: (key: string) => void;
+  onValueChange: (value: unknown) => void;
+  onDelete: () => void;
+}
+
+function ExtensionRow({ name, value, isTaken, onRename, onValueChange, onDelete }: ExtensionRowProps) {
+  const [keyDraft, setKeyDraft] = useState(name);
+  const [valueDraft, setValueDraft] = useState(() => formatValue(value));
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [valueError, setValueError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setKeyDraft(name);
+  }, [name]);
+
+  useEffect(() => {
+    setValueDraft(formatValue(value));
+  }, [value]);
+
+  const handleKeyBlur = () => {
+    const key = keyDraft.trim();
+    if (key === name) {
+      setKeyError(null);
+      return;
+    }
+    if (!isExtensionKey(key) || key.length <= 2) {
+      setKeyError('Extension keys must start with "x-"');
+      return;
+    }
+    if (isTaken(key)) {
+      setKeyError(`"${key}" is already defined`);
+      return;
+    }
+    setKeyError(null);
+    onRename(key);
+  };
+
+  const handleValueBlur = () => {
+    try {
+      const parsed = valueDraft.trim() === '' ? '' : YAML.parse(valueDraft);
+      setValueError(null);
+      onValueChange(parsed);
+    } catch (error) {
+      setValueError(error instanceof Error ? error.message : 'Invalid YAML');
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-2 border-foreground p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={keyDraft}
+          onChange={(e) => setKeyDraft(e.target.value)}
+          onBlur={handleKeyBlur}
+          placeholder="x-extension"
+          className={cn(
+            'flex-1 border-2 border-foreground bg-background font-mono focus-visible:ring-0 focus-visible:border-accent',
+            keyError && 'border-destructive'
+          )}
+        />
+        <Button variant="ghost" size="icon" onClick={onDelete}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {keyError && <p className="text-xs text-destructive">{keyError}</p>}
+      <Textarea
+        value={valueDraft}
+        onChange={(e) => setValueDraft(e.target.value)}
+        onBlur={handleValueBlur}
+        placeholder="Value (YAML)"
+        className={cn(
+          'min-h-16 border-2 border-foreground bg-background font-mono text-sm focus-visible:ring-0 focus-visible:border-accent',
+          valueError && 'border-destructive'
+        )}
+      />
+      {valueError && <p className="text-xs text-destructive">{valueError}</p>}
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === '' || value === undefined) return '';
+  return YAML.stringify(value).trimEnd();
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEditorStore } from '@/lib/openapi/store';
+import {
+  EncodingDef,
+  EncodingStyle,
+  MediaType,
+  PropertyDef,
+  SchemaNode,
+  SchemaOrRef,
+  createSchema,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+const MULTIPART = 'multipart/form-data';
+const URLENCODED = 'application/x-www-form-urlencoded';
+
+const ENCODING_STYLES: EncodingStyle[] = ['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'];
+
+// Media types whose properties can carry an encoding object
+export function isFormMediaType(contentType: string): boolean {
+  const essence = contentType.split(';')[0].trim().toLowerCase();
+  return essence === MULTIPART || essence === URLENCODED;
+}
+
+function isFilePart(schema: SchemaOrRef): boolean {
+  return schema.kind === 'inline' && schema.schema.type === 'string' && schema.schema.format === 'binary';
+}
+
+// Drops encodings that no longer say anything, so they are not serialized
+function isEmptyEncoding(encoding: EncodingDef): boolean {
+  return (
+    !encoding.contentType &&
+    !encoding.headers?.size &&
+    !encoding.style &&
+    encoding.explode === undefined &&
+    !encoding.allowReserved
+  );
+}
+
+interface FormBodyEditorProps {
+  contentType: string;
+  media: MediaType;
+  onUpdate: (updates: Partial<MediaType>) => void;
+}
+
+/**
+ * Lists the properties of a multipart or urlencoded body with their encoding.
+ * Multipart properties can be marked as file parts (binary strings) and given
+ * a part Content-Type; urlencoded ones take a serialization style.
+ */
+export function FormBodyEditor({ contentType, media, onUpdate }: FormBodyEditorProps) {
+  const { document, updateField } = useEditorStore();
+  const [newField, setNewField] = useState('');
+  const multipart = contentType.split(';')[0].trim().toLowerCase() === MULTIPART;
+
+  const schema: SchemaNode | undefined =
+    media.schema.kind === 'inline' ? media.schema.schema : document.schemas.get(media.schema.targetId);
+  const properties = schema?.properties ? Array.from(schema.properties.entries()) : [];
+
+  if (!schema || schema.type !== 'object') {
+    return (
+      <p className="font-mono text-xs text-muted-foreground">
+        Form bodies need an object schema to list their fields.
+      </p>
+    );
+  }
+
+  // Inline schemas are edited in place, named ones through the store so the
+  // change shows up wherever the schema is used
+  const updateProperty = (name: string, updates: Partial<PropertyDef>) => {
+    if (media.schema.kind === 'ref') {
+      updateField(media.schema.targetId, name, updates);
+      return;
+    }
+    const next = new Map(schema.properties);
+    next.set(name, { ...next.get(name)!, ...updates });
+    onUpdate({ schema: { kind: 'inline', schema: { ...schema, properties: next } } });
+  };
+
+  const updateEncoding = (name: string, updates: Partial<EncodingDef>) => {
+    const encoding = new Map(media.encoding);
+    const next = { ...encoding.get(name), ...updates };
+    if (isEmptyEncoding(next)) {
+      encoding.delete(name);
+    } else {
+      encoding.set(name, next);
+    }
+    onUpdate({ encoding: encoding.size > 0 ? encoding : undefined });
+  };
+
+  const addInlineField = () => {
+    const name = newField.trim();
+    if (!name || schema.properties?.has(name) || media.schema.kind !== 'inline') return;
+    const next = new Map(schema.properties);
+    next.set(name, { name, schema: { kind: 'inline', schema: createSchema('string') }, required: false });
+    onUpdate({ schema: { kind: 'inline', schema: { ...schema, properties: next } } });
+    setNewField('');
+  };
+
+  const removeInlineField = (name: string) => {
+    const next = new Map(schema.properties);
+    next.delete(name);
+    const encoding = new Map(media.encoding);
+    encoding.delete(name);
+    onUpdate({
+      schema: { kind: 'inline', schema: { ...schema, properties: next } },
+      encoding: encoding.size > 0 ? encoding : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground">
+        Form fields
+        {media.schema.kind === 'ref' && ` (from ${schema.name || 'schema'})`}
+      </Label>
+
+      {properties.length === 0 && (
+        <p className="font-mono text-xs text-muted-foreground">No fields defined.</p>
+      )}
+
+      {properties.map(([name, property]) => {
+        const encoding = media.encoding?.get(name) ?? {};
+        const file = isFilePart(property.schema);
+        return (
+          <div key={name} className="flex flex-wrap items-center gap-2 border-2 border-foreground/20 p-2">
+            <span className={cn('w-28 truncate font-mono text-xs', file && 'font-bold')}>{name}</span>
+
+            {multipart ? (
+              <>
+                <div className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`file-${contentType}-${name}`}
+                    checked={file}
+                    onCheckedChange={(c) =>
+                      updateProperty(name, {
+                        schema: {
+                          kind: 'inline',
+                          schema:
+                            c === true
+                              ? { ...createSchema('string'), format: 'binary' }
+                              : createSchema('string'),
+                        },
+                      })
+                    }
+                  />
+                  <Label htmlFor={`file-${contentType}-${name}`} className="flex items-center gap-1 text-xs">
+                    <FileUp className="h-3.5 w-3.5" />
+                    File
+                  </Label>
+                </div>
+                <Input
+                  value={encoding.contentType ?? ''}
+                  onChange={(e) => updateEncoding(name, { contentType: e.target.value || undefined })}
+                  placeholder={file ? 'application/octet-stream' : 'text/plain'}
+                  className="h-7 min-w-40 flex-1 font-mono text-xs"
+                />
+              </>
+            ) : (
+              <>
+                <Select
+                  value={encoding.style ?? 'default'}
+                  onValueChange={(v) =>
+                    updateEncoding(name, { style: v === 'default' ? undefined : (v as EncodingStyle) })
+                  }
+                >
+                  <SelectTrigger className="h-7 w-36 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default style</SelectItem>
+                    {ENCODING_STYLES.map((style) => (
+                      <SelectItem key={style} value={style}>
+                        {style}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`explode-${contentType}-${name}`}
+                    checked={encoding.explode ?? (encoding.style ?? 'form') === 'form'}
+                    onCheckedChange={(c) => updateEncoding(name, { explode: c === true })}
+                  />
+                  <Label htmlFor={`explode-${contentType}-${name}`} className="text-xs">
+                    Explode
+                  </Label>
+                </div>
+              </>
+            )}
+
+            {media.schema.kind === 'inline' && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto h-7 w-7"
+                onClick={() => removeInlineField(name)}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {media.schema.kind === 'inline' && (
+        <div className="flex gap-2">
+          <Input
+            value={newField}
+            onChange={(e) => setNewField(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addInlineField()}
+            placeholder="Add field"
+            className="h-7 flex-1 font-mono text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 bg-transparent"
+            disabled={!newField.trim() || schema.properties?.has(newField.trim())}
+            onClick={addInlineField}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
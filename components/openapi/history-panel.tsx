@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { CircleDot } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useEditorStore } from '@/lib/openapi/store';
+import { cn } from '@/lib/utils';
+
+interface HistoryPanelProps {
+  trigger: React.ReactNode;
+}
+
+/**
+ * The undo/redo log, newest first. Clicking an entry undoes or redoes
+ * everything up to it; undone entries stay listed until the next edit.
+ */
+export function HistoryPanel({ trigger }: HistoryPanelProps) {
+  const { commandLog, historyIndex, jumpToCommand } = useEditorStore();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{trigger}</PopoverTrigger>
+      <PopoverContent align="end" className="w-80 border-2 border-foreground p-0">
+        <div className="border-b-2 border-foreground px-3 py-2 font-bold uppercase">
+          Edit History
+        </div>
+        <ScrollArea className="max-h-80">
+          <div className="py-1">
+            {[...commandLog].reverse().map((command, reversedIndex) => {
+              const index = commandLog.length - 1 - reversedIndex;
+              const undone = index > historyIndex;
+              return (
+                <button
+                  key={`${index}-${command.timestamp}`}
+                  type="button"
+                  onClick={() => jumpToCommand(index)}
+                  className={cn(
+                    'flex w-full items-start gap-2 px-3 py-1.5 text-left hover:bg-muted',
+                    undone && 'text-muted-foreground line-through'
+                  )}
+                >
+                  <CircleDot
+                    className={cn(
+                      'mt-0.5 h-3.5 w-3.5 shrink-0',
+                      index === historyIndex ? 'opacity-100' : 'opacity-0'
+                    )}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm">{command.label}</div>
+                    <div className="text-xs text-muted-foreground" title={format(command.timestamp, 'PPpp')}>
+                      {formatDistanceToNow(command.timestamp, { addSuffix: true })}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => jumpToCommand(-1)}
+              className={cn(
+                'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted',
+                historyIndex >= 0 && 'text-muted-foreground'
+              )}
+            >
+              <CircleDot
+                className={cn('h-3.5 w-3.5 shrink-0', historyIndex === -1 ? 'opacity-100' : 'opacity-0')}
+              />
+              {commandLog.length === 0 ? 'No edits yet' : 'Start of history'}
+            </button>
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
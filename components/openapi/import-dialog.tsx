@@ -3,7 +3,7 @@
 import React from "react"
 
 import { useState, useRef } from 'react';
-import { Upload, AlertCircle, FileText, CheckCircle2, Link, Loader2 } from 'lucide-react';
+import { Upload, AlertCircle, FileText, CheckCircle2, Link, Loader2, GitMerge, Replace } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -20,6 +20,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useEditorStore } from '@/lib/openapi/store';
 import { parseYaml } from '@/lib/openapi/parser';
+import { mergeDocuments, type MergeEntry, type MergeResult } from '@/lib/openapi/reconcile';
 import { ValidationError } from '@/lib/openapi/types';
 import { cn } from '@/lib/utils';
 import { fetchOpenApiFromUrl } from '@/app/actions/fetch-openapi';
@@ -29,9 +30,13 @@ interface ImportDialogProps {
   trigger?: React.ReactNode;
 }
 
+type ImportMode = 'replace' | 'merge';
+
 export function ImportDialog({ trigger }: ImportDialogProps) {
-  const { setDocument } = useEditorStore();
+  const { setDocument, mergeDocument } = useEditorStore();
   const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [merge, setMerge] = useState<MergeResult | null>(null);
   const [yamlContent, setYamlContent] = useState('');
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [importSuccess, setImportSuccess] = useState(false);
@@ -50,6 +55,7 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
       setYamlContent(content);
       setErrors([]);
       setImportSuccess(false);
+      setMerge(null);
     };
     reader.readAsText(file);
   };
@@ -75,6 +81,7 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
         ]);
       } else if (result.content) {
         setYamlContent(result.content);
+        setMerge(null);
       }
     } catch (error) {
       setErrors([
@@ -102,17 +109,35 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
     }
 
     if (result.document) {
-      setDocument(result.document);
       setErrors(result.errors);
-      setImportSuccess(true);
-
-      // Auto-close on success with no errors
-      if (result.errors.length === 0) {
-        setTimeout(() => {
-          setOpen(false);
-          resetState();
-        }, 1000);
+
+      // A merge is reviewed before it is applied
+      if (mode === 'merge') {
+        setMerge(mergeDocuments(useEditorStore.getState().document, result.document));
+        return;
       }
+
+      setDocument(result.document);
+      finishImport(result.errors);
+    }
+  };
+
+  const handleApplyMerge = () => {
+    if (!merge) return;
+    mergeDocument(merge.document);
+    setMerge(null);
+    finishImport(errors);
+  };
+
+  const finishImport = (importErrors: ValidationError[]) => {
+    setImportSuccess(true);
+
+    // Auto-close on success with no errors
+    if (importErrors.length === 0) {
+      setTimeout(() => {
+        setOpen(false);
+        resetState();
+      }, 1000);
     }
   };
 
@@ -120,6 +145,7 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
     setYamlContent('');
     setErrors([]);
     setImportSuccess(false);
+    setMerge(null);
     setUrlInput('');
     setIsLoadingUrl(false);
   };
@@ -133,6 +159,7 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
 
   const hasErrors = errors.filter((e) => e.severity === 'error').length > 0;
   const hasWarnings = errors.filter((e) => e.severity === 'warning').length > 0;
+  const wasConverted = errors.some((e) => e.code === 'SWAGGER2_CONVERTED');
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
@@ -148,10 +175,37 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
         <DialogHeader>
           <DialogTitle className="text-xl font-bold uppercase tracking-tight">Import OpenAPI Specification</DialogTitle>
           <DialogDescription className="font-mono text-sm">
-            Import an existing OpenAPI 3.x YAML or JSON specification.
+            Import an existing OpenAPI 3.x or Swagger 2.0 YAML or JSON specification.
           </DialogDescription>
         </DialogHeader>
 
+        <div className="grid grid-cols-2 gap-1 border-2 border-foreground bg-muted p-1">
+          {([
+            ['replace', Replace, 'Replace', 'Start over from the imported spec'],
+            ['merge', GitMerge, 'Merge', 'Update the current document, keeping its IDs and order'],
+          ] as const).map(([value, Icon, label, hint]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => {
+                setMode(value);
+                setMerge(null);
+                setImportSuccess(false);
+              }}
+              className={cn(
+                'flex flex-col items-start border-2 px-3 py-2 text-left transition-all',
+                mode === value ? 'border-foreground bg-secondary neo-shadow-sm' : 'border-transparent hover:bg-background/50'
+              )}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-bold uppercase">
+                <Icon className="h-4 w-4" />
+                {label}
+              </span>
+              <span className="font-mono text-xs text-muted-foreground">{hint}</span>
+            </button>
+          ))}
+        </div>
+
         <Tabs defaultValue="paste" className="w-full">
           <div className="border-2 border-foreground bg-muted p-1">
             <TabsList className="grid w-full grid-cols-3 gap-1 bg-transparent p-0">
@@ -185,6 +239,7 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
                 setYamlContent(e.target.value);
                 setErrors([]);
                 setImportSuccess(false);
+                setMerge(null);
               }}
               className="h-64 border-2 border-foreground bg-background font-mono text-sm focus-visible:ring-0 focus-visible:border-accent"
             />
@@ -278,13 +333,20 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
           </TabsContent>
         </Tabs>
 
+        {/* Merge Review */}
+        {merge && <MergeSummary merge={merge} />}
+
         {/* Success Message */}
         {importSuccess && (
           <Alert className="border-green-500 bg-green-500/10">
             <CheckCircle2 className="h-4 w-4 text-green-500" />
             <AlertTitle className="text-green-500">Import Successful</AlertTitle>
             <AlertDescription className="text-green-600">
-              Your OpenAPI specification has been imported.
+              {wasConverted
+                ? 'Your Swagger 2.0 specification has been upgraded and imported. Review the conversion report below.'
+                : mode === 'merge'
+                  ? 'The updated specification has been merged into your document.'
+                  : 'Your OpenAPI specification has been imported.'}
             </AlertDescription>
           </Alert>
         )}
@@ -298,19 +360,22 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
                   key={index}
                   variant={error.severity === 'error' ? 'destructive' : 'default'}
                   className={cn(
-                    error.severity === 'warning' && 'border-amber-500 bg-amber-500/10'
+                    error.severity === 'warning' && 'border-amber-500 bg-amber-500/10',
+                    error.severity === 'info' && 'border-blue-500 bg-blue-500/10'
                   )}
                 >
                   <AlertCircle
                     className={cn(
                       'h-4 w-4',
                       error.severity === 'error' && 'text-destructive',
-                      error.severity === 'warning' && 'text-amber-500'
+                      error.severity === 'warning' && 'text-amber-500',
+                      error.severity === 'info' && 'text-blue-500'
                     )}
                   />
                   <AlertTitle
                     className={cn(
-                      error.severity === 'warning' && 'text-amber-500'
+                      error.severity === 'warning' && 'text-amber-500',
+                      error.severity === 'info' && 'text-blue-500'
                     )}
                   >
                     {error.code}
@@ -326,15 +391,84 @@ export function ImportDialog({ trigger }: ImportDialogProps) {
           <Button onClick={() => handleClose(false)} className="neo-btn-outline">
             Cancel
           </Button>
-          <Button
-            onClick={handleImport}
-            disabled={!yamlContent.trim() || (hasErrors && !importSuccess)}
-            className="neo-btn-accent"
-          >
-            {importSuccess ? 'Done' : 'Import'}
-          </Button>
+          {merge ? (
+            <Button onClick={handleApplyMerge} className="neo-btn-accent">
+              Apply Merge
+            </Button>
+          ) : (
+            <Button
+              onClick={importSuccess ? () => handleClose(false) : handleImport}
+              disabled={!yamlContent.trim() || (hasErrors && !importSuccess)}
+              className="neo-btn-accent"
+            >
+              {importSuccess ? 'Done' : mode === 'merge' ? 'Review Merge' : 'Import'}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
 }
+
+const COLLECTION_LABELS: Record<MergeEntry['collection'], string> = {
+  routes: 'Route',
+  pathItems: 'Path',
+  schemas: 'Schema',
+  securitySchemes: 'Security scheme',
+  responses: 'Response',
+  parameters: 'Parameter',
+  requestBodies: 'Request body',
+  headers: 'Header',
+};
+
+const MERGE_GROUPS = [
+  { key: 'added', title: 'Added', marker: '+', className: 'text-green-600' },
+  { key: 'changed', title: 'Changed', marker: '~', className: 'text-amber-600' },
+  { key: 'removed', title: 'Removed', marker: '-', className: 'text-destructive' },
+] as const;
+
+function MergeSummary({ merge }: { merge: MergeResult }) {
+  const total = merge.added.length + merge.changed.length + merge.removed.length + merge.fields.length;
+
+  return (
+    <div className="border-2 border-foreground bg-muted/30">
+      <div className="flex items-center justify-between border-b-2 border-foreground px-3 py-2">
+        <span className="text-sm font-bold uppercase">Merge Review</span>
+        <span className="font-mono text-xs text-muted-foreground">
+          {merge.added.length} added, {merge.changed.length} changed, {merge.removed.length} removed
+        </span>
+      </div>
+      {total === 0 ? (
+        <p className="px-3 py-4 font-mono text-sm text-muted-foreground">
+          The imported spec matches the current document.
+        </p>
+      ) : (
+        <ScrollArea className="max-h-48">
+          <div className="space-y-3 p-3 font-mono text-sm">
+            {MERGE_GROUPS.map(({ key, title, marker, className }) =>
+              merge[key].length > 0 ? (
+                <div key={key}>
+                  <p className={cn('text-xs font-bold uppercase', className)}>{title}</p>
+                  {merge[key].map((entry) => (
+                    <p key={entry.id} className="truncate">
+                      <span className={className}>{marker}</span> {entry.label}{' '}
+                      <span className="text-xs text-muted-foreground">{COLLECTION_LABELS[entry.collection]}</span>
+                    </p>
+                  ))}
+                </div>
+              ) : null
+            )}
+            {merge.fields.length > 0 && (
+              <div>
+                <p className="text-xs font-bold uppercase text-amber-600">Document</p>
+                <p>
+                  <span className="text-amber-600">~</span> {merge.fields.join(', ')}
+                </p>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
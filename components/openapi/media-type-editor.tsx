@@ -0,0 +1,268 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  MediaType,
+  SchemaNode,
+  SchemaOrRef,
+  SchemaType,
+  createSchema,
+  isJsonMediaType,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+import { SchemaCombobox } from './schema-combobox';
+import { FormBodyEditor, isFormMediaType } from './form-body-editor';
+import { ExampleValueEditor, ExamplesEditor } from './examples-editor';
+
+// Suggested in the content type inputs; any other type can be typed in
+const COMMON_MEDIA_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/x-www-form-urlencoded',
+  'multipart/form-data',
+  'application/octet-stream',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/html',
+  'image/png',
+  'application/problem+json',
+];
+
+const INLINE_TYPES: SchemaType[] = ['object', 'array', 'string', 'integer', 'number', 'boolean'];
+
+// A starting schema that fits the payload: binary string for files and
+// streams, plain string for text, object for structured bodies
+function defaultSchema(contentType: string): SchemaOrRef {
+  const essence = contentType.split(';')[0].trim().toLowerCase();
+  if (essence === 'application/octet-stream' || /^(image|audio|video)\//.test(essence) || essence === 'application/pdf') {
+    return { kind: 'inline', schema: { ...createSchema('string'), format: 'binary' } };
+  }
+  if (essence.startsWith('text/')) {
+    return { kind: 'inline', schema: createSchema('string') };
+  }
+  return { kind: 'inline', schema: createSchema('object') };
+}
+
+export function createMediaType(contentType: string): MediaType {
+  return { schema: defaultSchema(contentType) };
+}
+
+interface MediaTypesEditorProps {
+  content?: Map<string, MediaType>;
+  allSchemas: SchemaNode[];
+  // Removing the last media type passes undefined, for responses without a body
+  onChange: (content: Map<string, MediaType> | undefined) => void;
+  // Request bodies must keep at least one media type
+  requireOne?: boolean;
+  // Request bodies only: edit the encoding of multipart and urlencoded fields
+  encodings?: boolean;
+}
+
+/**
+ * Edits every media type of a request body or response, each with its own
+ * schema and example
+ */
+export function MediaTypesEditor({
+  content,
+  allSchemas,
+  onChange,
+  requireOne,
+  encodings,
+}: MediaTypesEditorProps) {
+  const [newType, setNewType] = useState('');
+  const suggestionsId = useId();
+  const entries = content ? Array.from(content.entries()) : [];
+  const trimmedNewType = newType.trim();
+  const canAdd = trimmedNewType !== '' && !content?.has(trimmedNewType);
+
+  // Rebuilds the map in its current order so the output keeps the user's order
+  const replace = (from: string, to: string, media: MediaType) => {
+    onChange(new Map(entries.map(([type, value]) => (type === from ? [to, media] : [type, value]))));
+  };
+
+  const remove = (contentType: string) => {
+    const rest = entries.filter(([type]) => type !== contentType);
+    onChange(rest.length > 0 ? new Map(rest) : undefined);
+  };
+
+  const add = () => {
+    if (!canAdd) return;
+    onChange(new Map([...entries, [trimmedNewType, createMediaType(trimmedNewType)]]));
+    setNewType('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <datalist id={suggestionsId}>
+        {COMMON_MEDIA_TYPES.map((type) => (
+          <option key={type} value={type} />
+        ))}
+      </datalist>
+
+      {entries.length === 0 && (
+        <p className="font-mono text-xs text-muted-foreground">No body content.</p>
+      )}
+
+      {entries.map(([contentType, media]) => (
+        <MediaTypeRow
+          key={contentType}
+          contentType={contentType}
+          media={media}
+          allSchemas={allSchemas}
+          suggestionsId={suggestionsId}
+          encodings={encodings}
+          takenTypes={entries.map(([type]) => type).filter((type) => type !== contentType)}
+          canRemove={!requireOne || entries.length > 1}
+          onRename={(to) => replace(contentType, to, media)}
+          onUpdate={(updates) => replace(contentType, contentType, { ...media, ...updates })}
+          onRemove={() => remove(contentType)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          list={suggestionsId}
+          value={newType}
+          onChange={(e) => setNewType(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder="Add media type, e.g. application/xml"
+          className="h-8 flex-1 font-mono text-xs"
+        />
+        <Button variant="outline" size="sm" className="h-8 bg-transparent" disabled={!canAdd} onClick={add}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface MediaTypeRowProps {
+  contentType: string;
+  media: MediaType;
+  allSchemas: SchemaNode[];
+  suggestionsId: string;
+  encodings?: boolean;
+  takenTypes: string[];
+  canRemove: boolean;
+  onRename: (contentType: string) => void;
+  onUpdate: (updates: Partial<MediaType>) => void;
+  onRemove: () => void;
+}
+
+function MediaTypeRow({
+  contentType,
+  media,
+  allSchemas,
+  suggestionsId,
+  encodings,
+  takenTypes,
+  canRemove,
+  onRename,
+  onUpdate,
+  onRemove,
+}: MediaTypeRowProps) {
+  const [typeDraft, setTypeDraft] = useState(contentType);
+  const trimmedDraft = typeDraft.trim();
+  const duplicate = takenTypes.includes(trimmedDraft);
+
+  // Renames are applied on blur, since the content type is the map key
+  const commitRename = () => {
+    if (trimmedDraft && !duplicate && trimmedDraft !== contentType) {
+      onRename(trimmedDraft);
+    } else {
+      setTypeDraft(contentType);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-2 border-foreground bg-card p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          list={suggestionsId}
+          value={typeDraft}
+          onChange={(e) => setTypeDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          aria-invalid={duplicate}
+          className={cn('h-8 flex-1 font-mono text-xs', duplicate && 'border-destructive')}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={!canRemove}
+          onClick={onRemove}
+          title="Remove media type"
+        >
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <SchemaCombobox
+          value={media.schema.kind === 'ref' ? media.schema.targetId : 'inline'}
+          onValueChange={(v) => {
+            if (v === 'inline' && media.schema.kind === 'inline') return;
+            onUpdate({ schema: v === 'inline' ? defaultSchema(contentType) : { kind: 'ref', targetId: v } });
+          }}
+          schemas={allSchemas}
+          includeInline
+          inlineLabel="Inline"
+          className="flex-1"
+          triggerClassName="h-8"
+        />
+        {media.schema.kind === 'inline' && (
+          <Select
+            value={media.schema.schema.type}
+            onValueChange={(v) => onUpdate({ schema: { kind: 'inline', schema: createSchema(v as SchemaType) } })}
+          >
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(INLINE_TYPES.includes(media.schema.schema.type)
+                ? INLINE_TYPES
+                : [...INLINE_TYPES, media.schema.schema.type]
+              ).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {encodings && isFormMediaType(contentType) && (
+        <FormBodyEditor contentType={contentType} media={media} onUpdate={onUpdate} />
+      )}
+
+      <ExampleValueEditor
+        value={media.example}
+        onChange={(example) => onUpdate({ example })}
+        json={isJsonMediaType(contentType)}
+        schema={media.schema}
+        generate
+      />
+
+      <ExamplesEditor
+        examples={media.examples}
+        json={isJsonMediaType(contentType)}
+        schema={media.schema}
+        onChange={(examples) => onUpdate({ examples })}
+      />
+    </div>
+  );
+}
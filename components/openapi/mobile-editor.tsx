@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import {
   Route as RouteIcon,
   Box,
+  Layers,
   Settings,
   Code,
   Plus,
@@ -12,15 +13,27 @@ import {
   Cloud,
   CloudOff,
   Loader2,
+  AlertTriangle,
+  FolderOpen,
+  History,
+  ListRestart,
+  GitCompare,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { useEditorStore } from '@/lib/openapi/store';
+import { findComponent } from '@/lib/openapi/types';
 import { RouteEditor } from './route-editor';
 import { SchemaEditor } from './schema-builder';
+import { ComponentList, ComponentEditor } from './component-editor';
 import { SettingsPanel } from './settings-panel';
 import { YamlPreview } from './yaml-preview';
+import { ValidationPanel, useDocumentValidation, type ValidationTarget } from './validation-panel';
+import { ProjectSwitcher, type ProjectWorkspace } from './project-switcher';
+import { SnapshotHistory } from './snapshot-history';
+import { HistoryPanel } from './history-panel';
+import { DiffDialog } from './diff-view';
 import { ThemeToggle } from '@/components/theme-toggle';
 import {
   Sheet,
@@ -40,7 +53,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-type MobileTab = 'routes' | 'schemas' | 'settings';
+type MobileTab = 'routes' | 'schemas' | 'components' | 'settings';
 
 const METHOD_COLORS: Record<string, string> = {
   GET: 'bg-emerald-500',
@@ -56,13 +69,16 @@ interface MobileEditorProps {
   isSaving: boolean;
   lastSaved: number | null;
   saveError: Error | null;
+  workspace: ProjectWorkspace;
 }
 
-export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorProps) {
+export function MobileEditor({ isSaving, lastSaved, saveError, workspace }: MobileEditorProps) {
   const [activeTab, setActiveTab] = useState<MobileTab>('routes');
   const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
   const [selectedSchemaId, setSelectedSchemaId] = useState<string | null>(null);
+  const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
   const [yamlOpen, setYamlOpen] = useState(false);
+  const [problemsOpen, setProblemsOpen] = useState(false);
   const [deleteRouteId, setDeleteRouteId] = useState<string | null>(null);
   const [deleteSchemaId, setDeleteSchemaId] = useState<string | null>(null);
 
@@ -75,6 +91,8 @@ export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorPro
     getSchemaUsageCount,
   } = useEditorStore();
 
+  const problems = useDocumentValidation();
+
   const routes = Array.from(document.routes.values());
   const schemas = Array.from(document.schemas.values());
 
@@ -104,8 +122,23 @@ export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorPro
     setDeleteSchemaId(null);
   };
 
+  const handleProblemNavigate = (target: ValidationTarget) => {
+    setActiveTab(target.tab);
+    if (target.routeId) {
+      setSelectedRouteId(target.routeId);
+    }
+    if (target.schemaId) {
+      setSelectedSchemaId(target.schemaId);
+    }
+    if (target.componentId) {
+      setSelectedComponentId(target.componentId);
+    }
+    setProblemsOpen(false);
+  };
+
   const selectedRoute = selectedRouteId ? document.routes.get(selectedRouteId) : null;
   const selectedSchema = selectedSchemaId ? document.schemas.get(selectedSchemaId) : null;
+  const selectedComponent = selectedComponentId ? findComponent(document, selectedComponentId) : null;
 
   // Render detail view if an item is selected
   if (selectedRouteId && selectedRoute) {
@@ -158,6 +191,30 @@ export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorPro
     );
   }
 
+  if (selectedComponentId && selectedComponent) {
+    return (
+      <div className="flex h-screen flex-col bg-background">
+        {/* Detail Header */}
+        <div className="shrink-0 flex items-center gap-2 border-b-2 border-foreground p-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelectedComponentId(null)}
+            className="neo-btn h-8 px-2"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Layers className="h-4 w-4" />
+          <span className="flex-1 truncate font-mono text-sm">{selectedComponent.component.name || 'Unnamed'}</span>
+        </div>
+        {/* Detail Content */}
+        <div className="min-h-0 flex-1 overflow-hidden">
+          <ComponentEditor componentId={selectedComponentId} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen flex-col bg-background">
       {/* Header */}
@@ -179,6 +236,60 @@ export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorPro
               <CloudOff className="h-3 w-3 text-destructive" />
             ) : null}
           </div>
+          {/* Projects */}
+          <ProjectSwitcher
+            {...workspace}
+            trigger={
+              <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                <FolderOpen className="h-4 w-4" />
+              </Button>
+            }
+          />
+          {/* History */}
+          <SnapshotHistory
+            {...workspace}
+            trigger={
+              <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                <History className="h-4 w-4" />
+              </Button>
+            }
+          />
+          {/* Edit history */}
+          <HistoryPanel
+            trigger={
+              <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                <ListRestart className="h-4 w-4" />
+              </Button>
+            }
+          />
+          {/* Compare */}
+          <DiffDialog
+            activeProject={workspace.activeProject}
+            trigger={
+              <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                <GitCompare className="h-4 w-4" />
+              </Button>
+            }
+          />
+          {/* Problems */}
+          <Sheet open={problemsOpen} onOpenChange={setProblemsOpen}>
+            <SheetTrigger asChild>
+              <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                <AlertTriangle
+                  className={`mr-1 h-4 w-4 ${problems.error.length > 0 ? 'text-destructive' : ''}`}
+                />
+                {problems.error.length + problems.warning.length}
+              </Button>
+            </SheetTrigger>
+            <SheetContent side="bottom" className="h-[80vh] p-0">
+              <SheetHeader className="border-b-2 border-foreground px-4 py-3">
+                <SheetTitle>Problems</SheetTitle>
+              </SheetHeader>
+              <div className="h-[calc(80vh-60px)]">
+                <ValidationPanel onNavigate={handleProblemNavigate} />
+              </div>
+            </SheetContent>
+          </Sheet>
           {/* YAML Preview */}
           <Sheet open={yamlOpen} onOpenChange={setYamlOpen}>
             <SheetTrigger asChild>
@@ -304,6 +415,10 @@ export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorPro
           </div>
         )}
 
+        {activeTab === 'components' && (
+          <ComponentList onSelect={setSelectedComponentId} />
+        )}
+
         {activeTab === 'settings' && (
           <ScrollArea className="h-full">
             <SettingsPanel />
@@ -335,6 +450,17 @@ export function MobileEditor({ isSaving, lastSaved, saveError }: MobileEditorPro
           <Box className="h-5 w-5" />
           <span className="text-xs font-medium">Schemas</span>
         </button>
+        <button
+          className={`flex flex-1 flex-col items-center gap-1 py-3 transition-colors border-r-2 border-foreground ${
+            activeTab === 'components'
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:bg-muted'
+          }`}
+          onClick={() => setActiveTab('components')}
+        >
+          <Layers className="h-5 w-5" />
+          <span className="text-xs font-medium">Components</span>
+        </button>
         <button
           className={`flex flex-1 flex-col items-center gap-1 py-3 transition-colors ${
             activeTab === 'settings'
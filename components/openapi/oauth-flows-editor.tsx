@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  OAuthFlow,
+  OAuthFlows,
+  OAuthFlowType,
+  OAUTH_FLOW_TYPES,
+  OAUTH_FLOW_URLS,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+const FLOW_LABELS: Record<OAuthFlowType, string> = {
+  authorizationCode: 'Authorization Code',
+  clientCredentials: 'Client Credentials',
+  password: 'Password',
+  implicit: 'Implicit',
+};
+
+const URL_LABELS: Record<keyof Omit<OAuthFlow, 'scopes'>, string> = {
+  authorizationUrl: 'Authorization URL',
+  tokenUrl: 'Token URL',
+  refreshUrl: 'Refresh URL',
+};
+
+interface OAuthFlowsEditorProps {
+  flows?: OAuthFlows;
+  isMobile?: boolean;
+  onChange: (flows: OAuthFlows) => void;
+}
+
+/**
+ * Toggles and configures each OAuth2 flow. Only the URLs a flow type
+ * uses are shown; required ones are marked and checked by the validator.
+ */
+export function OAuthFlowsEditor({ flows = {}, isMobile, onChange }: OAuthFlowsEditorProps) {
+  const setFlow = (type: OAuthFlowType, flow: OAuthFlow | undefined) => {
+    const next = { ...flows };
+    if (flow) {
+      next[type] = flow;
+    } else {
+      delete next[type];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {OAUTH_FLOW_TYPES.map((type) => {
+        const flow = flows[type];
+        return (
+          <div key={type} className="border-2 border-foreground p-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`flow-${type}`}
+                checked={!!flow}
+                onCheckedChange={(c) => setFlow(type, c === true ? { scopes: {} } : undefined)}
+              />
+              <Label htmlFor={`flow-${type}`} className={cn('font-bold', isMobile && 'text-base')}>
+                {FLOW_LABELS[type]}
+              </Label>
+            </div>
+            {flow && (
+              <FlowFields
+                type={type}
+                flow={flow}
+                isMobile={isMobile}
+                onChange={(updated) => setFlow(type, updated)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface FlowFieldsProps {
+  type: OAuthFlowType;
+  flow: OAuthFlow;
+  isMobile?: boolean;
+  onChange: (flow: OAuthFlow) => void;
+}
+
+function FlowFields({ type, flow, isMobile, onChange }: FlowFieldsProps) {
+  const required = OAUTH_FLOW_URLS[type];
+  const fields = [...required, 'refreshUrl' as const];
+  const scopes = Object.entries(flow.scopes);
+
+  const setScopes = (entries: [string, string][]) => {
+    onChange({ ...flow, scopes: Object.fromEntries(entries) });
+  };
+
+  const handleAddScope = () => {
+    let name = 'scope';
+    let suffix = 2;
+    while (name in flow.scopes) {
+      name = `scope${suffix++}`;
+    }
+    setScopes([...scopes, [name, '']]);
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      {fields.map((field) => (
+        <div key={field} className="grid gap-1">
+          <Label className={cn('text-xs text-muted-foreground', isMobile && 'text-sm')}>
+            {URL_LABELS[field]}
+            {required.includes(field as (typeof required)[number]) && ' *'}
+          </Label>
+          <Input
+            placeholder="https://"
+            value={flow[field] || ''}
+            onChange={(e) => onChange({ ...flow, [field]: e.target.value || undefined })}
+            className={cn('font-mono', isMobile ? 'h-12 text-base' : 'h-8 text-sm')}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label className={cn('text-xs text-muted-foreground', isMobile && 'text-sm')}>Scopes</Label>
+        {scopes.length === 0 && (
+          <p className="font-mono text-xs text-muted-foreground">No scopes declared.</p>
+        )}
+        {scopes.map(([name, description], index) => (
+          <ScopeRow
+            key={index}
+            name={name}
+            description={description}
+            isMobile={isMobile}
+            isTaken={(candidate) => scopes.some(([n], i) => i !== index && n === candidate)}
+            onRename={(newName) =>
+              setScopes(scopes.map((entry, i) => (i === index ? [newName, entry[1]] : entry)))
+            }
+            onDescriptionChange={(newDescription) =>
+              setScopes(scopes.map((entry, i) => (i === index ? [entry[0], newDescription] : entry)))
+            }
+            onDelete={() => setScopes(scopes.filter((_, i) => i !== index))}
+          />
+        ))}
+        <Button variant="outline" size="sm" onClick={handleAddScope}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Scope
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ScopeRowProps {
+  name: string;
+  description: string;
+  isMobile?: boolean;
+  isTaken: (name: string) => boolean;
+  onRename: (name: string) => void;
+  onDescriptionChange: (description: string) => void;
+  onDelete: () => void;
+}
+
+// Scope names are object keys, so renames are committed on blur once they are unique
+function ScopeRow({
+  name,
+  description,
+  isMobile,
+  isTaken,
+  onRename,
+  onDescriptionChange,
+  onDelete,
+}: ScopeRowProps) {
+  const [nameDraft, setNameDraft] = useState(name);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNameDraft(name);
+  }, [name]);
+
+  const handleBlur = () => {
+    const trimmed = nameDraft.trim();
+    if (trimmed === name) {
+      setError(null);
+      return;
+    }
+    if (!trimmed) {
+      setError('Scope name is required');
+      return;
+    }
+    if (isTaken(trimmed)) {
+      setError(`"${trimmed}" is already declared`);
+      return;
+    }
+    setError(null);
+    onRename(trimmed);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={handleBlur}
+          placeholder="read:items"
+          className={cn(
+            'w-40 font-mono',
+            isMobile ? 'h-12 text-base' : 'h-8 text-sm',
+            error && 'border-destructive'
+          )}
+        />
+        <Input
+          value={description}
+          onChange={(e) => onDescriptionChange(e.target.value)}
+          placeholder="Description"
+          className={cn('flex-1', isMobile ? 'h-12 text-base' : 'h-8 text-sm')}
+        />
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, FolderOpen, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getRepository,
+  type ListProjectsOptions,
+  type ProjectMetadata,
+  type StoredProject,
+} from '@/lib/storage';
+import { createEmptyDocument, generateId } from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+type SortBy = NonNullable<ListProjectsOptions['sortBy']>;
+
+// Wiring from usePersistence that every editor layout passes through
+export interface ProjectWorkspace {
+  activeProject: ProjectMetadata | null;
+  /** Saves pending changes to the active project */
+  onSave: () => Promise<void>;
+  onOpen: (project: StoredProject) => Promise<void>;
+  onRenameActive: (name: string) => Promise<void>;
+}
+
+interface ProjectSwitcherProps extends ProjectWorkspace {
+  trigger: React.ReactNode;
+}
+
+export function ProjectSwitcher({
+  trigger,
+  activeProject,
+  onSave,
+  onOpen,
+  onRenameActive,
+}: ProjectSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectMetadata[]>([]);
+  const [query, setQuery] = useState('');
+  const [sortBy, setSortBy] = useState<SortBy>('updatedAt');
+  const [newName, setNewName] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<ProjectMetadata | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const namePrefix = query.trim() || undefined;
+      setProjects(await getRepository().listProjects({ sortBy, namePrefix }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list projects');
+    }
+  }, [query, sortBy]);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // Run a repository operation, then reload the list and surface any failure
+  const run = async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    }
+  };
+
+  const handleOpen = (id: string) =>
+    run(async () => {
+      const project = await getRepository().getProject(id);
+      if (!project) throw new Error('Project no longer exists');
+      await onOpen(project);
+      setOpen(false);
+    });
+
+  const handleCreate = () =>
+    run(async () => {
+      const name = newName?.trim();
+      if (!name) return;
+      const now = Date.now();
+      const document = createEmptyDocument();
+      document.info = { ...document.info, title: name };
+      const project: StoredProject = {
+        metadata: { id: generateId(), name, createdAt: now, updatedAt: now },
+        document,
+      };
+      await getRepository().saveProject(project);
+      await onOpen(project);
+      setNewName(null);
+      setOpen(false);
+    });
+
+  const handleDuplicate = (id: string) =>
+    run(async () => {
+      // The active project may have changes still waiting for the debounced save
+      if (id === activeProject?.id) {
+        await onSave();
+      }
+      const repository = getRepository();
+      const source = await repository.getProject(id);
+      if (!source) throw new Error('Project no longer exists');
+      const now = Date.now();
+      await repository.saveProject({
+        metadata: {
+          id: generateId(),
+          name: `${source.metadata.name} (copy)`,
+          createdAt: now,
+          updatedAt: now,
+        },
+        document: source.document,
+      });
+    });
+
+  const handleRename = (project: ProjectMetadata) =>
+    run(async () => {
+      const name = renameValue.trim();
+      setRenamingId(null);
+      if (!name || name === project.name) return;
+      if (project.id === activeProject?.id) {
+        await onRenameActive(name);
+        return;
+      }
+      const repository = getRepository();
+      const stored = await repository.getProject(project.id);
+      if (!stored) throw new Error('Project no longer exists');
+      await repository.saveProject({
+        ...stored,
+        metadata: { ...stored.metadata, name, updatedAt: Date.now() },
+      });
+    });
+
+  const handleDelete = (id: string) =>
+    run(async () => {
+      await getRepository().deleteProject(id);
+      setDeleteTarget(null);
+    });
+
+  return (
+    <>
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value);
+          if (!value) {
+            setNewName(null);
+            setRenamingId(null);
+          }
+        }}
+      >
+        <DialogTrigger asChild>{trigger}</DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Projects</DialogTitle>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search by name..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select
+              value={query.trim() ? 'name' : sortBy}
+              onValueChange={(v) => setSortBy(v as SortBy)}
+              disabled={!!query.trim()}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="updatedAt">Recent</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {newName === null ? (
+            <Button variant="outline" className="w-full bg-transparent" onClick={() => setNewName('')}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Project
+            </Button>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                autoFocus
+                placeholder="Project name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCreate();
+                  if (e.key === 'Escape') setNewName(null);
+                }}
+              />
+              <Button onClick={handleCreate} disabled={!newName.trim()}>
+                Create
+              </Button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <ScrollArea className="max-h-80">
+            <div className="space-y-2 pr-2">
+              {projects.length === 0 && (
+                <div className="border-2 border-dashed border-muted-foreground/50 p-6 text-center">
+                  <p className="font-mono text-sm text-muted-foreground">
+                    {query.trim() ? 'No projects match this name' : 'No saved projects yet'}
+                  </p>
+                </div>
+              )}
+              {projects.map((project) => {
+                const isActive = project.id === activeProject?.id;
+                return (
+                  <div
+                    key={project.id}
+                    className={cn(
+                      'flex items-center gap-2 border-2 border-foreground p-2',
+                      isActive && 'bg-muted'
+                    )}
+                  >
+                    <div className="min-w-0 flex-1">
+                      {renamingId === project.id ? (
+                        <Input
+                          autoFocus
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={() => handleRename(project)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(project);
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="h-8"
+                        />
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-bold">{project.name}</span>
+                          {isActive && <Badge variant="secondary">Open</Badge>}
+                        </div>
+                      )}
+                      <div className="text-xs text-muted-foreground">
+                        Updated {formatDistanceToNow(project.updatedAt, { addSuffix: true })}
+                      </div>
+                    </div>
+                    {!isActive && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Open"
+                        onClick={() => handleOpen(project.id)}
+                      >
+                        <FolderOpen className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Rename"
+                      onClick={() => {
+                        setRenamingId(project.id);
+                        setRenameValue(project.name);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Duplicate"
+                      onClick={() => handleDuplicate(project.id)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={isActive ? 'Open another project to delete this one' : 'Delete'}
+                      disabled={isActive}
+                      onClick={() => setDeleteTarget(project)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete
+              {deleteTarget ? ` "${deleteTarget.name}"` : ' the project'}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleteTarget && handleDelete(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -2,7 +2,7 @@
 
 import React from "react"
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import {
   Plus,
   Trash2,
@@ -14,6 +14,7 @@ import {
   ChevronsUpDown,
   Check,
   Settings,
+  Layers,
 } from 'lucide-react';
 import {
   Popover,
@@ -68,18 +69,36 @@ import {
   Route,
   HttpMethod,
   ParameterDef,
+  ParameterOrRef,
+  SecurityAlternative,
+  Server,
   ResponseDef,
+  ResponseOrRef,
   RequestBody,
+  RequestBodyOrRef,
+  ComponentKind,
+  ComponentRef,
   SchemaNode,
   SchemaOrRef,
   NodeId,
   createRoute,
   createSchema,
   generateId,
+  isComponentRef,
+  resolveComponent,
+  findPathItem,
 } from '@/lib/openapi/types';
+import { responseNodeId } from '@/lib/openapi/source-map';
+import { useFocusedNode } from '@/hooks/use-focused-node';
 import { cn } from '@/lib/utils';
 import { HTTP_STATUS_CODES, getStatusCodeColor, getCategoryLabel, getGroupedStatusCodes } from '@/lib/openapi/http-status-codes';
-import { SchemaCombobox } from './schema-combobox';
+import { MediaTypesEditor, createMediaType } from './media-type-editor';
+import { ExampleValueEditor, ExamplesEditor } from './examples-editor';
+import { ExtensionsEditor } from './extensions-editor';
+import { ComponentPicker, ComponentRefRow, HeadersEditor } from './component-editor';
+import { SecurityRequirementsEditor } from './security-requirements-editor';
+import { ServerVariablesEditor } from './server-variables-editor';
+import { TryItConsole } from './try-it-console';
 
 const HTTP_METHODS: { value: HttpMethod; label: string; color: string }[] = [
   { value: 'get', label: 'GET', color: 'bg-green-500' },
@@ -105,9 +124,15 @@ interface RouteListProps {
 }
 
 export function RouteList({ onSelect }: RouteListProps) {
-  const { document, selectedRouteId, selectRoute, addRoute, deleteRoute } =
-    useEditorStore();
-  const [newRouteDialogOpen, setNewRouteDialogOpen] = useState(false);
+  const {
+    document,
+    selectedRouteId,
+    selectRoute,
+    addRoute,
+    deleteRoute,
+    newRouteDialogOpen,
+    setNewRouteDialogOpen,
+  } = useEditorStore();
   const [newRoutePath, setNewRoutePath] = useState('');
   const [newRouteMethod, setNewRouteMethod] = useState<HttpMethod>('get');
   const [newRouteTags, setNewRouteTags] = useState<string[]>([]);
@@ -151,8 +176,14 @@ export function RouteList({ onSelect }: RouteListProps) {
     // Set selected tags
     route.tags = newRouteTags;
     
-    // Auto-extract path parameters
-    const pathParams = path.match(/\{([^}]+)\}/g);
+    // Auto-extract path parameters, except those the path item already declares
+    const sharedNames = (findPathItem(document, path)?.parameters ?? [])
+      .map((p) => resolveComponent(document, p))
+      .filter((p) => p?.in === 'path')
+      .map((p) => p!.name);
+    const pathParams = path
+      .match(/\{([^}]+)\}/g)
+      ?.filter((param) => !sharedNames.includes(param.slice(1, -1)));
     if (pathParams) {
       route.parameters = pathParams.map((param) => {
         const name = param.slice(1, -1);
@@ -341,6 +372,7 @@ export function RouteList({ onSelect }: RouteListProps) {
 <CollapsibleContent className="overflow-hidden">
                     {groupedByTag[tag].map((route) => {
                     const method = HTTP_METHODS.find((m) => m.value === route.method);
+                    const inheritedCount = findPathItem(document, route.path)?.parameters.length ?? 0;
                     return (
                       <div
                         key={route.id}
@@ -372,6 +404,24 @@ export function RouteList({ onSelect }: RouteListProps) {
                             <p className="font-mono">{route.path}</p>
                           </TooltipContent>
                         </Tooltip>
+                        {inheritedCount > 0 && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge
+                                variant="outline"
+                                className="shrink-0 gap-1 border-2 border-foreground font-mono text-xs"
+                              >
+                                <Layers className="h-3 w-3" />
+                                {inheritedCount}
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent side="right">
+                              <p>
+                                Inherits {inheritedCount} path-level parameter{inheritedCount > 1 ? 's' : ''}
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -408,6 +458,7 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
     addResponse,
     updateResponse,
     deleteResponse,
+    setRouteSecurity,
   } = useEditorStore();
   const route = document.routes.get(routeId);
   const allSchemas = Array.from(document.schemas.values()).filter((s) => s.name);
@@ -415,6 +466,10 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
   const [parametersOpen, setParametersOpen] = useState(true);
   const [requestBodyOpen, setRequestBodyOpen] = useState(true);
   const [responsesOpen, setResponsesOpen] = useState(true);
+  const [extensionsOpen, setExtensionsOpen] = useState(false);
+  const [pathItemOpen, setPathItemOpen] = useState(false);
+  const [securityOpen, setSecurityOpen] = useState(false);
+  const [tryItOpen, setTryItOpen] = useState(false);
 
   if (!route) {
     return (
@@ -426,9 +481,25 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
 
   const method = HTTP_METHODS.find((m) => m.value === route.method);
 
-  const pathParams = route.parameters.filter((p) => p.in === 'path');
-  const queryParams = route.parameters.filter((p) => p.in === 'query');
-  const headerParams = route.parameters.filter((p) => p.in === 'header');
+  // Shared parameters are grouped by the location of their definition;
+  // refs to deleted components fall into the query group so they can be removed
+  const locationOf = (p: ParameterOrRef) => resolveComponent(document, p)?.in ?? 'query';
+  const pathParams = route.parameters.filter((p) => locationOf(p) === 'path');
+  const queryParams = route.parameters.filter((p) => locationOf(p) === 'query');
+  const headerParams = route.parameters.filter((p) => locationOf(p) === 'header');
+
+  // Path-level parameters apply unless the operation redeclares the same name and location
+  const pathItem = findPathItem(document, route.path);
+  const ownIdentities = route.parameters.map((p) => {
+    const resolved = resolveComponent(document, p);
+    return resolved && `${resolved.in}:${resolved.name}`;
+  });
+  const inheritedParams = (pathItem?.parameters ?? []).filter((p) => {
+    const resolved = resolveComponent(document, p);
+    return !resolved || !ownIdentities.includes(`${resolved.in}:${resolved.name}`);
+  });
+  const inheritedIn = (location: ParameterDef['in']) =>
+    inheritedParams.filter((p) => locationOf(p) === location);
 
   return (
     <ScrollArea className="h-full">
@@ -558,6 +629,32 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
 
       <div className="p-4">
         <div className="space-y-4">
+          {/* Path Item Section */}
+          <Collapsible open={pathItemOpen} onOpenChange={setPathItemOpen}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" className="w-full justify-between">
+                <span className="flex items-center gap-2 font-medium">
+                  Path
+                  {pathItem && pathItem.parameters.length > 0 && (
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {pathItem.parameters.length} shared
+                    </Badge>
+                  )}
+                </span>
+                {pathItemOpen ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <PathItemEditor path={route.path} allSchemas={allSchemas} />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Separator />
+
           {/* Parameters Section */}
           <Collapsible open={parametersOpen} onOpenChange={setParametersOpen}>
             <CollapsibleTrigger asChild>
@@ -572,10 +669,12 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
             </CollapsibleTrigger>
             <CollapsibleContent className="space-y-4 pt-2">
               {/* Path Parameters */}
-              {pathParams.length > 0 && (
+              {(pathParams.length > 0 || inheritedIn('path').length > 0) && (
                 <ParameterGroup
                   title="Path Parameters"
+                  location="path"
                   parameters={pathParams}
+                  inherited={inheritedIn('path')}
                   allSchemas={allSchemas}
                   onUpdate={(id, updates) => updateParameter(routeId, id, updates)}
                   onDelete={(id) => deleteParameter(routeId, id)}
@@ -585,8 +684,11 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
               {/* Query Parameters */}
               <ParameterGroup
                 title="Query Parameters"
+                location="query"
                 parameters={queryParams}
+                inherited={inheritedIn('query')}
                 allSchemas={allSchemas}
+                onAddRef={(ref) => addParameter(routeId, ref)}
                 onAdd={() =>
                   addParameter(routeId, {
                     id: generateId(),
@@ -603,8 +705,11 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
               {/* Header Parameters */}
               <ParameterGroup
                 title="Headers"
+                location="header"
                 parameters={headerParams}
+                inherited={inheritedIn('header')}
                 allSchemas={allSchemas}
+                onAddRef={(ref) => addParameter(routeId, ref)}
                 onAdd={() =>
                   addParameter(routeId, {
                     id: generateId(),
@@ -662,6 +767,7 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
             </CollapsibleTrigger>
             <CollapsibleContent className="pt-2">
               <ResponsesEditor
+                routeId={routeId}
                 responses={route.responses}
                 allSchemas={allSchemas}
                 onAdd={(statusCode, response) => addResponse(routeId, statusCode, response)}
@@ -672,6 +778,77 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
               />
             </CollapsibleContent>
           </Collapsible>
+
+          <Separator />
+
+          {/* Security Section */}
+          <Collapsible open={securityOpen} onOpenChange={setSecurityOpen}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" className="w-full justify-between">
+                <span className="flex items-center gap-2 font-medium">
+                  Security
+                  {route.security?.length === 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      <Unlock className="mr-1 h-3 w-3" />
+                      Public
+                    </Badge>
+                  )}
+                </span>
+                {securityOpen ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <RouteSecurityEditor
+                security={route.security}
+                onChange={(security) => setRouteSecurity(routeId, security)}
+              />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Separator />
+
+          {/* Try It Out Section */}
+          <Collapsible open={tryItOpen} onOpenChange={setTryItOpen}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" className="w-full justify-between">
+                <span className="font-medium">Try It Out</span>
+                {tryItOpen ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <TryItConsole key={routeId} route={route} />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Separator />
+
+          {/* Vendor Extensions Section */}
+          <Collapsible open={extensionsOpen} onOpenChange={setExtensionsOpen}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" className="w-full justify-between">
+                <span className="font-medium">Extensions</span>
+                {extensionsOpen ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <ExtensionsEditor
+                extensions={route.extensions}
+                onChange={(extensions) => updateRoute(routeId, { extensions })}
+              />
+            </CollapsibleContent>
+          </Collapsible>
         </div>
       </div>
       </div>
@@ -681,67 +858,377 @@ export function RouteEditor({ routeId }: RouteEditorProps) {
 
 // Sub-components
 
+type SecurityMode = 'inherit' | 'public' | 'custom';
+
+interface RouteSecurityEditorProps {
+  security?: SecurityAlternative[];
+  onChange: (security: SecurityAlternative[] | undefined) => void;
+}
+
+function RouteSecurityEditor({ security, onChange }: RouteSecurityEditorProps) {
+  const { document } = useEditorStore();
+  const mode: SecurityMode = !security ? 'inherit' : security.length === 0 ? 'public' : 'custom';
+
+  const describe = (alternatives: SecurityAlternative[]) =>
+    alternatives
+      .map((alternative) =>
+        alternative.length === 0
+          ? 'anonymous'
+          : alternative
+              .map((r) => document.securitySchemes.get(r.schemeId)?.name ?? 'missing scheme')
+              .join(' + ')
+      )
+      .join(' or ');
+
+  const handleModeChange = (next: SecurityMode) => {
+    if (next === 'inherit') {
+      onChange(undefined);
+    } else if (next === 'public') {
+      onChange([]);
+    } else {
+      // Start from the document default so overriding is a small edit
+      const firstScheme = document.securitySchemes.values().next().value;
+      onChange(
+        document.security?.length
+          ? document.security.map((alternative) => alternative.map((r) => ({ ...r, scopes: [...r.scopes] })))
+          : [firstScheme ? [{ schemeId: firstScheme.id, scopes: [] }] : []]
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-4">
+        <Select value={mode} onValueChange={(v) => handleModeChange(v as SecurityMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="inherit">Use default security</SelectItem>
+            <SelectItem value="public">Public (no authentication)</SelectItem>
+            <SelectItem value="custom">Custom requirements</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {mode === 'inherit' && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Lock className="h-4 w-4" />
+            {document.security?.length
+              ? `Requires ${describe(document.security)}`
+              : 'No default security is defined in Settings'}
+          </div>
+        )}
+        {mode === 'public' && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Unlock className="h-4 w-4" />
+            Emits an empty security list, opting out of the default
+          </div>
+        )}
+        {mode === 'custom' && security && (
+          <SecurityRequirementsEditor
+            value={security}
+            onChange={(next) => onChange(next.length > 0 ? next : undefined)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PathItemEditorProps {
+  path: string;
+  allSchemas: SchemaNode[];
+}
+
+function PathItemEditor({ path, allSchemas }: PathItemEditorProps) {
+  const {
+    document,
+    updatePathItem,
+    addPathParameter,
+    updatePathParameter,
+    deletePathParameter,
+  } = useEditorStore();
+  const pathItem = findPathItem(document, path);
+  const parameters = pathItem?.parameters ?? [];
+  const servers = pathItem?.servers ?? [];
+  const operationCount = Array.from(document.routes.values()).filter((r) => r.path === path).length;
+
+  // Template variables that are not yet declared at path level
+  const declaredPathNames = parameters
+    .map((p) => resolveComponent(document, p))
+    .filter((p) => p?.in === 'path')
+    .map((p) => p!.name);
+  const undeclaredPathNames = (path.match(/\{([^}]+)\}/g) || [])
+    .map((param) => param.slice(1, -1))
+    .filter((name) => !declaredPathNames.includes(name));
+
+  const updateServers = (next: Server[]) => {
+    updatePathItem(path, { servers: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="font-mono text-xs text-muted-foreground">
+        Shared by {operationCount} operation{operationCount === 1 ? '' : 's'} on {path}
+      </p>
+      <Input
+        placeholder="Path summary"
+        value={pathItem?.summary || ''}
+        onChange={(e) => updatePathItem(path, { summary: e.target.value || undefined })}
+        className="border-2 border-foreground bg-background focus-visible:ring-0 focus-visible:border-accent"
+      />
+      <Textarea
+        placeholder="Path description"
+        value={pathItem?.description || ''}
+        onChange={(e) => updatePathItem(path, { description: e.target.value || undefined })}
+        className="h-16 resize-none border-2 border-foreground bg-background font-mono focus-visible:ring-0 focus-visible:border-accent"
+      />
+
+      <ParameterGroup
+        title="Shared Parameters"
+        parameters={parameters}
+        unlockPath
+        allSchemas={allSchemas}
+        onAdd={() =>
+          addPathParameter(path, {
+            id: generateId(),
+            name: 'param',
+            in: 'query',
+            required: false,
+            schema: { kind: 'inline', schema: createSchema('string') },
+          })
+        }
+        onAddRef={(ref) => addPathParameter(path, ref)}
+        onUpdate={(id, updates) => updatePathParameter(path, id, updates)}
+        onDelete={(id) => deletePathParameter(path, id)}
+      />
+      {undeclaredPathNames.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Share path parameter:</span>
+          {undeclaredPathNames.map((name) => (
+            <Button
+              key={name}
+              size="sm"
+              variant="outline"
+              className="h-7 font-mono"
+              onClick={() =>
+                addPathParameter(path, {
+                  id: generateId(),
+                  name,
+                  in: 'path',
+                  required: true,
+                  schema: { kind: 'inline', schema: createSchema('string') },
+                })
+              }
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              {`{${name}}`}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="py-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sm">Servers</CardTitle>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateServers([...servers, { url: 'https://' }])}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 pt-0">
+          {servers.length === 0 ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">
+              Uses the document servers
+            </div>
+          ) : (
+            servers.map((server, index) => (
+              <div key={index} className="space-y-2 rounded-md border bg-card p-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={server.url}
+                    onChange={(e) =>
+                      updateServers(servers.map((s, i) => (i === index ? { ...s, url: e.target.value } : s)))
+                    }
+                    className="h-8 flex-1 font-mono text-sm"
+                  />
+                  <Input
+                    placeholder="Description"
+                    value={server.description || ''}
+                    onChange={(e) =>
+                      updateServers(
+                        servers.map((s, i) => (i === index ? { ...s, description: e.target.value } : s))
+                      )
+                    }
+                    className="h-8 flex-1 text-sm"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => updateServers(servers.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                <ServerVariablesEditor
+                  server={server}
+                  onChange={(updated) => updateServers(servers.map((s, i) => (i === index ? updated : s)))}
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <ExtensionsEditor
+        extensions={pathItem?.extensions}
+        onChange={(extensions) => updatePathItem(path, { extensions })}
+      />
+    </div>
+  );
+}
+
 interface ParameterGroupProps {
   title: string;
-  parameters: ParameterDef[];
+  // Restricts the shared parameter picker; omitted for groups that mix locations
+  location?: ParameterDef['in'];
+  parameters: ParameterOrRef[];
+  inherited?: ParameterOrRef[];
+  // Path item parameters may rename and remove path parameters
+  unlockPath?: boolean;
   allSchemas: SchemaNode[];
   onAdd?: () => void;
+  onAddRef?: (ref: ComponentRef<'parameters'>) => void;
   onUpdate: (id: NodeId, updates: Partial<ParameterDef>) => void;
   onDelete: (id: NodeId) => void;
 }
 
 function ParameterGroup({
   title,
+  location,
   parameters,
+  inherited = [],
+  unlockPath,
   allSchemas,
   onAdd,
+  onAddRef,
   onUpdate,
   onDelete,
 }: ParameterGroupProps) {
+  const usedRefs = parameters.filter(isComponentRef).map((p) => p.targetId);
+
   return (
     <Card>
       <CardHeader className="py-3">
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between gap-2">
           <CardTitle className="text-sm">{title}</CardTitle>
-          {onAdd && (
-            <Button size="sm" variant="outline" onClick={onAdd}>
-              <Plus className="mr-1 h-3 w-3" />
-              Add
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {onAddRef && (
+              <ComponentPicker
+                kind="parameters"
+                onSelect={onAddRef}
+                filter={(c) =>
+                  (!location || c.definition.in === location) && !usedRefs.includes(c.id)
+                }
+                className="w-44"
+              />
+            )}
+            {onAdd && (
+              <Button size="sm" variant="outline" onClick={onAdd}>
+                <Plus className="mr-1 h-3 w-3" />
+                Add
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-2 pt-0">
-        {parameters.length === 0 ? (
+        {inherited.map((param) => (
+          <InheritedParameterRow
+            key={isComponentRef(param) ? param.targetId : param.id}
+            param={param}
+          />
+        ))}
+        {parameters.length === 0 && inherited.length === 0 ? (
           <div className="py-4 text-center text-sm text-muted-foreground">
             No parameters
           </div>
         ) : (
-          parameters.map((param) => (
-            <ParameterRow
-              key={param.id}
-              param={param}
-              allSchemas={allSchemas}
-              onUpdate={(updates) => onUpdate(param.id, updates)}
-              onDelete={() => onDelete(param.id)}
-            />
-          ))
+          parameters.map((param) =>
+            isComponentRef(param) ? (
+              <ComponentRefRow
+                key={param.targetId}
+                kind="parameters"
+                targetId={param.targetId}
+                onDelete={() => onDelete(param.targetId)}
+              />
+            ) : (
+              <ParameterRow
+                key={param.id}
+                param={param}
+                locked={!unlockPath && param.in === 'path'}
+                allSchemas={allSchemas}
+                onUpdate={(updates) => onUpdate(param.id, updates)}
+                onDelete={() => onDelete(param.id)}
+              />
+            )
+          )
         )}
       </CardContent>
     </Card>
   );
 }
 
+interface InheritedParameterRowProps {
+  param: ParameterOrRef;
+}
+
+// Read-only row for a parameter declared on the path item; edited in the Path section
+function InheritedParameterRow({ param }: InheritedParameterRowProps) {
+  const { document } = useEditorStore();
+  const resolved = resolveComponent(document, param);
+  const schema = resolved?.schema;
+  const typeLabel = !schema
+    ? ''
+    : schema.kind === 'ref'
+      ? document.schemas.get(schema.targetId)?.name || 'Unknown'
+      : schema.schema.type;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-dashed bg-muted/50 p-2 text-muted-foreground">
+      <Layers className="h-4 w-4 shrink-0" />
+      <span className="w-28 flex-shrink-0 truncate font-mono text-sm">
+        {resolved?.name ?? 'Missing component'}
+      </span>
+      <span className="w-24 font-mono text-xs">{typeLabel}</span>
+      {resolved?.required && <span className="text-xs">req</span>}
+      <span className="flex-1 truncate text-sm">{resolved?.description}</span>
+      <Badge variant="outline" className="shrink-0 text-xs">
+        from path
+      </Badge>
+    </div>
+  );
+}
+
 interface ParameterRowProps {
   param: ParameterDef;
+  locked: boolean;
   allSchemas: SchemaNode[];
   onUpdate: (updates: Partial<ParameterDef>) => void;
   onDelete: () => void;
 }
 
-function ParameterRow({ param, allSchemas, onUpdate, onDelete }: ParameterRowProps) {
+function ParameterRow({ param, locked, allSchemas, onUpdate, onDelete }: ParameterRowProps) {
   const { document } = useEditorStore();
-  const isPath = param.in === 'path';
+  const [showExamples, setShowExamples] = useState(false);
+  const exampleCount = (param.example !== undefined ? 1 : 0) + (param.examples?.size ?? 0);
 
   const getTypeLabel = (): string => {
     if (param.schema.kind === 'ref') {
@@ -752,180 +1239,150 @@ function ParameterRow({ param, allSchemas, onUpdate, onDelete }: ParameterRowPro
   };
 
   return (
-    <div className="group flex items-center gap-2 rounded-md border bg-card p-2">
-      <Input
-        value={param.name}
-        onChange={(e) => onUpdate({ name: e.target.value })}
-        className="h-8 w-28 flex-shrink-0 font-mono text-sm"
-        disabled={isPath}
-      />
-      <Select
-        value={getTypeLabel()}
-        onValueChange={(v) => {
-          if (v === 'ref') {
-            // Handle reference selection
-          } else {
-            onUpdate({
-              schema: { kind: 'inline', schema: createSchema(v as any) },
-            });
-          }
-        }}
-      >
-        <SelectTrigger className="h-8 w-24">
-          <SelectValue />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="string">string</SelectItem>
-          <SelectItem value="integer">integer</SelectItem>
-          <SelectItem value="number">number</SelectItem>
-          <SelectItem value="boolean">boolean</SelectItem>
-        </SelectContent>
-      </Select>
-      <div className="flex items-center gap-1">
-        <Checkbox
-          id={`required-${param.id}`}
-          checked={param.required}
-          onCheckedChange={(c) => onUpdate({ required: c === true })}
-          disabled={isPath}
+    <div className="group space-y-2 rounded-md border bg-card p-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={param.name}
+          onChange={(e) => onUpdate({ name: e.target.value })}
+          className="h-8 w-28 flex-shrink-0 font-mono text-sm"
+          disabled={locked}
+        />
+        <Select
+          value={getTypeLabel()}
+          onValueChange={(v) => {
+            if (v === 'ref') {
+              // Handle reference selection
+            } else {
+              onUpdate({
+                schema: { kind: 'inline', schema: createSchema(v as any) },
+              });
+            }
+          }}
+        >
+          <SelectTrigger className="h-8 w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="string">string</SelectItem>
+            <SelectItem value="integer">integer</SelectItem>
+            <SelectItem value="number">number</SelectItem>
+            <SelectItem value="boolean">boolean</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <Checkbox
+            id={`required-${param.id}`}
+            checked={param.required}
+            onCheckedChange={(c) => onUpdate({ required: c === true })}
+            disabled={param.in === 'path'}
+          />
+          <Label htmlFor={`required-${param.id}`} className="text-xs text-muted-foreground">
+            req
+          </Label>
+        </div>
+        <Input
+          placeholder="Description"
+          value={param.description || ''}
+          onChange={(e) => onUpdate({ description: e.target.value })}
+          className="h-8 flex-1 text-sm"
         />
-        <Label htmlFor={`required-${param.id}`} className="text-xs text-muted-foreground">
-          req
-        </Label>
-      </div>
-      <Input
-        placeholder="Description"
-        value={param.description || ''}
-        onChange={(e) => onUpdate({ description: e.target.value })}
-        className="h-8 flex-1 text-sm"
-      />
-      {!isPath && (
         <Button
           variant="ghost"
-          size="icon"
-          className="h-7 w-7 opacity-0 group-hover:opacity-100"
-          onClick={onDelete}
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          onClick={() => setShowExamples(!showExamples)}
+          title="Examples"
         >
-          <Trash2 className="h-4 w-4 text-destructive" />
+          {showExamples ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          Ex{exampleCount > 0 && ` (${exampleCount})`}
         </Button>
+        {!locked && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100"
+            onClick={onDelete}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+      {showExamples && (
+        <div className="space-y-2 pl-2">
+          <ExampleValueEditor
+            value={param.example}
+            onChange={(example) => onUpdate({ example })}
+            json
+            schema={param.schema}
+          />
+          <ExamplesEditor
+            examples={param.examples}
+            json
+            schema={param.schema}
+            onChange={(examples) => onUpdate({ examples })}
+          />
+        </div>
       )}
     </div>
   );
 }
 
 interface RequestBodyEditorProps {
-  requestBody?: RequestBody;
+  requestBody?: RequestBodyOrRef;
   allSchemas: SchemaNode[];
-  onUpdate: (body: RequestBody | undefined) => void;
+  onUpdate: (body: RequestBodyOrRef | undefined) => void;
 }
 
 function RequestBodyEditor({ requestBody, allSchemas, onUpdate }: RequestBodyEditorProps) {
-  const { document } = useEditorStore();
-  const [useRef, setUseRef] = useState(false);
-  const [selectedSchemaId, setSelectedSchemaId] = useState<NodeId | null>(null);
-
-  useEffect(() => {
-    if (requestBody?.content) {
-      const jsonContent = requestBody.content.get('application/json');
-      if (jsonContent?.schema.kind === 'ref') {
-        setUseRef(true);
-        setSelectedSchemaId(jsonContent.schema.targetId);
-      }
-    }
-  }, [requestBody]);
-
   const handleToggle = (enabled: boolean) => {
     if (enabled) {
       onUpdate({
         id: generateId(),
         required: true,
-        content: new Map([
-          [
-            'application/json',
-            {
-              schema: { kind: 'inline', schema: createSchema('object') },
-            },
-          ],
-        ]),
+        content: new Map([['application/json', createMediaType('application/json')]]),
       });
     } else {
       onUpdate(undefined);
     }
   };
 
-  const handleSchemaSelect = (schemaId: NodeId) => {
-    setSelectedSchemaId(schemaId);
-    setUseRef(true);
-    onUpdate({
-      id: requestBody?.id || generateId(),
-      required: requestBody?.required ?? true,
-      content: new Map([
-        [
-          'application/json',
-          {
-            schema: { kind: 'ref', targetId: schemaId },
-          },
-        ],
-      ]),
-    });
-  };
-
   return (
     <Card>
       <CardContent className="pt-4">
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between gap-2">
           <Label>Request Body</Label>
-          <Checkbox
-            checked={!!requestBody}
-            onCheckedChange={(c) => handleToggle(c === true)}
-          />
+          <div className="flex items-center gap-2">
+            <ComponentPicker
+              kind="requestBodies"
+              onSelect={onUpdate}
+              className="w-48"
+            />
+            <Checkbox
+              checked={!!requestBody}
+              onCheckedChange={(c) => handleToggle(c === true)}
+            />
+          </div>
         </div>
 
-        {requestBody && (
-          <div className="mt-4 space-y-3">
-            <div className="grid gap-2">
-              <Label className="text-xs text-muted-foreground">Content-Type</Label>
-              <Select defaultValue="application/json">
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="application/json">application/json</SelectItem>
-                  <SelectItem value="multipart/form-data">multipart/form-data</SelectItem>
-                  <SelectItem value="application/x-www-form-urlencoded">
-                    application/x-www-form-urlencoded
-                  </SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+        {requestBody && isComponentRef(requestBody) && (
+          <div className="mt-4">
+            <ComponentRefRow
+              kind="requestBodies"
+              targetId={requestBody.targetId}
+              onDelete={() => onUpdate(undefined)}
+            />
+          </div>
+        )}
 
-            <div className="grid gap-2">
-              <Label className="text-xs text-muted-foreground">Schema</Label>
-              <SchemaCombobox
-                value={selectedSchemaId || 'inline'}
-                onValueChange={(v) => {
-                  if (v === 'inline') {
-                    setUseRef(false);
-                    setSelectedSchemaId(null);
-                    onUpdate({
-                      ...requestBody,
-                      content: new Map([
-                        [
-                          'application/json',
-                          {
-                            schema: { kind: 'inline', schema: createSchema('object') },
-                          },
-                        ],
-                      ]),
-                    });
-                  } else {
-                    handleSchemaSelect(v);
-                  }
-                }}
-                schemas={allSchemas}
-                includeInline
-                placeholder="Select schema..."
-              />
-            </div>
+        {requestBody && !isComponentRef(requestBody) && (
+          <div className="mt-4 space-y-3">
+            <MediaTypesEditor
+              content={requestBody.content}
+              allSchemas={allSchemas}
+              requireOne
+              encodings
+              onChange={(content) => content && onUpdate({ ...requestBody, content })}
+            />
 
             <div className="flex items-center gap-2">
               <Checkbox
@@ -945,23 +1402,28 @@ function RequestBodyEditor({ requestBody, allSchemas, onUpdate }: RequestBodyEdi
 }
 
 interface ResponsesEditorProps {
-  responses: Map<string, ResponseDef>;
+  routeId: NodeId;
+  responses: Map<string, ResponseOrRef>;
   allSchemas: SchemaNode[];
-  onAdd: (statusCode: string, response: ResponseDef) => void;
+  onAdd: (statusCode: string, response: ResponseOrRef) => void;
   onUpdate: (statusCode: string, updates: Partial<ResponseDef>) => void;
   onDelete: (statusCode: string) => void;
 }
 
 function ResponsesEditor({
+  routeId,
   responses,
   allSchemas,
   onAdd,
   onUpdate,
   onDelete,
 }: ResponsesEditorProps) {
+  const { document } = useEditorStore();
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [comboboxOpen, setComboboxOpen] = useState(false);
   const [newStatusCode, setNewStatusCode] = useState('200');
+  const [sharedResponseId, setSharedResponseId] = useState('inline');
+  const sharedResponses = Array.from(document.responses.values());
 
   const responseEntries = Array.from(responses.entries());
   const existingCodes = responseEntries.map(([code]) => code);
@@ -969,28 +1431,44 @@ function ResponsesEditor({
 
   const handleAddResponse = () => {
     const statusInfo = HTTP_STATUS_CODES.find((s) => s.value === newStatusCode);
-    onAdd(newStatusCode, {
-      id: generateId(),
-      description: statusInfo?.label.split(' ').slice(1).join(' ') || 'Response',
-    });
+    if (sharedResponseId !== 'inline') {
+      onAdd(newStatusCode, { kind: 'ref', component: 'responses', targetId: sharedResponseId });
+    } else {
+      onAdd(newStatusCode, {
+        id: generateId(),
+        description: statusInfo?.label.split(' ').slice(1).join(' ') || 'Response',
+      });
+    }
     setAddDialogOpen(false);
     setNewStatusCode('200');
+    setSharedResponseId('inline');
   };
 
   const selectedStatusLabel = HTTP_STATUS_CODES.find((s) => s.value === newStatusCode)?.label || newStatusCode;
 
   return (
     <div className="space-y-2">
-      {responseEntries.map(([statusCode, response]) => (
-        <ResponseRow
-          key={statusCode}
-          statusCode={statusCode}
-          response={response}
-          allSchemas={allSchemas}
-          onUpdate={(updates) => onUpdate(statusCode, updates)}
-          onDelete={() => onDelete(statusCode)}
-        />
-      ))}
+      {responseEntries.map(([statusCode, response]) =>
+        isComponentRef(response) ? (
+          <SharedResponseRow
+            key={statusCode}
+            nodeId={responseNodeId(routeId, statusCode)}
+            statusCode={statusCode}
+            targetId={response.targetId}
+            onDelete={() => onDelete(statusCode)}
+          />
+        ) : (
+          <ResponseRow
+            key={statusCode}
+            nodeId={responseNodeId(routeId, statusCode)}
+            statusCode={statusCode}
+            response={response}
+            allSchemas={allSchemas}
+            onUpdate={(updates) => onUpdate(statusCode, updates)}
+            onDelete={() => onDelete(statusCode)}
+          />
+        )
+      )}
 
       <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
         <DialogTrigger asChild>
@@ -1051,6 +1529,24 @@ function ResponsesEditor({
                 </Command>
               </PopoverContent>
             </Popover>
+            {sharedResponses.length > 0 && (
+              <div className="mt-4 grid gap-2">
+                <Label>Response</Label>
+                <Select value={sharedResponseId} onValueChange={setSharedResponseId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inline">New inline response</SelectItem>
+                    {sharedResponses.map((component) => (
+                      <SelectItem key={component.id} value={component.id}>
+                        {component.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setAddDialogOpen(false)}>
@@ -1064,7 +1560,36 @@ function ResponsesEditor({
   );
 }
 
+interface SharedResponseRowProps {
+  nodeId: string;
+  statusCode: string;
+  targetId: NodeId;
+  onDelete: () => void;
+}
+
+function SharedResponseRow({ nodeId, statusCode, targetId, onDelete }: SharedResponseRowProps) {
+  const { ref, focused, onFocusCapture } = useFocusedNode<HTMLDivElement>(nodeId);
+
+  return (
+    <Card ref={ref} onFocusCapture={onFocusCapture} className={cn(focused && 'border-accent')}>
+      <CardContent className="p-3">
+        <ComponentRefRow
+          kind="responses"
+          targetId={targetId}
+          label={
+            <Badge className={cn('text-white', getStatusCodeColor(statusCode))}>
+              {statusCode}
+            </Badge>
+          }
+          onDelete={onDelete}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
 interface ResponseRowProps {
+  nodeId: string;
   statusCode: string;
   response: ResponseDef;
   allSchemas: SchemaNode[];
@@ -1073,42 +1598,20 @@ interface ResponseRowProps {
 }
 
 function ResponseRow({
+  nodeId,
   statusCode,
   response,
   allSchemas,
   onUpdate,
   onDelete,
 }: ResponseRowProps) {
-  const { document } = useEditorStore();
   const [expanded, setExpanded] = useState(false);
-
-  const getCurrentSchema = (): NodeId | null => {
-    const jsonContent = response.content?.get('application/json');
-    if (jsonContent?.schema.kind === 'ref') {
-      return jsonContent.schema.targetId;
-    }
-    return null;
-  };
-
-  const handleSchemaChange = (schemaId: string) => {
-    if (schemaId === 'none') {
-      onUpdate({ content: undefined });
-    } else {
-      onUpdate({
-        content: new Map([
-          [
-            'application/json',
-            {
-              schema: { kind: 'ref', targetId: schemaId },
-            },
-          ],
-        ]),
-      });
-    }
-  };
+  const { ref, focused, onFocusCapture } = useFocusedNode<HTMLDivElement>(nodeId);
+  const contentTypes = response.content ? Array.from(response.content.keys()) : [];
+  const headerCount = response.headers?.size ?? 0;
 
   return (
-    <Card>
+    <Card ref={ref} onFocusCapture={onFocusCapture} className={cn(focused && 'border-accent')}>
       <CardContent className="p-3">
         <div className="flex items-center gap-3">
           <Badge className={cn('text-white', getStatusCodeColor(statusCode))}>
@@ -1120,18 +1623,46 @@ function ResponseRow({
             placeholder="Description"
             className="h-8 flex-1"
           />
-          <SchemaCombobox
-            value={getCurrentSchema() || 'none'}
-            onValueChange={handleSchemaChange}
-            schemas={allSchemas}
-            includeNone
-            noneLabel="No body"
-            triggerClassName="h-8 w-40"
-          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-52 justify-between bg-transparent font-mono text-xs"
+            onClick={() => setExpanded(!expanded)}
+          >
+            <span className="truncate">
+              {contentTypes.length === 0
+                ? 'No body'
+                : contentTypes.length === 1
+                  ? contentTypes[0]
+                  : `${contentTypes.length} media types`}
+              {headerCount > 0 && ` · ${headerCount} ${headerCount === 1 ? 'header' : 'headers'}`}
+            </span>
+            {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+          </Button>
           <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete}>
             <Trash2 className="h-4 w-4 text-destructive" />
           </Button>
         </div>
+        {expanded && (
+          <div className="mt-3 space-y-3">
+            <div className="grid gap-2">
+              <Label className="text-xs text-muted-foreground">Content</Label>
+              <MediaTypesEditor
+                content={response.content}
+                allSchemas={allSchemas}
+                onChange={(content) => onUpdate({ content })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label className="text-xs text-muted-foreground">Headers</Label>
+              <HeadersEditor
+                headers={response.headers}
+                allSchemas={allSchemas}
+                onChange={(headers) => onUpdate({ headers })}
+              />
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
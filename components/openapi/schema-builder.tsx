@@ -10,6 +10,7 @@ import {
   Link2,
   GripVertical,
   AlertCircle,
+  Wand2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -52,7 +53,12 @@ import {
   createSchema,
   generateId,
 } from '@/lib/openapi/types';
+import { fieldNodeId } from '@/lib/openapi/source-map';
+import { generateExample } from '@/lib/openapi/example-generator';
+import { useFocusedNode } from '@/hooks/use-focused-node';
 import { cn } from '@/lib/utils';
+import { ExtensionsEditor } from './extensions-editor';
+import { ExampleValueEditor } from './examples-editor';
 
 const SCHEMA_TYPES: { value: SchemaType; label: string }[] = [
   { value: 'object', label: 'Object' },
@@ -298,6 +304,13 @@ export function SchemaEditor({ schemaId }: SchemaEditorProps) {
     }
   };
 
+  // The schema's own example is left out so a new one is generated from its fields
+  const handleGenerateExample = () => {
+    updateSchema(schemaId, {
+      example: generateExample({ kind: 'inline', schema: { ...schema, example: undefined } }, document),
+    });
+  };
+
   return (
     <div className="flex h-full flex-col">
       <div className="border-b-4 border-foreground p-6">
@@ -311,6 +324,10 @@ export function SchemaEditor({ schemaId }: SchemaEditorProps) {
             placeholder="Schema name"
             className="border-2 border-foreground bg-background text-xl font-bold uppercase tracking-tight focus-visible:ring-0 focus-visible:ring-offset-0 focus-visible:border-accent"
           />
+          <Button onClick={handleGenerateExample} className="neo-btn-secondary shrink-0">
+            <Wand2 className="mr-1 h-4 w-4" />
+            Generate example
+          </Button>
         </div>
         <div className="mt-4">
           <Textarea
@@ -365,6 +382,24 @@ export function SchemaEditor({ schemaId }: SchemaEditorProps) {
             onUpdate={(updates) => updateSchema(schemaId, updates)}
           />
         )}
+
+        {!PRIMITIVE_TYPES.includes(schema.type) && (
+          <ExampleValueEditor
+            value={schema.example}
+            onChange={(example) => updateSchema(schemaId, { example })}
+            json
+            schema={{ kind: 'ref', targetId: schemaId }}
+            className="mt-6"
+          />
+        )}
+
+        <div className="mt-6 space-y-2">
+          <Label className="font-bold uppercase">Extensions</Label>
+          <ExtensionsEditor
+            extensions={schema.extensions}
+            onChange={(extensions) => updateSchema(schemaId, { extensions })}
+          />
+        </div>
       </ScrollArea>
 
       {/* Add Field Dialog */}
@@ -492,6 +527,7 @@ function ObjectSchemaEditor({
           {properties.map(([name, field]) => (
             <FieldRow
               key={name}
+              nodeId={fieldNodeId(schema.id, name)}
               field={field}
               allSchemas={allSchemas}
               onUpdate={(updates) => onUpdateField(name, updates)}
@@ -505,14 +541,16 @@ function ObjectSchemaEditor({
 }
 
 interface FieldRowProps {
+  nodeId: string;
   field: PropertyDef;
   allSchemas: SchemaNode[];
   onUpdate: (updates: Partial<PropertyDef>) => void;
   onDelete: () => void;
 }
 
-function FieldRow({ field, allSchemas, onUpdate, onDelete }: FieldRowProps) {
+function FieldRow({ nodeId, field, allSchemas, onUpdate, onDelete }: FieldRowProps) {
   const { document } = useEditorStore();
+  const { ref, focused, onFocusCapture } = useFocusedNode<HTMLDivElement>(nodeId);
 
   const getTypeLabel = (schemaOrRef: SchemaOrRef): string => {
     if (schemaOrRef.kind === 'ref') {
@@ -525,7 +563,14 @@ function FieldRow({ field, allSchemas, onUpdate, onDelete }: FieldRowProps) {
   const isRef = field.schema.kind === 'ref';
 
   return (
-    <div className="group flex items-center gap-3 border-2 border-foreground bg-card p-3 neo-shadow-sm">
+    <div
+      ref={ref}
+      onFocusCapture={onFocusCapture}
+      className={cn(
+        'group flex items-center gap-3 border-2 bg-card p-3 neo-shadow-sm',
+        focused ? 'border-accent' : 'border-foreground'
+      )}
+    >
       <GripVertical className="h-4 w-4 cursor-move text-muted-foreground" />
       <Input
         value={field.name}
@@ -745,7 +790,7 @@ function CompositionSchemaEditor({
             onChange={(e) =>
               onUpdate({
                 discriminator: e.target.value
-                  ? { propertyName: e.target.value }
+                  ? { ...schema.discriminator, propertyName: e.target.value }
                   : undefined,
               })
             }
@@ -824,6 +869,19 @@ interface PrimitiveSchemaEditorProps {
   onUpdate: (updates: Partial<SchemaNode>) => void;
 }
 
+// Typed text becomes a number or boolean once editing ends, so the value is
+// serialized with the schema's type instead of as a string
+function coercePrimitive(value: unknown, type: SchemaType): unknown {
+  if (typeof value !== 'string') return value;
+  if ((type === 'number' || type === 'integer') && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
 function PrimitiveSchemaEditor({ schema, onUpdate }: PrimitiveSchemaEditorProps) {
   return (
     <div className="space-y-4">
@@ -920,14 +978,27 @@ function PrimitiveSchemaEditor({ schema, onUpdate }: PrimitiveSchemaEditorProps)
             </div>
           )}
 
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`nullable-${schema.id}`}
+              checked={schema.nullable || false}
+              onCheckedChange={(c) => onUpdate({ nullable: c === true || undefined })}
+            />
+            <Label htmlFor={`nullable-${schema.id}`}>Nullable</Label>
+          </div>
+
           <div className="grid gap-2">
             <Label>Example</Label>
             <Input
               placeholder="Example value"
-              value={schema.example as string ?? ''}
+              value={schema.example === undefined ? '' : String(schema.example)}
               onChange={(e) =>
                 onUpdate({ example: e.target.value || undefined })
               }
+              onBlur={() => {
+                const coerced = coercePrimitive(schema.example, schema.type);
+                if (coerced !== schema.example) onUpdate({ example: coerced });
+              }}
             />
           </div>
 
@@ -935,10 +1006,14 @@ function PrimitiveSchemaEditor({ schema, onUpdate }: PrimitiveSchemaEditorProps)
             <Label>Default</Label>
             <Input
               placeholder="Default value"
-              value={schema.default as string ?? ''}
+              value={schema.default === undefined ? '' : String(schema.default)}
               onChange={(e) =>
                 onUpdate({ default: e.target.value || undefined })
               }
+              onBlur={() => {
+                const coerced = coercePrimitive(schema.default, schema.type);
+                if (coerced !== schema.default) onUpdate({ default: coerced });
+              }}
             />
           </div>
         </CardContent>
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useEditorStore } from '@/lib/openapi/store';
+import {
+  SecurityAlternative,
+  SecurityRequirement,
+  SecurityScheme,
+  getSchemeScopes,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+interface SecurityRequirementsEditorProps {
+  value: SecurityAlternative[];
+  onChange: (value: SecurityAlternative[]) => void;
+}
+
+/**
+ * Edits a `security` array: each card is an alternative, and every scheme
+ * inside a card must be satisfied together.
+ */
+export function SecurityRequirementsEditor({ value, onChange }: SecurityRequirementsEditorProps) {
+  const { document } = useEditorStore();
+  const schemes = Array.from(document.securitySchemes.values());
+
+  const updateAlternative = (index: number, alternative: SecurityAlternative) => {
+    onChange(value.map((a, i) => (i === index ? alternative : a)));
+  };
+
+  const handleAddAlternative = () => {
+    onChange([...value, schemes.length > 0 ? [{ schemeId: schemes[0].id, scopes: [] }] : []]);
+  };
+
+  if (schemes.length === 0 && value.length === 0) {
+    return (
+      <div className="border-2 border-dashed border-muted-foreground/50 p-4 text-center">
+        <p className="font-mono text-sm text-muted-foreground">
+          No security schemes defined. Add one in the Settings tab.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((alternative, index) => (
+        <div key={index} className="space-y-2">
+          {index > 0 && (
+            <div className="text-center text-xs font-bold uppercase text-muted-foreground">or</div>
+          )}
+          <AlternativeCard
+            alternative={alternative}
+            schemes={schemes}
+            onChange={(next) => updateAlternative(index, next)}
+            onDelete={() => onChange(value.filter((_, i) => i !== index))}
+          />
+        </div>
+      ))}
+      <Button variant="outline" size="sm" className="w-full bg-transparent" onClick={handleAddAlternative}>
+        <Plus className="mr-1 h-4 w-4" />
+        {value.length === 0 ? 'Add Requirement' : 'Add Alternative'}
+      </Button>
+    </div>
+  );
+}
+
+interface AlternativeCardProps {
+  alternative: SecurityAlternative;
+  schemes: SecurityScheme[];
+  onChange: (alternative: SecurityAlternative) => void;
+  onDelete: () => void;
+}
+
+function AlternativeCard({ alternative, schemes, onChange, onDelete }: AlternativeCardProps) {
+  const unusedSchemes = schemes.filter((s) => !alternative.some((r) => r.schemeId === s.id));
+
+  const updateRequirement = (index: number, updates: Partial<SecurityRequirement>) => {
+    onChange(alternative.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-2 p-3">
+        {alternative.length === 0 && (
+          <p className="text-sm text-muted-foreground">Anonymous access allowed</p>
+        )}
+        {alternative.map((requirement, index) => {
+          const scheme = schemes.find((s) => s.id === requirement.schemeId);
+          return (
+            <div key={requirement.schemeId} className="flex items-center gap-2">
+              <Select
+                value={scheme ? requirement.schemeId : ''}
+                onValueChange={(schemeId) => updateRequirement(index, { schemeId, scopes: [] })}
+              >
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue placeholder="Missing scheme" />
+                </SelectTrigger>
+                <SelectContent>
+                  {schemes
+                    .filter((s) => s.id === requirement.schemeId || unusedSchemes.includes(s))
+                    .map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <div className="min-w-0 flex-1">
+                {scheme && (
+                  <ScopeEditor
+                    scheme={scheme}
+                    scopes={requirement.scopes}
+                    onChange={(scopes) => updateRequirement(index, { scopes })}
+                  />
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onChange(alternative.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-2">
+          {unusedSchemes.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(schemeId) => onChange([...alternative, { schemeId, scopes: [] }])}
+            >
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue placeholder={alternative.length === 0 ? 'Require scheme...' : 'And also require...'} />
+              </SelectTrigger>
+              <SelectContent>
+                {unusedSchemes.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="ghost" size="sm" className="ml-auto h-8 text-destructive" onClick={onDelete}>
+            Remove
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ScopeEditorProps {
+  scheme: SecurityScheme;
+  scopes: string[];
+  onChange: (scopes: string[]) => void;
+}
+
+function ScopeEditor({ scheme, scopes, onChange }: ScopeEditorProps) {
+  // OpenID Connect scopes come from the discovery document, so they are typed freely
+  if (scheme.type === 'openIdConnect') {
+    return <FreeScopeInput scopes={scopes} onChange={onChange} />;
+  }
+
+  if (scheme.type !== 'oauth2') {
+    return null;
+  }
+
+  const available = getSchemeScopes(scheme);
+  const toggle = (scope: string) => {
+    onChange(scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          className="h-8 w-full justify-between bg-transparent font-normal"
+        >
+          <span className="truncate font-mono text-sm">
+            {scopes.length > 0 ? scopes.join(' ') : 'No scopes'}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search scopes..." />
+          <CommandList>
+            <CommandEmpty>No scopes declared by this scheme.</CommandEmpty>
+            <CommandGroup>
+              {available.map((scope) => (
+                <CommandItem key={scope} value={scope} onSelect={() => toggle(scope)}>
+                  <Check
+                    className={cn('mr-2 h-4 w-4', scopes.includes(scope) ? 'opacity-100' : 'opacity-0')}
+                  />
+                  <span className="font-mono">{scope}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function FreeScopeInput({ scopes, onChange }: Omit<ScopeEditorProps, 'scheme'>) {
+  const [draft, setDraft] = useState(scopes.join(', '));
+
+  useEffect(() => {
+    setDraft(scopes.join(', '));
+  }, [scopes]);
+
+  // Committed on blur so commas can be typed without the list collapsing
+  return (
+    <Input
+      placeholder="Scopes (comma separated)"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onChange(draft.split(',').map((s) => s.trim()).filter(Boolean))}
+      className="h-8 font-mono text-sm"
+    />
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Server,
+  ServerVariable,
+  getServerUrlVariables,
+  resolveServerUrl,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+interface ServerVariablesEditorProps {
+  server: Server;
+  isMobile?: boolean;
+  onChange: (server: Server) => void;
+}
+
+/**
+ * Edits the `{name}` variables of a server URL template and previews the URL
+ * with every default substituted.
+ */
+export function ServerVariablesEditor({ server, isMobile, onChange }: ServerVariablesEditorProps) {
+  const variables = server.variables ?? {};
+  const used = getServerUrlVariables(server.url);
+  const missing = used.filter((name) => !variables[name]);
+  const names = Object.keys(variables);
+
+  if (used.length === 0 && names.length === 0) {
+    return null;
+  }
+
+  const setVariables = (next: Record<string, ServerVariable>) => {
+    onChange({ ...server, variables: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  const updateVariable = (name: string, updates: Partial<ServerVariable>) => {
+    setVariables({ ...variables, [name]: { ...variables[name], ...updates } });
+  };
+
+  const deleteVariable = (name: string) => {
+    const next = { ...variables };
+    delete next[name];
+    setVariables(next);
+  };
+
+  return (
+    <div className="space-y-2 border-l-2 border-foreground pl-3">
+      <div className={cn('break-all font-mono text-muted-foreground', isMobile ? 'text-sm' : 'text-xs')}>
+        <span className="font-bold uppercase">Resolves to </span>
+        {resolveServerUrl(server)}
+      </div>
+
+      {missing.map((name) => (
+        <div key={name} className="flex items-center gap-2 text-sm">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+          <span className="flex-1">
+            <code className="font-mono">{`{${name}}`}</code> has no definition
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => updateVariable(name, { default: '' })}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Define
+          </Button>
+        </div>
+      ))}
+
+      {names.map((name) => (
+        <VariableRow
+          key={name}
+          name={name}
+          variable={variables[name]}
+          unused={!used.includes(name)}
+          isMobile={isMobile}
+          onChange={(updates) => updateVariable(name, updates)}
+          onDelete={() => deleteVariable(name)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface VariableRowProps {
+  name: string;
+  variable: ServerVariable;
+  unused: boolean;
+  isMobile?: boolean;
+  onChange: (updates: Partial<ServerVariable>) => void;
+  onDelete: () => void;
+}
+
+function VariableRow({ name, variable, unused, isMobile, onChange, onDelete }: VariableRowProps) {
+  const fieldClass = isMobile ? 'h-12 text-base' : 'h-8 text-sm';
+  const [enumDraft, setEnumDraft] = useState((variable.enum ?? []).join(', '));
+
+  useEffect(() => {
+    setEnumDraft((variable.enum ?? []).join(', '));
+  }, [variable.enum]);
+
+  // Committed on blur so commas can be typed without the list collapsing
+  const commitEnum = () => {
+    const values = enumDraft.split(',').map((v) => v.trim()).filter(Boolean);
+    if (values.length === 0) {
+      onChange({ enum: undefined });
+      return;
+    }
+    onChange({
+      enum: values,
+      default: values.includes(variable.default) ? variable.default : values[0],
+    });
+  };
+
+  return (
+    <div className="space-y-2 border-2 border-foreground p-2">
+      <div className="flex items-center gap-2">
+        <code className="font-mono text-sm font-bold">{name}</code>
+        {unused && <Badge variant="outline">unused</Badge>}
+        <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+      <div className={cn('gap-2', isMobile ? 'space-y-2' : 'grid grid-cols-2')}>
+        {variable.enum && variable.enum.length > 0 ? (
+          <Select value={variable.default} onValueChange={(value) => onChange({ default: value })}>
+            <SelectTrigger className={fieldClass}>
+              <SelectValue placeholder="Default" />
+            </SelectTrigger>
+            <SelectContent>
+              {variable.enum.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            placeholder="Default value"
+            value={variable.default}
+            onChange={(e) => onChange({ default: e.target.value })}
+            className={cn('font-mono', fieldClass)}
+          />
+        )}
+        <Input
+          placeholder="Allowed values (comma separated)"
+          value={enumDraft}
+          onChange={(e) => setEnumDraft(e.target.value)}
+          onBlur={commitEnum}
+          className={cn('font-mono', fieldClass)}
+        />
+      </div>
+      <Input
+        placeholder="Description"
+        value={variable.description || ''}
+        onChange={(e) => onChange({ description: e.target.value || undefined })}
+        className={fieldClass}
+      />
+    </div>
+  );
+}
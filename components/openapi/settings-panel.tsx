@@ -32,9 +32,12 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { useEditorStore } from '@/lib/openapi/store';
-import { generateId } from '@/lib/openapi/types';
+import { generateId, type OpenApiVersion } from '@/lib/openapi/types';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useContainerWidth } from '@/hooks/use-container-width';
+import { SecurityRequirementsEditor } from './security-requirements-editor';
+import { OAuthFlowsEditor } from './oauth-flows-editor';
+import { ServerVariablesEditor } from './server-variables-editor';
 
 export function SettingsPanel() {
   const isMobileScreen = useIsMobile();
@@ -46,12 +49,14 @@ export function SettingsPanel() {
   const {
     document,
     updateInfo,
+    setOpenApiVersion,
     addServer,
     updateServer,
     deleteServer,
     addSecurityScheme,
     updateSecurityScheme,
     deleteSecurityScheme,
+    setSecurity,
     addTag,
     deleteTag,
   } = useEditorStore();
@@ -138,6 +143,21 @@ export function SettingsPanel() {
                     onChange={(e) => updateInfo({ version: e.target.value })}
                   />
                 </div>
+                <div className="grid gap-2">
+                  <Label>OpenAPI Version</Label>
+                  <Select
+                    value={document.openapiVersion}
+                    onValueChange={(v) => setOpenApiVersion(v as OpenApiVersion)}
+                  >
+                    <SelectTrigger className={isMobile ? 'h-12 text-base' : ''}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="3.0.3" className={isMobile ? 'text-base py-3' : ''}>3.0.3</SelectItem>
+                      <SelectItem value="3.1.0" className={isMobile ? 'text-base py-3' : ''}>3.1.0</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="grid gap-2">
                   <Label htmlFor="apiDescription">Description</Label>
                   <Textarea
@@ -263,6 +283,11 @@ export function SettingsPanel() {
                             }
                             className={isMobile ? 'text-base h-12' : 'text-sm'}
                           />
+                          <ServerVariablesEditor
+                            server={server}
+                            isMobile={isMobile}
+                            onChange={(updated) => updateServer(index, updated)}
+                          />
                         </div>
                         <Button
                           variant="destructive"
@@ -402,6 +427,13 @@ export function SettingsPanel() {
                               />
                             </div>
                           )}
+                          {scheme.type === 'oauth2' && (
+                            <OAuthFlowsEditor
+                              flows={scheme.flows}
+                              isMobile={isMobile}
+                              onChange={(flows) => updateSecurityScheme(scheme.id, { flows })}
+                            />
+                          )}
                         </div>
                         <Button
                           variant="destructive"
@@ -465,6 +497,18 @@ export function SettingsPanel() {
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
+
+                {/* Document-wide default, overridable per operation */}
+                <div className="space-y-2 border-t-2 border-foreground pt-4">
+                  <Label className={`font-bold uppercase ${isMobile ? 'text-base' : ''}`}>Default Security</Label>
+                  <p className={`text-muted-foreground ${isMobile ? 'text-sm' : 'text-xs'}`}>
+                    Applies to every operation that does not override it.
+                  </p>
+                  <SecurityRequirementsEditor
+                    value={document.security ?? []}
+                    onChange={(security) => setSecurity(security.length > 0 ? security : undefined)}
+                  />
+                </div>
               </div>
             </AccordionContent>
           </AccordionItem>
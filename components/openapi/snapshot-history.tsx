@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Bookmark, Camera, Clock, GitBranch, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useEditorStore } from '@/lib/openapi/store';
+import { generateId } from '@/lib/openapi/types';
+import { getRepository, type SnapshotMetadata } from '@/lib/storage';
+import { cn } from '@/lib/utils';
+import type { ProjectWorkspace } from './project-switcher';
+
+interface SnapshotHistoryProps extends ProjectWorkspace {
+  trigger: React.ReactNode;
+}
+
+/**
+ * Timeline of a project's named snapshots and automatic checkpoints.
+ * Restoring replaces the document as one undoable step; branching opens
+ * the snapshot as a new project.
+ */
+export function SnapshotHistory({ trigger, activeProject, onSave, onOpen }: SnapshotHistoryProps) {
+  const { document, setDocument } = useEditorStore();
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotMetadata[]>([]);
+  const [name, setName] = useState('');
+  const [showAuto, setShowAuto] = useState(true);
+  const [restoreTarget, setRestoreTarget] = useState<SnapshotMetadata | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectId = activeProject?.id;
+
+  const refresh = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      setSnapshots(await getRepository().listSnapshots(projectId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list snapshots');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // Run a repository operation, then reload the timeline and surface any failure
+  const run = async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    }
+  };
+
+  const takeSnapshot = (snapshotName: string, kind: SnapshotMetadata['kind']) =>
+    getRepository().saveSnapshot({
+      metadata: {
+        id: generateId(),
+        projectId: projectId!,
+        name: snapshotName,
+        kind,
+        createdAt: Date.now(),
+      },
+      document,
+    });
+
+  const handleCreate = () =>
+    run(async () => {
+      const trimmed = name.trim();
+      if (!trimmed || !projectId) return;
+      await takeSnapshot(trimmed, 'manual');
+      setName('');
+    });
+
+  const handleRestore = (snapshot: SnapshotMetadata) =>
+    run(async () => {
+      const stored = await getRepository().getSnapshot(snapshot.id);
+      if (!stored) throw new Error('Snapshot no longer exists');
+      // Keep the current state reachable once it falls out of the bounded undo history
+      await takeSnapshot(`Before restoring "${snapshot.name}"`, 'auto');
+      setDocument(stored.document);
+      setRestoreTarget(null);
+      setOpen(false);
+    });
+
+  const handleBranch = (snapshot: SnapshotMetadata) =>
+    run(async () => {
+      const repository = getRepository();
+      const stored = await repository.getSnapshot(snapshot.id);
+      if (!stored) throw new Error('Snapshot no longer exists');
+      await onSave();
+      const now = Date.now();
+      const project = {
+        metadata: {
+          id: generateId(),
+          name: `${activeProject?.name ?? 'Untitled API'} (${snapshot.name})`,
+          createdAt: now,
+          updatedAt: now,
+        },
+        document: stored.document,
+      };
+      await repository.saveProject(project);
+      await onOpen(project);
+      setOpen(false);
+    });
+
+  const handleDelete = (id: string) => run(() => getRepository().deleteSnapshot(id));
+
+  const visible = showAuto ? snapshots : snapshots.filter((s) => s.kind === 'manual');
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>{trigger}</DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>History</DialogTitle>
+            <DialogDescription>
+              {activeProject
+                ? `Snapshots of "${activeProject.name}"`
+                : 'Snapshots become available once the project has been saved.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder='Snapshot name, e.g. "v1.2 released"'
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              disabled={!projectId}
+            />
+            <Button onClick={handleCreate} disabled={!projectId || !name.trim()}>
+              <Camera className="mr-2 h-4 w-4" />
+              Snapshot
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="show-auto-checkpoints"
+              checked={showAuto}
+              onCheckedChange={(c) => setShowAuto(c === true)}
+            />
+            <Label htmlFor="show-auto-checkpoints" className="text-sm text-muted-foreground">
+              Show automatic checkpoints
+            </Label>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <ScrollArea className="max-h-96">
+            <div className="space-y-2 pr-2">
+              {visible.length === 0 && (
+                <div className="border-2 border-dashed border-muted-foreground/50 p-6 text-center">
+                  <p className="font-mono text-sm text-muted-foreground">No snapshots yet</p>
+                </div>
+              )}
+              {visible.map((snapshot) => {
+                const isManual = snapshot.kind === 'manual';
+                return (
+                  <div
+                    key={snapshot.id}
+                    className={cn(
+                      'flex items-center gap-2 border-2 p-2',
+                      isManual ? 'border-foreground' : 'border-dashed border-muted-foreground/50'
+                    )}
+                  >
+                    {isManual ? (
+                      <Bookmark className="h-4 w-4 shrink-0" />
+                    ) : (
+                      <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className={cn('truncate', isManual && 'font-bold')}>{snapshot.name}</span>
+                        {!isManual && <Badge variant="outline">auto</Badge>}
+                      </div>
+                      <div
+                        className="text-xs text-muted-foreground"
+                        title={format(snapshot.createdAt, 'PPpp')}
+                      >
+                        {formatDistanceToNow(snapshot.createdAt, { addSuffix: true })}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Restore"
+                      onClick={() => setRestoreTarget(snapshot)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Branch into a new project"
+                      onClick={() => handleBranch(snapshot)}
+                    >
+                      <GitBranch className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Delete"
+                      onClick={() => handleDelete(snapshot.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={() => setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Snapshot?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The document will be replaced by
+              {restoreTarget ? ` "${restoreTarget.name}"` : ' this snapshot'}. The current state is
+              kept as an automatic checkpoint and the restore can be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => restoreTarget && handleRestore(restoreTarget)}>
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import {
   FileJson,
   Route as RouteIcon,
   Box,
+  Layers,
   Settings,
   Code,
   Undo2,
@@ -17,6 +18,12 @@ import {
   Loader2,
   Plus,
   Trash2,
+  AlertTriangle,
+  FolderOpen,
+  History,
+  ListRestart,
+  GitCompare,
+  Search,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -47,9 +54,17 @@ import {
 import { useEditorStore, type TabType } from '@/lib/openapi/store';
 import { RouteEditor } from './route-editor';
 import { SchemaEditor } from './schema-builder';
+import { ComponentList, ComponentEditor } from './component-editor';
 import { SettingsPanel } from './settings-panel';
 import { YamlPreview } from './yaml-preview';
 import { ImportDialog } from './import-dialog';
+import { ProjectSwitcher, type ProjectWorkspace } from './project-switcher';
+import { SnapshotHistory } from './snapshot-history';
+import { CommandPalette } from './command-palette';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { HistoryPanel } from './history-panel';
+import { DiffDialog } from './diff-view';
+import { ValidationPanel, useDocumentValidation } from './validation-panel';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { serializeToYaml } from '@/lib/openapi/serializer';
 
@@ -67,12 +82,15 @@ interface TabletEditorProps {
   isSaving: boolean;
   lastSaved: number | null;
   saveError: Error | null;
+  workspace: ProjectWorkspace;
 }
 
-export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorProps) {
+export function TabletEditor({ isSaving, lastSaved, saveError, workspace }: TabletEditorProps) {
   const [leftSheetOpen, setLeftSheetOpen] = useState(false);
   const [yamlSheetOpen, setYamlSheetOpen] = useState(false);
+  const [problemsSheetOpen, setProblemsSheetOpen] = useState(false);
   const [importOpen, setImportOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
   const [deleteRouteId, setDeleteRouteId] = useState<string | null>(null);
   const [deleteSchemaId, setDeleteSchemaId] = useState<string | null>(null);
 
@@ -82,6 +100,7 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
     setActiveTab,
     selectedSchemaId,
     selectedRouteId,
+    selectedComponentId,
     selectRoute,
     selectSchema,
     undo,
@@ -95,6 +114,8 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
     getSchemaUsageCount,
   } = useEditorStore();
 
+  const problems = useDocumentValidation();
+
   const routes = Array.from(document.routes.values());
   const schemas = Array.from(document.schemas.values());
 
@@ -143,6 +164,18 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
     setDeleteSchemaId(null);
   };
 
+  const actions = {
+    undo,
+    redo,
+    save: () => void workspace.onSave(),
+    newRoute: handleAddRoute,
+    toggleYaml: () => setYamlSheetOpen((open) => !open),
+    export: handleExport,
+    validate: () => setProblemsSheetOpen(true),
+  };
+
+  useShortcuts({ ...actions, commandPalette: () => setPaletteOpen(true) });
+
   return (
     <TooltipProvider>
       <div className="flex h-screen flex-col bg-background">
@@ -158,6 +191,39 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
             >
               <PanelLeftOpen className="h-4 w-4" />
             </Button>
+            <ProjectSwitcher
+              {...workspace}
+              trigger={
+                <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                  <FolderOpen className="h-4 w-4" />
+                </Button>
+              }
+            />
+            <SnapshotHistory
+              {...workspace}
+              trigger={
+                <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                  <History className="h-4 w-4" />
+                </Button>
+              }
+            />
+            <DiffDialog
+              activeProject={workspace.activeProject}
+              trigger={
+                <Button variant="ghost" size="sm" className="neo-btn h-8 px-2">
+                  <GitCompare className="h-4 w-4" />
+                </Button>
+              }
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Command palette"
+              onClick={() => setPaletteOpen(true)}
+              className="neo-btn h-8 px-2"
+            >
+              <Search className="h-4 w-4" />
+            </Button>
             <FileJson className="h-6 w-6" />
             <span className="font-bold text-lg">{document.info.title}</span>
             <Badge variant="outline">v{document.info.version}</Badge>
@@ -211,6 +277,13 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
               </TooltipTrigger>
               <TooltipContent>Redo</TooltipContent>
             </Tooltip>
+            <HistoryPanel
+              trigger={
+                <Button variant="ghost" size="sm" title="Edit history" className="neo-btn h-8 w-8 p-0">
+                  <ListRestart className="h-4 w-4" />
+                </Button>
+              }
+            />
             <div className="h-6 w-0.5 bg-foreground" />
             <Button
               variant="ghost"
@@ -239,6 +312,17 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
               <Code className="mr-1 h-4 w-4" />
               YAML
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setProblemsSheetOpen(true)}
+              className="neo-btn h-8 px-3"
+            >
+              <AlertTriangle
+                className={`mr-1 h-4 w-4 ${problems.error.length > 0 ? 'text-destructive' : ''}`}
+              />
+              {problems.error.length + problems.warning.length}
+            </Button>
             <ThemeToggle />
           </div>
         </header>
@@ -251,15 +335,21 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
           {activeTab === 'schemas' && selectedSchemaId && (
             <SchemaEditor schemaId={selectedSchemaId} />
           )}
+          {activeTab === 'components' && selectedComponentId && (
+            <ComponentEditor componentId={selectedComponentId} />
+          )}
           {activeTab === 'settings' && <SettingsPanel />}
           {((activeTab === 'routes' && !selectedRouteId) ||
-            (activeTab === 'schemas' && !selectedSchemaId)) && (
+            (activeTab === 'schemas' && !selectedSchemaId) ||
+            (activeTab === 'components' && !selectedComponentId)) && (
             <div className="flex h-full items-center justify-center">
               <div className="text-center">
                 <p className="text-muted-foreground mb-4">
                   {activeTab === 'routes' 
                     ? 'Select a route from the sidebar or create a new one' 
-                    : 'Select a schema from the sidebar or create a new one'}
+                    : activeTab === 'schemas'
+                      ? 'Select a schema from the sidebar or create a new one'
+                      : 'Select a component from the sidebar or create a new one'}
                 </p>
                 <Button onClick={() => setLeftSheetOpen(true)} className="neo-btn">
                   <PanelLeftOpen className="mr-2 h-4 w-4" />
@@ -280,7 +370,7 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
               {/* Tabs */}
               <div className="border-b-2 border-foreground p-2">
                 <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as TabType)}>
-                  <TabsList className="grid w-full grid-cols-3 rounded-none border-2 border-foreground">
+                  <TabsList className="grid w-full grid-cols-4 rounded-none border-2 border-foreground">
                     <TabsTrigger value="routes" className="rounded-none data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
                       <RouteIcon className="mr-1 h-4 w-4" />
                       Routes
@@ -289,6 +379,10 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
                       <Box className="mr-1 h-4 w-4" />
                       Schemas
                     </TabsTrigger>
+                    <TabsTrigger value="components" className="rounded-none data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                      <Layers className="mr-1 h-4 w-4" />
+                      Shared
+                    </TabsTrigger>
                     <TabsTrigger value="settings" className="rounded-none data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
                       <Settings className="mr-1 h-4 w-4" />
                       Settings
@@ -390,6 +484,10 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
                   </div>
                 )}
 
+                {activeTab === 'components' && (
+                  <ComponentList onSelect={() => setLeftSheetOpen(false)} />
+                )}
+
                 {activeTab === 'settings' && (
                   <div className="p-2 text-sm text-muted-foreground">
                     Settings panel is shown in main view
@@ -412,9 +510,23 @@ export function TabletEditor({ isSaving, lastSaved, saveError }: TabletEditorPro
           </SheetContent>
         </Sheet>
 
+        {/* Problems Sheet */}
+        <Sheet open={problemsSheetOpen} onOpenChange={setProblemsSheetOpen}>
+          <SheetContent side="right" className="w-[400px] p-0">
+            <SheetHeader className="border-b-2 border-foreground p-4">
+              <SheetTitle>Problems</SheetTitle>
+            </SheetHeader>
+            <div className="h-[calc(100vh-65px)]">
+              <ValidationPanel onNavigate={() => setProblemsSheetOpen(false)} />
+            </div>
+          </SheetContent>
+        </Sheet>
+
         {/* Import Dialog */}
         <ImportDialog open={importOpen} onOpenChange={setImportOpen} />
 
+        <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} actions={actions} />
+
         {/* Delete Route Confirmation */}
         <AlertDialog open={!!deleteRouteId} onOpenChange={() => setDeleteRouteId(null)}>
           <AlertDialogContent>
@@ -0,0 +1,462 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEditorStore } from '@/lib/openapi/store';
+import {
+  ApiDocument,
+  MediaType,
+  Route,
+  SecurityScheme,
+  isJsonMediaType,
+  resolveComponent,
+  resolveServerUrl,
+} from '@/lib/openapi/types';
+import { generateExample } from '@/lib/openapi/example-generator';
+import { getStatusCodeColor } from '@/lib/openapi/http-status-codes';
+import {
+  ResponseCheck,
+  SchemeCredential,
+  TryRequest,
+  TryResponse,
+  buildTryRequest,
+  checkTryResponse,
+  getRequestParameters,
+  getRouteSecurity,
+  isDeclaredServerUrl,
+  parameterKey,
+} from '@/lib/openapi/try-request';
+import { sendTryRequest } from '@/app/actions/send-request';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { cn } from '@/lib/utils';
+
+// Starting body text: the declared example, else the first named one, else a generated one
+function initialBody(media: MediaType | undefined, contentType: string, doc: ApiDocument): string {
+  if (!media) return '';
+  const json = isJsonMediaType(contentType);
+  const value =
+    media.example ??
+    Array.from(media.examples?.values() ?? []).find((example) => example.value !== undefined)?.value ??
+    (json ? generateExample(media.schema, doc) : undefined);
+  if (value === undefined) return '';
+  return typeof value === 'string' && !json ? value : JSON.stringify(value, null, 2);
+}
+
+function formatBody(body: string, headers: [string, string][]): string {
+  const contentType = headers.find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  if (!contentType || !isJsonMediaType(contentType)) return body;
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+interface TryItConsoleProps {
+  route: Route;
+}
+
+/**
+ * Sends a request for a route to one of the document's servers and checks
+ * the response against the declared schema. Requests go through a server
+ * action, so the target API does not need to allow cross-origin calls.
+ * Credentials live only in this component's state and are never saved.
+ */
+export function TryItConsole({ route }: TryItConsoleProps) {
+  const { document } = useEditorStore();
+  const isOnline = useOnlineStatus();
+  const parameters = getRequestParameters(document, route);
+  const securityAlternatives = getRouteSecurity(document, route);
+  const requestBody = route.requestBody ? resolveComponent(document, route.requestBody) : undefined;
+  const contentTypes = requestBody ? Array.from(requestBody.content.keys()) : [];
+
+  const serverUrls = document.servers.map((server) => server.url);
+  const [serverIndex, setServerIndex] = useState('0');
+  const [baseUrl, setBaseUrl] = useState(() =>
+    document.servers.length > 0 ? resolveServerUrl(document.servers[0]) : ''
+  );
+  const [params, setParams] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      parameters.map((param) => [
+        parameterKey(param),
+        param.example === undefined
+          ? ''
+          : typeof param.example === 'object'
+            ? JSON.stringify(param.example)
+            : String(param.example),
+      ])
+    )
+  );
+  const [securityIndex, setSecurityIndex] = useState(0);
+  const [credentials, setCredentials] = useState<Record<string, SchemeCredential>>({});
+  const [contentType, setContentType] = useState(contentTypes[0] ?? '');
+  const [body, setBody] = useState(() =>
+    initialBody(requestBody?.content.get(contentTypes[0]), contentTypes[0] ?? '', document)
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState<TryRequest | null>(null);
+  const [response, setResponse] = useState<TryResponse | null>(null);
+  const [showHeaders, setShowHeaders] = useState(false);
+
+  const alternative = securityAlternatives[securityIndex] ?? [];
+  const { request, missing } = buildTryRequest(document, route, {
+    baseUrl,
+    params,
+    contentType: requestBody ? contentType : undefined,
+    body: requestBody ? body : undefined,
+    security: alternative,
+    credentials,
+  });
+  const check = response ? checkTryResponse(document, route, response) : null;
+  // The base URL stays editable for server variables, but must not leave the declared servers
+  const isDeclaredServer = isDeclaredServerUrl(request.url, serverUrls);
+
+  const handleServerChange = (value: string) => {
+    setServerIndex(value);
+    setBaseUrl(resolveServerUrl(document.servers[Number(value)]));
+  };
+
+  const handleContentTypeChange = (value: string) => {
+    setContentType(value);
+    setBody(initialBody(requestBody?.content.get(value), value, document));
+  };
+
+  const updateCredential = (schemeId: string, updates: SchemeCredential) => {
+    setCredentials((current) => ({ ...current, [schemeId]: { ...current[schemeId], ...updates } }));
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    setResponse(null);
+    setSent(request);
+
+    try {
+      const result = await sendTryRequest(request, serverUrls);
+      if (result.error) {
+        setError(result.error);
+      } else if (result.response) {
+        setResponse(result.response);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send request');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2">
+        <Label className="text-xs text-muted-foreground">Server</Label>
+        <div className="flex gap-2">
+          <Select
+            value={serverIndex}
+            onValueChange={handleServerChange}
+            disabled={document.servers.length === 0}
+          >
+            <SelectTrigger className="h-8 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {document.servers.map((server, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {server.description || server.url}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder={document.servers[Number(serverIndex)]?.url ?? 'https://api.example.com'}
+            className="h-8 flex-1 font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      {parameters.length > 0 && (
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Parameters</Label>
+          {parameters.map((param) => {
+            const key = parameterKey(param);
+            return (
+              <div key={key} className="flex items-center gap-2">
+                <span className="w-40 truncate font-mono text-xs">
+                  {param.name}
+                  {(param.required || param.in === 'path') && <span className="text-destructive">*</span>}
+                </span>
+                <Badge variant="outline" className="w-16 justify-center font-mono text-xs">
+                  {param.in}
+                </Badge>
+                <Input
+                  value={params[key] ?? ''}
+                  onChange={(e) => setParams((current) => ({ ...current, [key]: e.target.value }))}
+                  placeholder={param.description || param.name}
+                  className="h-8 flex-1 font-mono text-xs"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {securityAlternatives.length > 0 && (
+        <div className="grid gap-2">
+          <Label className="text-xs text-muted-foreground">Credentials</Label>
+          {securityAlternatives.length > 1 && (
+            <Select value={String(securityIndex)} onValueChange={(v) => setSecurityIndex(Number(v))}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {securityAlternatives.map((requirements, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {requirements.length === 0
+                      ? 'Anonymous'
+                      : requirements
+                          .map((r) => document.securitySchemes.get(r.schemeId)?.name ?? 'Unknown scheme')
+                          .join(' + ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {alternative.map((requirement) => {
+            const scheme = document.securitySchemes.get(requirement.schemeId);
+            if (!scheme) return null;
+            return (
+              <CredentialRow
+                key={scheme.id}
+                scheme={scheme}
+                credential={credentials[scheme.id] ?? {}}
+                onChange={(updates) => updateCredential(scheme.id, updates)}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      {requestBody && contentTypes.length > 0 && (
+        <div className="grid gap-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs text-muted-foreground">Body</Label>
+            <Select value={contentType} onValueChange={handleContentTypeChange}>
+              <SelectTrigger className="h-7 w-56 font-mono text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {contentTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            spellCheck={false}
+            className="h-32 resize-y font-mono text-xs"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <code className="flex-1 truncate border-2 border-foreground bg-muted px-2 py-1.5 font-mono text-xs">
+          {request.method} {request.url}
+        </code>
+        <Button
+          onClick={handleSend}
+          disabled={isSending || !isOnline || missing.length > 0 || !isDeclaredServer}
+          className="neo-btn-accent"
+        >
+          {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="mr-1 h-4 w-4" />}
+          {!isSending && 'Send'}
+        </Button>
+      </div>
+      {missing.length > 0 && (
+        <p className="font-mono text-xs text-muted-foreground">Required: {missing.join(', ')}</p>
+      )}
+      {!isDeclaredServer && (
+        <p className="font-mono text-xs text-muted-foreground">
+          {document.servers.length === 0
+            ? 'Add a server in Settings to send requests.'
+            : "Requests can only go to the document's servers."}
+        </p>
+      )}
+      {!isOnline && (
+        <p className="font-mono text-xs text-muted-foreground">Requests need a network connection.</p>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 border-2 border-destructive bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>
+            {sent && <span className="font-mono">{sent.method} {sent.url}: </span>}
+            {error}
+          </span>
+        </div>
+      )}
+
+      {response && check && (
+        <div className="space-y-2 border-2 border-foreground bg-card p-3 neo-shadow-sm">
+          <div className="flex items-center gap-2">
+            <Badge className={cn('text-white', getStatusCodeColor(String(response.status)))}>
+              {response.status}
+            </Badge>
+            <span className="text-sm font-bold">{response.statusText}</span>
+            <span className="ml-auto font-mono text-xs text-muted-foreground">{response.durationMs} ms</span>
+          </div>
+
+          <ResponseCheckSummary check={check} />
+
+          <div className="flex border-2 border-foreground text-xs font-bold uppercase">
+            {[
+              [false, 'Body'],
+              [true, `Headers (${response.headers.length})`],
+            ].map(([value, label]) => (
+              <button
+                key={String(value)}
+                type="button"
+                onClick={() => setShowHeaders(value as boolean)}
+                className={cn(
+                  'flex-1 px-2 py-1 transition-colors',
+                  showHeaders === value ? 'bg-accent text-foreground' : 'bg-background text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {showHeaders ? (
+            <div className="max-h-64 overflow-auto font-mono text-xs">
+              {response.headers.map(([name, value], index) => (
+                <div key={index} className="flex gap-2">
+                  <span className="shrink-0 font-bold">{name}:</span>
+                  <span className="break-all">{value}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <pre className="max-h-96 overflow-auto bg-muted p-2 font-mono text-xs">
+              {response.body ? formatBody(response.body, response.headers) : '(empty body)'}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CredentialRowProps {
+  scheme: SecurityScheme;
+  credential: SchemeCredential;
+  onChange: (updates: SchemeCredential) => void;
+}
+
+function CredentialRow({ scheme, credential, onChange }: CredentialRowProps) {
+  const basic = scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic';
+  const hint =
+    scheme.type === 'apiKey'
+      ? `${scheme.paramName ?? 'key'} in ${scheme.in ?? 'header'}`
+      : scheme.type === 'http'
+        ? scheme.scheme ?? 'bearer'
+        : 'bearer token';
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-40 truncate text-xs font-bold">{scheme.name}</span>
+      <Badge variant="outline" className="font-mono text-xs">
+        {hint}
+      </Badge>
+      {basic ? (
+        <>
+          <Input
+            value={credential.username ?? ''}
+            onChange={(e) => onChange({ username: e.target.value })}
+            placeholder="Username"
+            autoComplete="off"
+            className="h-8 flex-1 font-mono text-xs"
+          />
+          <Input
+            type="password"
+            value={credential.password ?? ''}
+            onChange={(e) => onChange({ password: e.target.value })}
+            placeholder="Password"
+            autoComplete="off"
+            className="h-8 flex-1 font-mono text-xs"
+          />
+        </>
+      ) : (
+        <Input
+          type="password"
+          value={credential.value ?? ''}
+          onChange={(e) => onChange({ value: e.target.value })}
+          placeholder={scheme.type === 'apiKey' ? 'API key' : 'Token'}
+          autoComplete="off"
+          className="h-8 flex-1 font-mono text-xs"
+        />
+      )}
+    </div>
+  );
+}
+
+function ResponseCheckSummary({ check }: { check: ResponseCheck }) {
+  switch (check.kind) {
+    case 'undeclared':
+      return (
+        <p className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertCircle className="h-3 w-3" />
+          The route declares no {check.status} response
+        </p>
+      );
+    case 'no-schema':
+      return (
+        <p className="font-mono text-xs text-muted-foreground">
+          Matched the {check.statusCode} response; {check.contentType ?? 'this content type'} has no JSON schema to check
+        </p>
+      );
+    case 'unparsed':
+      return (
+        <p className="flex items-center gap-1 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          The body is not valid JSON: {check.message}
+        </p>
+      );
+    case 'checked':
+      return check.errors.length === 0 ? (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <CheckCircle2 className="h-3 w-3" />
+          Matches the {check.statusCode} response schema
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <p className="text-xs font-bold text-amber-600">
+            Does not match the {check.statusCode} response schema
+          </p>
+          {check.errors.map((problem, index) => (
+            <p key={index} className="flex items-start gap-1 text-xs text-amber-600">
+              <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+              {problem.path && <span className="font-mono">{problem.path}:</span>}
+              {problem.message}
+            </p>
+          ))}
+        </div>
+      );
+  }
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useMemo } from 'react';
+import { AlertCircle, AlertTriangle, Info, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useEditorStore, type TabType } from '@/lib/openapi/store';
+import { validateDocument } from '@/lib/openapi/validator';
+import {
+  ApiDocument,
+  NodeId,
+  ValidationError,
+  ValidationSeverity,
+  findComponent,
+} from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+const SEVERITY_CONFIG: Record<
+  ValidationSeverity,
+  { label: string; icon: typeof AlertCircle; color: string }
+> = {
+  error: { label: 'Errors', icon: AlertCircle, color: 'text-destructive' },
+  warning: { label: 'Warnings', icon: AlertTriangle, color: 'text-amber-500' },
+  info: { label: 'Info', icon: Info, color: 'text-blue-500' },
+};
+
+export interface ValidationTarget {
+  tab: TabType;
+  routeId?: NodeId;
+  schemaId?: NodeId;
+  componentId?: NodeId;
+}
+
+/**
+ * Re-runs validateDocument whenever the document version changes
+ * and returns every issue grouped by severity.
+ */
+export function useDocumentValidation(): Record<ValidationSeverity, ValidationError[]> {
+  const { document, documentVersion } = useEditorStore();
+
+  return useMemo(() => {
+    const result = validateDocument(document);
+    const grouped: Record<ValidationSeverity, ValidationError[]> = {
+      error: [],
+      warning: [],
+      info: [],
+    };
+    for (const issue of [...result.errors, ...result.warnings]) {
+      grouped[issue.severity].push(issue);
+    }
+    return grouped;
+  }, [document, documentVersion]);
+}
+
+/**
+ * Resolve where in the editor a validation issue lives
+ */
+export function getValidationTarget(
+  doc: ApiDocument,
+  issue: ValidationError
+): ValidationTarget | null {
+  const { nodeId, path } = issue.location;
+
+  if (nodeId) {
+    if (doc.routes.has(nodeId)) {
+      return { tab: 'routes', routeId: nodeId };
+    }
+    if (doc.schemas.has(nodeId)) {
+      return { tab: 'schemas', schemaId: nodeId };
+    }
+    const pathItem = doc.pathItems.get(nodeId);
+    if (pathItem) {
+      // Path items are edited from any route on their path
+      const route = Array.from(doc.routes.values()).find((r) => r.path === pathItem.path);
+      return route ? { tab: 'routes', routeId: route.id } : null;
+    }
+    if (findComponent(doc, nodeId)) {
+      return { tab: 'components', componentId: nodeId };
+    }
+    if (doc.securitySchemes.has(nodeId)) {
+      return { tab: 'settings' };
+    }
+  }
+
+  if (path && path.length > 0) {
+    return { tab: 'settings' };
+  }
+
+  return null;
+}
+
+interface ValidationPanelProps {
+  /** Called after the store selection has been updated for a clicked issue */
+  onNavigate?: (target: ValidationTarget) => void;
+}
+
+export function ValidationPanel({ onNavigate }: ValidationPanelProps) {
+  const { document, selectRoute, selectSchema, selectComponent, setActiveTab } = useEditorStore();
+  const grouped = useDocumentValidation();
+
+  const total = grouped.error.length + grouped.warning.length + grouped.info.length;
+
+  const handleSelect = (issue: ValidationError) => {
+    const target = getValidationTarget(document, issue);
+    if (!target) return;
+
+    if (target.routeId) {
+      selectRoute(target.routeId);
+    }
+    if (target.schemaId) {
+      selectSchema(target.schemaId);
+    }
+    if (target.componentId) {
+      selectComponent(target.componentId);
+    }
+    setActiveTab(target.tab);
+    onNavigate?.(target);
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-muted/30">
+      <div className="flex items-center justify-between border-b-4 border-foreground bg-background px-4 py-3">
+        <h3 className="font-bold uppercase tracking-tight text-foreground">Problems</h3>
+        <div className="flex gap-2">
+          {SEVERITY_ORDER.map((severity) => {
+            const { icon: Icon, color } = SEVERITY_CONFIG[severity];
+            return (
+              <Badge
+                key={severity}
+                variant="outline"
+                className="gap-1 border-2 border-foreground font-mono text-xs"
+              >
+                <Icon className={cn('h-3 w-3', color)} />
+                {grouped[severity].length}
+              </Badge>
+            );
+          })}
+        </div>
+      </div>
+      <ScrollArea className="flex-1 bg-card">
+        {total === 0 ? (
+          <div className="flex flex-col items-center justify-center p-8 text-center">
+            <CheckCircle2 className="mb-3 h-10 w-10 text-green-600 dark:text-green-400" />
+            <p className="font-mono text-sm text-muted-foreground">No problems found.</p>
+          </div>
+        ) : (
+          <div className="space-y-4 p-3">
+            {SEVERITY_ORDER.filter((severity) => grouped[severity].length > 0).map((severity) => {
+              const { label, icon: Icon, color } = SEVERITY_CONFIG[severity];
+              return (
+                <div key={severity}>
+                  <div className="mb-2 flex items-center gap-2 text-xs font-bold uppercase text-muted-foreground">
+                    <Icon className={cn('h-4 w-4', color)} />
+                    {label} ({grouped[severity].length})
+                  </div>
+                  <div className="space-y-1">
+                    {grouped[severity].map((issue, index) => {
+                      const target = getValidationTarget(document, issue);
+                      return (
+                        <button
+                          key={`${issue.code}-${index}`}
+                          type="button"
+                          disabled={!target}
+                          onClick={() => handleSelect(issue)}
+                          className={cn(
+                            'flex w-full items-start gap-2 border-2 border-transparent px-3 py-2 text-left transition-all',
+                            target && 'hover:border-foreground hover:bg-muted',
+                            !target && 'cursor-default'
+                          )}
+                        >
+                          <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', color)} />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm text-foreground">{issue.message}</p>
+                            <p className="font-mono text-xs text-muted-foreground">
+                              {issue.code}
+                              {issue.location.field && ` · ${issue.location.field}`}
+                              {!issue.location.nodeId && issue.location.path && ` · ${issue.location.path.join('.')}`}
+                            </p>
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,11 +1,23 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback, memo } from 'react';
-import { Copy, Check, Download, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback, memo, type ReactNode } from 'react';
+import { Copy, Check, Download, Loader2, Pencil, Eye, AlertCircle, AlertTriangle, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useEditorStore } from '@/lib/openapi/store';
-import { serializeToYaml } from '@/lib/openapi/serializer';
+import { serializeToYaml, serializeToJson, serializeToYamlWithSourceMap } from '@/lib/openapi/serializer';
+import { buildSourceMap, nodeAtLine, type SourceMap } from '@/lib/openapi/source-map';
+import { parseYaml, findSourceLine } from '@/lib/openapi/parser';
+import { reconcileIds } from '@/lib/openapi/reconcile';
+import type { ValidationError } from '@/lib/openapi/types';
+import { cn } from '@/lib/utils';
+
+type OutputFormat = 'yaml' | 'json';
+
+const FORMAT_CONFIG: Record<OutputFormat, { label: string; mimeType: string; extension: string }> = {
+  yaml: { label: 'YAML', mimeType: 'text/yaml', extension: 'yaml' },
+  json: { label: 'JSON', mimeType: 'application/json', extension: 'json' },
+};
 
 // Debounce hook for expensive operations
 function useDebouncedValue<T>(value: T, delay: number): T {
@@ -23,20 +35,34 @@ function useDebouncedValue<T>(value: T, delay: number): T {
 }
 
 export function YamlPreview() {
-  const { document, documentVersion } = useEditorStore();
+  const {
+    document,
+    documentVersion,
+    activeTab,
+    selectedRouteId,
+    selectedSchemaId,
+    selectedComponentId,
+    focusedNodeId,
+  } = useEditorStore();
   const [copied, setCopied] = useState(false);
-  const [yaml, setYaml] = useState('# Loading...');
+  const [format, setFormat] = useState<OutputFormat>('yaml');
+  const [output, setOutput] = useState('# Loading...');
+  const [sourceMap, setSourceMap] = useState<SourceMap>([]);
   const [isSerializing, setIsSerializing] = useState(false);
+  const [editing, setEditing] = useState(false);
   const serializeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastVersionRef = useRef<number>(-1);
+  const lastFormatRef = useRef<OutputFormat>(format);
+  const codeRef = useRef<HTMLElement>(null);
+  const lastScrolledIdRef = useRef<string | null>(null);
   
   // Debounce the version changes (300ms feels responsive but prevents thrashing)
   const debouncedVersion = useDebouncedValue(documentVersion, 300);
 
   // Serialize in a non-blocking way using setTimeout to yield to main thread
   useEffect(() => {
-    // Skip if version hasn't changed
-    if (lastVersionRef.current === debouncedVersion) {
+    // Skip if neither version nor format has changed
+    if (lastVersionRef.current === debouncedVersion && lastFormatRef.current === format) {
       return;
     }
     
@@ -50,12 +76,21 @@ export function YamlPreview() {
     // Use setTimeout to allow UI to remain responsive
     serializeTimeoutRef.current = setTimeout(() => {
       try {
-        const result = serializeToYaml(document);
-        setYaml(result);
+        if (format === 'json') {
+          const json = serializeToJson(document);
+          setOutput(json);
+          setSourceMap(buildSourceMap(document, json));
+        } else {
+          const { yaml, sourceMap } = serializeToYamlWithSourceMap(document);
+          setOutput(yaml);
+          setSourceMap(sourceMap);
+        }
         lastVersionRef.current = debouncedVersion;
+        lastFormatRef.current = format;
       } catch (error) {
         console.error('Failed to serialize document:', error);
-        setYaml('# Error serializing document');
+        setOutput(format === 'json' ? '// Error serializing document' : '# Error serializing document');
+        setSourceMap([]);
       } finally {
         setIsSerializing(false);
       }
@@ -66,11 +101,58 @@ export function YamlPreview() {
         clearTimeout(serializeTimeoutRef.current);
       }
     };
-  }, [debouncedVersion, document]);
+  }, [debouncedVersion, document, format]);
+
+  // The focused field or response if it belongs to the selection on the active
+  // tab, otherwise the selection itself
+  const selectedId =
+    activeTab === 'routes'
+      ? selectedRouteId
+      : activeTab === 'schemas'
+        ? selectedSchemaId
+        : activeTab === 'components'
+          ? selectedComponentId
+          : null;
+  const highlighted =
+    sourceMap.find((entry) => entry.id === focusedNodeId && entry.ownerId === selectedId) ??
+    sourceMap.find((entry) => entry.id === selectedId);
+
+  // Only scroll when the highlight moves to another node, not on every re-serialization
+  useEffect(() => {
+    if (!highlighted) {
+      lastScrolledIdRef.current = null;
+      return;
+    }
+    if (highlighted.id === lastScrolledIdRef.current) return;
+    lastScrolledIdRef.current = highlighted.id;
+    codeRef.current
+      ?.querySelector(`[data-line="${highlighted.startLine}"]`)
+      ?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+  }, [highlighted]);
+
+  const handleLineClick = useCallback(
+    (line: number) => {
+      const entry = nodeAtLine(sourceMap, line);
+      if (!entry) return;
+      const { setActiveTab, selectRoute, selectSchema, selectComponent, focusNode } = useEditorStore.getState();
+      if (entry.kind === 'route' || entry.kind === 'response') {
+        setActiveTab('routes');
+        selectRoute(entry.ownerId);
+      } else if (entry.kind === 'schema' || entry.kind === 'field') {
+        setActiveTab('schemas');
+        selectSchema(entry.ownerId);
+      } else {
+        setActiveTab('components');
+        selectComponent(entry.ownerId);
+      }
+      focusNode(entry.kind === 'field' || entry.kind === 'response' ? entry.id : null);
+    },
+    [sourceMap]
+  );
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(yaml);
+      await navigator.clipboard.writeText(output);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -79,11 +161,12 @@ export function YamlPreview() {
   };
 
   const handleDownload = () => {
-    const blob = new Blob([yaml], { type: 'text/yaml' });
+    const { mimeType, extension } = FORMAT_CONFIG[format];
+    const blob = new Blob([output], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const a = window.document.createElement('a');
     a.href = url;
-    a.download = `${document.info.title.toLowerCase().replace(/\s+/g, '-')}-openapi.yaml`;
+    a.download = `${document.info.title.toLowerCase().replace(/\s+/g, '-')}-openapi.${extension}`;
     window.document.body.appendChild(a);
     a.click();
     window.document.body.removeChild(a);
@@ -94,10 +177,41 @@ export function YamlPreview() {
     <div className="flex h-full flex-col border-l-4 border-foreground bg-muted/30">
       <div className="flex items-center justify-between border-b-4 border-foreground bg-background px-4 py-3">
         <div className="flex items-center gap-2">
-          <h3 className="font-bold uppercase tracking-tight text-foreground">OpenAPI YAML</h3>
+          <h3 className="font-bold uppercase tracking-tight text-foreground">
+            OpenAPI {FORMAT_CONFIG[format].label}
+          </h3>
           {isSerializing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
         </div>
         <div className="flex gap-2">
+          <div className="flex border-2 border-foreground">
+            {(Object.keys(FORMAT_CONFIG) as OutputFormat[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFormat(value)}
+                className={cn(
+                  'px-2 font-mono text-xs font-bold uppercase transition-colors',
+                  format === value
+                    ? 'bg-accent text-foreground'
+                    : 'bg-background text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {FORMAT_CONFIG[value].label}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            title={editing ? 'Back to preview' : 'Edit source'}
+            className={cn(
+              'h-8 w-8 border-2 border-foreground hover:bg-muted hover:neo-shadow-sm',
+              editing ? 'bg-accent' : 'bg-background'
+            )}
+            onClick={() => setEditing(!editing)}
+          >
+            {editing ? <Eye className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+          </Button>
           <Button 
             variant="outline" 
             size="icon" 
@@ -120,23 +234,235 @@ export function YamlPreview() {
           </Button>
         </div>
       </div>
-      <ScrollArea className="flex-1 bg-card">
-        <pre className="p-4 font-mono text-xs leading-relaxed">
-          <code>
-            <MemoizedYamlSyntaxHighlight content={yaml} />
-          </code>
-        </pre>
-      </ScrollArea>
+      {editing ? (
+        <SourceEditor key={format} format={format} />
+      ) : (
+        <ScrollArea className="flex-1 bg-card">
+          <pre className="p-4 font-mono text-xs leading-relaxed">
+            <code ref={codeRef}>
+              <MemoizedSyntaxHighlight
+                content={output}
+                format={format}
+                highlightStart={highlighted?.startLine}
+                highlightEnd={highlighted?.endLine}
+                onLineClick={handleLineClick}
+              />
+            </code>
+          </pre>
+        </ScrollArea>
+      )}
     </div>
   );
 }
 
-interface YamlSyntaxHighlightProps {
+// Pause after the last keystroke before the source is parsed and applied
+const APPLY_DELAY_MS = 600;
+
+interface SourceEditorProps {
+  format: OutputFormat;
+}
+
+/**
+ * Editable source of the document. Edits that parse without errors replace the
+ * document, keeping the NodeIds of everything that still matches, so form
+ * editors and selections follow along. Form edits flow back into the text
+ * while it has no unapplied changes.
+ */
+function SourceEditor({ format }: SourceEditorProps) {
+  const { documentVersion, applySourceEdit } = useEditorStore();
+  const serialize = useCallback(() => {
+    const { document } = useEditorStore.getState();
+    return format === 'json' ? serializeToJson(document) : serializeToYaml(document);
+  }, [format]);
+  const [text, setText] = useState(serialize);
+  const [problems, setProblems] = useState<ValidationError[]>([]);
+  // The document changed in the form editors while the text had unapplied edits
+  const [stale, setStale] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const applyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Text typed but not yet applied, waiting on the apply delay
+  const pendingTextRef = useRef<string | null>(null);
+  const dirtyRef = useRef(false);
+  const appliedVersionRef = useRef(documentVersion);
+
+  useEffect(() => {
+    if (documentVersion === appliedVersionRef.current) return;
+    appliedVersionRef.current = documentVersion;
+    if (dirtyRef.current) {
+      setStale(true);
+    } else {
+      setText(serialize());
+      setProblems([]);
+    }
+  }, [documentVersion, serialize]);
+
+  const apply = (value: string) => {
+    const result = parseYaml(value);
+    const located = result.errors.map((error) => ({
+      ...error,
+      location: {
+        ...error.location,
+        line: error.location.line ?? (error.location.path ? findSourceLine(value, error.location.path) : undefined),
+      },
+    }));
+    setProblems(located);
+    if (!result.document || located.some((e) => e.severity === 'error')) return;
+
+    applySourceEdit(reconcileIds(useEditorStore.getState().document, result.document));
+    appliedVersionRef.current = useEditorStore.getState().documentVersion;
+    dirtyRef.current = false;
+    setStale(false);
+  };
+
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  // Closing the editor applies what was typed instead of dropping it
+  useEffect(() => {
+    return () => {
+      if (applyTimeoutRef.current) {
+        clearTimeout(applyTimeoutRef.current);
+      }
+      if (pendingTextRef.current !== null) {
+        applyRef.current(pendingTextRef.current);
+      }
+    };
+  }, []);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    dirtyRef.current = true;
+    pendingTextRef.current = value;
+    if (applyTimeoutRef.current) {
+      clearTimeout(applyTimeoutRef.current);
+    }
+    applyTimeoutRef.current = setTimeout(() => {
+      pendingTextRef.current = null;
+      apply(value);
+    }, APPLY_DELAY_MS);
+  };
+
+  const handleReload = () => {
+    if (applyTimeoutRef.current) {
+      clearTimeout(applyTimeoutRef.current);
+    }
+    pendingTextRef.current = null;
+    dirtyRef.current = false;
+    setText(serialize());
+    setProblems([]);
+    setStale(false);
+  };
+
+  const goToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const offset = text.split('\n').slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  const lineCount = text.split('\n').length;
+  const problemsByLine = new Map<number, ValidationError[]>();
+  for (const problem of problems) {
+    if (problem.location.line === undefined) continue;
+    problemsByLine.set(problem.location.line, [...(problemsByLine.get(problem.location.line) ?? []), problem]);
+  }
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col bg-card">
+      {stale && (
+        <div className="flex items-center gap-2 border-b-2 border-foreground bg-amber-100 px-3 py-1.5 text-xs dark:bg-amber-900/40">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          <span className="flex-1">The document was changed elsewhere while this text had unapplied edits.</span>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleReload}>
+            <RefreshCw className="mr-1 h-3 w-3" />
+            Reload
+          </Button>
+        </div>
+      )}
+
+      <div className="flex min-h-0 flex-1">
+        <div
+          ref={gutterRef}
+          aria-hidden
+          className="overflow-hidden border-r-2 border-foreground/20 bg-muted/50 py-4 font-mono text-xs leading-relaxed"
+        >
+          {Array.from({ length: lineCount }, (_, i) => {
+            const lineProblems = problemsByLine.get(i + 1);
+            const hasError = lineProblems?.some((p) => p.severity === 'error');
+            return (
+              <div
+                key={i}
+                title={lineProblems?.map((p) => p.message).join('\n')}
+                className={cn(
+                  'px-2 text-right text-muted-foreground',
+                  hasError && 'bg-destructive/20 font-bold text-destructive',
+                  lineProblems && !hasError && 'bg-amber-200/60 text-amber-700 dark:bg-amber-900/40 dark:text-amber-400'
+                )}
+              >
+                {i + 1}
+              </div>
+            );
+          })}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          spellCheck={false}
+          wrap="off"
+          className="flex-1 resize-none bg-transparent p-4 font-mono text-xs leading-relaxed outline-none"
+        />
+      </div>
+
+      {problems.length > 0 && (
+        <div className="max-h-32 overflow-auto border-t-2 border-foreground bg-background">
+          {problems.map((problem, index) => (
+            <button
+              key={index}
+              type="button"
+              disabled={problem.location.line === undefined}
+              onClick={() => problem.location.line !== undefined && goToLine(problem.location.line)}
+              className="flex w-full items-start gap-2 px-3 py-1 text-left text-xs hover:bg-muted disabled:hover:bg-transparent"
+            >
+              {problem.severity === 'error' ? (
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-600" />
+              )}
+              {problem.location.line !== undefined && (
+                <span className="shrink-0 font-mono text-muted-foreground">Ln {problem.location.line}</span>
+              )}
+              <span>{problem.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SyntaxHighlightProps {
   content: string;
+  format: OutputFormat;
+  // 1-based, inclusive range of the selected node's block
+  highlightStart?: number;
+  highlightEnd?: number;
+  onLineClick: (line: number) => void;
 }
 
 // Memoized to prevent re-renders when parent re-renders with same content
-const MemoizedYamlSyntaxHighlight = memo(function YamlSyntaxHighlight({ content }: YamlSyntaxHighlightProps) {
+const MemoizedSyntaxHighlight = memo(function SyntaxHighlight({
+  content,
+  format,
+  highlightStart,
+  highlightEnd,
+  onLineClick,
+}: SyntaxHighlightProps) {
   // For very large files, limit line rendering
   const lines = content.split('\n');
   const MAX_LINES = 5000;
@@ -145,11 +471,27 @@ const MemoizedYamlSyntaxHighlight = memo(function YamlSyntaxHighlight({ content
 
   return (
     <>
-      {displayLines.map((line, index) => (
-        <div key={index} className="whitespace-pre">
-          <HighlightedLine line={line} />
-        </div>
-      ))}
+      {displayLines.map((line, index) => {
+        const lineNumber = index + 1;
+        const isHighlighted =
+          highlightStart !== undefined &&
+          highlightEnd !== undefined &&
+          lineNumber >= highlightStart &&
+          lineNumber <= highlightEnd;
+        return (
+          <div
+            key={index}
+            data-line={lineNumber}
+            onClick={() => onLineClick(lineNumber)}
+            className={cn(
+              '-mx-4 cursor-pointer whitespace-pre px-4 hover:bg-muted',
+              isHighlighted && 'bg-accent/20 hover:bg-accent/30'
+            )}
+          >
+            {format === 'json' ? <HighlightedJsonLine line={line} /> : <HighlightedLine line={line} />}
+          </div>
+        );
+      })}
       {truncated && (
         <div className="mt-4 border-2 border-dashed border-muted-foreground/50 p-4 text-center text-muted-foreground">
           <p className="font-bold uppercase">Large file truncated</p>
@@ -263,3 +605,54 @@ const HighlightedLine = memo(function HighlightedLine({ line }: { line: string }
   // Default
   return <span className="text-foreground">{line}</span>;
 });
+
+// Strings (keys when followed by a colon), numbers and literals of one JSON line
+const JSON_TOKEN = /("(?:[^"\\]|\\.)*")(\s*:)?|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|\b(true|false|null)\b/g;
+
+const HighlightedJsonLine = memo(function HighlightedJsonLine({ line }: { line: string }) {
+  if (!line.trim()) {
+    return <span>&nbsp;</span>;
+  }
+
+  const parts: ReactNode[] = [];
+  let last = 0;
+  // The value after a "$ref" key is colored as a reference
+  let afterRef = false;
+  for (const match of line.matchAll(JSON_TOKEN)) {
+    const [token, string, colon, number, literal] = match;
+    const index = match.index ?? 0;
+    if (index > last) {
+      parts.push(<span key={last} className="text-foreground">{line.slice(last, index)}</span>);
+    }
+    if (string !== undefined && colon !== undefined) {
+      const isRef = string === '"$ref"';
+      parts.push(
+        <span key={index}>
+          <span className={isRef ? 'text-cyan-600 dark:text-cyan-400' : 'text-blue-600 dark:text-blue-400'}>
+            {string}
+          </span>
+          <span>{colon}</span>
+        </span>
+      );
+      afterRef = isRef;
+    } else {
+      const className =
+        string !== undefined
+          ? afterRef
+            ? 'text-amber-600 dark:text-amber-400'
+            : 'text-green-600 dark:text-green-400'
+          : number !== undefined
+            ? 'text-purple-600 dark:text-purple-400'
+            : literal !== undefined
+              ? 'text-orange-600 dark:text-orange-400'
+              : 'text-foreground';
+      parts.push(<span key={index} className={className}>{token}</span>);
+      afterRef = false;
+    }
+    last = index + token.length;
+  }
+  if (last < line.length) {
+    parts.push(<span key={last} className="text-foreground">{line.slice(last)}</span>);
+  }
+  return <>{parts}</>;
+});
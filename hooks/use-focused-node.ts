@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useEditorStore } from '@/lib/openapi/store';
+
+/**
+ * Ties an editor row to a field or response id of the YAML source map: focusing
+ * inside the row highlights its block in the preview, and clicking that block
+ * scrolls the row into view
+ */
+export function useFocusedNode<T extends HTMLElement>(id: string) {
+  const focused = useEditorStore((state) => state.focusedNodeId === id);
+  const focusNode = useEditorStore((state) => state.focusNode);
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    if (focused) {
+      ref.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [focused]);
+
+  return {
+    ref,
+    focused,
+    onFocusCapture: () => {
+      if (!focused) focusNode(id);
+    },
+  };
+}
@@ -2,15 +2,44 @@
 
 import { useEffect, useRef, useCallback, useState } from "react";
 import { getRepository, type StoredProject, type ProjectMetadata } from "@/lib/storage";
-import type { ApiDocument } from "@/lib/openapi/types";
+import { useEditorStore } from "@/lib/openapi/store";
+import { generateId, type ApiDocument, type CommandHistory } from "@/lib/openapi/types";
 
 const DEFAULT_PROJECT_ID = "default";
 const DEFAULT_PROJECT_NAME = "Untitled API";
 const DEBOUNCE_MS = 1000;
+const CHECKPOINT_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_AUTO_CHECKPOINTS = 20;
+
+/**
+ * Store an automatic checkpoint of a project and drop the oldest ones beyond the limit
+ */
+async function createCheckpoint(project: StoredProject): Promise<void> {
+  const repository = getRepository();
+  await repository.saveSnapshot({
+    metadata: {
+      id: generateId(),
+      projectId: project.metadata.id,
+      name: "Autosave",
+      kind: "auto",
+      createdAt: project.metadata.updatedAt,
+    },
+    document: project.document,
+  });
+
+  const checkpoints = (await repository.listSnapshots(project.metadata.id)).filter(
+    (s) => s.kind === "auto"
+  );
+  for (const stale of checkpoints.slice(MAX_AUTO_CHECKPOINTS)) {
+    await repository.deleteSnapshot(stale.id);
+  }
+}
 
 interface UsePersistenceOptions {
   /** Debounce delay in milliseconds */
   debounceMs?: number;
+  /** Metadata of the project loaded on mount, adopted once it arrives */
+  initialMetadata?: ProjectMetadata | null;
 }
 
 interface UsePersistenceReturn {
@@ -26,6 +55,10 @@ interface UsePersistenceReturn {
   error: Error | null;
   /** Manually trigger a save */
   saveNow: () => Promise<void>;
+  /** Save pending changes, then make another project the active one */
+  openProject: (project: StoredProject) => Promise<void>;
+  /** Rename the active project */
+  renameProject: (name: string) => Promise<void>;
 }
 
 /**
@@ -38,7 +71,7 @@ export function usePersistence(
   documentVersion: number,
   options: UsePersistenceOptions = {}
 ): UsePersistenceReturn {
-  const { debounceMs = DEBOUNCE_MS } = options;
+  const { debounceMs = DEBOUNCE_MS, initialMetadata } = options;
 
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -51,6 +84,7 @@ export function usePersistence(
   const metadataRef = useRef(projectMetadata);
   const initialLoadDoneRef = useRef(false);
   const lastSavedVersionRef = useRef(-1);
+  const lastCheckpointRef = useRef(0);
 
   // Keep refs updated
   documentRef.current = document;
@@ -70,7 +104,7 @@ export function usePersistence(
       const repository = getRepository();
       const now = Date.now();
 
-      // Get or create project metadata
+      // Get or create project metadata; an existing project keeps its own name
       let metadata = metadataRef.current;
       if (!metadata) {
         metadata = {
@@ -82,19 +116,26 @@ export function usePersistence(
       } else {
         metadata = {
           ...metadata,
-          name: doc.info.title || DEFAULT_PROJECT_NAME,
           updatedAt: now,
         };
       }
 
+      const { commandLog, historyIndex } = useEditorStore.getState();
       const project: StoredProject = {
         metadata,
         document: doc,
+        history: { commands: commandLog, index: historyIndex },
       };
 
       await repository.saveProject(project);
       await repository.setActiveProjectId(metadata.id);
 
+      if (now - lastCheckpointRef.current >= CHECKPOINT_INTERVAL_MS) {
+        lastCheckpointRef.current = now;
+        await createCheckpoint(project);
+      }
+
+      metadataRef.current = metadata;
       setProjectMetadata(metadata);
       setLastSaved(now);
       lastSavedVersionRef.current = documentVersion;
@@ -116,6 +157,48 @@ export function usePersistence(
     await saveDocument();
   }, [saveDocument]);
 
+  /**
+   * Switch to another project, saving any pending changes to the current one first
+   */
+  const openProject = useCallback(
+    async (project: StoredProject) => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
+        await saveDocument();
+      }
+
+      try {
+        await getRepository().setActiveProjectId(project.metadata.id);
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error("Failed to open project"));
+        return;
+      }
+
+      metadataRef.current = project.metadata;
+      lastCheckpointRef.current = 0;
+      setProjectMetadata(project.metadata);
+      setLastSaved(project.metadata.updatedAt);
+      useEditorStore.getState().initializeDocument(project.document, project.history);
+      // The version initializeDocument moved to is what was just loaded, so it counts as saved
+      lastSavedVersionRef.current = useEditorStore.getState().documentVersion;
+    },
+    [saveDocument]
+  );
+
+  /**
+   * Rename the active project and save it immediately
+   */
+  const renameProject = useCallback(
+    async (name: string) => {
+      const metadata = metadataRef.current;
+      if (!metadata) return;
+      metadataRef.current = { ...metadata, name };
+      await saveNow();
+    },
+    [saveNow]
+  );
+
   /**
    * Debounced save - called when document changes
    */
@@ -130,6 +213,16 @@ export function usePersistence(
     }, debounceMs);
   }, [saveDocument, debounceMs]);
 
+  // Adopt the metadata of the project loaded on mount. The editor initializes
+  // the store with that project before this runs, so its version counts as saved
+  useEffect(() => {
+    if (initialMetadata && !metadataRef.current) {
+      metadataRef.current = initialMetadata;
+      lastSavedVersionRef.current = useEditorStore.getState().documentVersion;
+      setProjectMetadata(initialMetadata);
+    }
+  }, [initialMetadata]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -165,6 +258,8 @@ export function usePersistence(
     projectMetadata,
     error,
     saveNow,
+    openProject,
+    renameProject,
   };
 }
 
@@ -174,10 +269,14 @@ export function usePersistence(
  */
 export function useLoadProject(): {
   document: ApiDocument | null;
+  metadata: ProjectMetadata | null;
+  history: CommandHistory | null;
   isLoading: boolean;
   error: Error | null;
 } {
   const [document, setDocument] = useState<ApiDocument | null>(null);
+  const [metadata, setMetadata] = useState<ProjectMetadata | null>(null);
+  const [history, setHistory] = useState<CommandHistory | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -201,6 +300,8 @@ export function useLoadProject(): {
         if (!cancelled) {
           if (project) {
             setDocument(project.document);
+            setMetadata(project.metadata);
+            setHistory(project.history ?? null);
           }
           setIsLoading(false);
         }
@@ -219,5 +320,5 @@ export function useLoadProject(): {
     };
   }, []);
 
-  return { document, isLoading, error };
+  return { document, metadata, history, isLoading, error };
 }
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type ShortcutAction =
+  | 'commandPalette'
+  | 'undo'
+  | 'redo'
+  | 'save'
+  | 'newRoute'
+  | 'toggleYaml'
+  | 'export'
+  | 'validate';
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  commandPalette: 'Open command palette',
+  undo: 'Undo',
+  redo: 'Redo',
+  save: 'Save now',
+  newRoute: 'New route',
+  toggleYaml: 'Toggle YAML preview',
+  export: 'Export YAML',
+  validate: 'Show problems',
+};
+
+// "Mod" is Cmd on macOS and Ctrl elsewhere
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  commandPalette: 'Mod+K',
+  undo: 'Mod+Z',
+  redo: 'Mod+Shift+Z',
+  save: 'Mod+S',
+  newRoute: 'Alt+N',
+  toggleYaml: 'Mod+Shift+Y',
+  export: 'Mod+Shift+E',
+  validate: 'Mod+Shift+M',
+};
+
+// Left to text inputs, which have their own undo stack
+const NATIVE_IN_INPUTS: ShortcutAction[] = ['undo', 'redo'];
+
+interface ShortcutState {
+  bindings: Record<ShortcutAction, string>;
+  // Binds a key combination to an action, unbinding any other action that used it
+  setBinding: (action: ShortcutAction, binding: string) => void;
+  resetBindings: () => void;
+}
+
+export const useShortcutStore = create<ShortcutState>()(
+  persist(
+    (set) => ({
+      bindings: DEFAULT_SHORTCUTS,
+      setBinding: (action, binding) =>
+        set((state) => {
+          const bindings = { ...state.bindings };
+          for (const other of Object.keys(bindings) as ShortcutAction[]) {
+            if (bindings[other] === binding) bindings[other] = '';
+          }
+          bindings[action] = binding;
+          return { bindings };
+        }),
+      resetBindings: () => set({ bindings: DEFAULT_SHORTCUTS }),
+    }),
+    {
+      name: 'openapi-editor-shortcuts',
+      // Actions added after the bindings were saved keep their defaults
+      merge: (persisted, current) => ({
+        ...current,
+        bindings: {
+          ...current.bindings,
+          ...(persisted as Partial<ShortcutState> | undefined)?.bindings,
+        },
+      }),
+    }
+  )
+);
+
+function isMac(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+}
+
+/**
+ * The binding string for a key press, or null while only modifiers are held
+ */
+export function eventToShortcut(event: KeyboardEvent): string | null {
+  if (['Control', 'Meta', 'Shift', 'Alt'].includes(event.key)) return null;
+
+  // Physical key codes keep letters and digits stable under Shift and Alt
+  const key = /^Key[A-Z]$/.test(event.code)
+    ? event.code.slice(3)
+    : /^Digit\d$/.test(event.code)
+      ? event.code.slice(5)
+      : event.key.length === 1
+        ? event.key.toUpperCase()
+        : event.key;
+
+  const parts: string[] = [];
+  if (isMac() ? event.metaKey : event.ctrlKey) parts.push('Mod');
+  if (isMac() && event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/**
+ * Display form of a binding, e.g. "⌘⇧Z" on macOS and "Ctrl+Shift+Z" elsewhere
+ */
+export function formatShortcut(binding: string): string {
+  if (!binding) return '';
+  const parts = binding.split('+');
+  if (isMac()) {
+    const symbols: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+    return parts.map((part) => symbols[part] ?? part).join('');
+  }
+  return parts.map((part) => (part === 'Mod' ? 'Ctrl' : part)).join('+');
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Run handlers for the user's key bindings while the component is mounted
+ */
+export function useShortcuts(handlers: Partial<Record<ShortcutAction, () => void>>): void {
+  const bindings = useShortcutStore((state) => state.bindings);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = eventToShortcut(event);
+      if (!shortcut) return;
+
+      const action = (Object.keys(bindings) as ShortcutAction[]).find(
+        (a) => bindings[a] === shortcut
+      );
+      const handler = action && handlersRef.current[action];
+      if (!action || !handler) return;
+      if (NATIVE_IN_INPUTS.includes(action) && isEditable(event.target)) return;
+
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings]);
+}
@@ -0,0 +1,258 @@
+import {
+  ApiDocument,
+  CommandAction,
+  ComponentKind,
+  DocumentCollection,
+  DocumentPatch,
+  DOCUMENT_COLLECTIONS,
+  DOCUMENT_FIELDS,
+  NodeId,
+  ParameterOrRef,
+  Route,
+  isComponentRef,
+  resolveComponent,
+  findPathItem,
+} from './types';
+
+const COMPONENT_LABELS: Record<ComponentKind, string> = {
+  responses: 'response',
+  parameters: 'parameter',
+  requestBodies: 'request body',
+  headers: 'header',
+};
+
+/**
+ * Work out which top-level parts of a document changed, as a patch that
+ * turns `before` into `after` and its inverse.
+ */
+export function computePatch(
+  before: ApiDocument,
+  after: ApiDocument
+): { patch: DocumentPatch; inverse: DocumentPatch } {
+  const patch: DocumentPatch = { entries: [], fields: [] };
+  const inverse: DocumentPatch = { entries: [], fields: [] };
+
+  for (const collection of DOCUMENT_COLLECTIONS) {
+    const from = before[collection] as Map<NodeId, unknown>;
+    const to = after[collection] as Map<NodeId, unknown>;
+    if (from === to) continue;
+
+    const ids = new Set([...from.keys(), ...to.keys()]);
+    for (const id of ids) {
+      const oldValue = from.get(id);
+      const newValue = to.get(id);
+      if (!deepEqual(oldValue, newValue)) {
+        patch.entries.push({ collection, id, value: newValue ?? null });
+        inverse.entries.push({ collection, id, value: oldValue ?? null });
+      }
+    }
+
+    const fromOrder = Array.from(from.keys());
+    const toOrder = Array.from(to.keys());
+    if (!deepEqual(fromOrder, toOrder)) {
+      patch.order = { ...patch.order, [collection]: toOrder };
+      inverse.order = { ...inverse.order, [collection]: fromOrder };
+    }
+  }
+
+  for (const field of DOCUMENT_FIELDS) {
+    if (!deepEqual(before[field], after[field])) {
+      patch.fields.push({ field, value: after[field] });
+      inverse.fields.push({ field, value: before[field] });
+    }
+  }
+
+  return { patch, inverse };
+}
+
+/**
+ * Apply a patch to a document, returning a new document. Collections the
+ * patch does not touch are shared with the input.
+ */
+export function applyPatch(doc: ApiDocument, patch: DocumentPatch): ApiDocument {
+  const result: ApiDocument = { ...doc };
+  const touched = new Set<DocumentCollection>([
+    ...patch.entries.map((e) => e.collection),
+    ...(Object.keys(patch.order ?? {}) as DocumentCollection[]),
+  ]);
+
+  for (const collection of touched) {
+    const map = new Map(doc[collection] as Map<NodeId, unknown>);
+    for (const entry of patch.entries.filter((e) => e.collection === collection)) {
+      if (entry.value === null) {
+        map.delete(entry.id);
+      } else {
+        map.set(entry.id, entry.value);
+      }
+    }
+
+    const order = patch.order?.[collection];
+    const ordered = order
+      ? new Map([
+          ...order.filter((id) => map.has(id)).map((id) => [id, map.get(id)] as const),
+          ...Array.from(map.entries()).filter(([id]) => !order.includes(id)),
+        ])
+      : map;
+    (result as unknown as Record<DocumentCollection, Map<NodeId, unknown>>)[collection] = ordered;
+  }
+
+  for (const { field, value } of patch.fields) {
+    (result as unknown as Record<string, unknown>)[field] = value;
+  }
+
+  return result;
+}
+
+export function isEmptyPatch(patch: DocumentPatch): boolean {
+  return patch.entries.length === 0 && patch.fields.length === 0 && !patch.order;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (a instanceof Map || b instanceof Map) {
+    if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) return false;
+    const bKeys = Array.from(b.keys());
+    return Array.from(a.entries()).every(
+      ([key, value], i) => bKeys[i] === key && deepEqual(value, b.get(key))
+    );
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!(Array.isArray(a) && Array.isArray(b)) || a.length !== b.length) return false;
+    return a.every((value, i) => deepEqual(value, b[i]));
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!deepEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+function routeLabel(route: Route | undefined): string {
+  return route ? `${route.method.toUpperCase()} ${route.path}` : 'a route';
+}
+
+function parameterName(doc: ApiDocument, params: ParameterOrRef[] | undefined, paramId: NodeId): string {
+  const param = params?.find((p) => (isComponentRef(p) ? p.targetId : p.id) === paramId);
+  return (param && resolveComponent(doc, param)?.name) || 'parameter';
+}
+
+function schemaLabel(doc: ApiDocument, id: NodeId): string {
+  return doc.schemas.get(id)?.name || 'unnamed schema';
+}
+
+/**
+ * Human-readable summary of a store command, e.g. "Added field email to User".
+ * Names are looked up in the document as it was before the command, falling
+ * back to the document after it for things the command created.
+ */
+export function describeCommand(
+  { type, payload: p }: CommandAction,
+  before: ApiDocument,
+  after: ApiDocument
+): string {
+  const route = (id: NodeId) => routeLabel(before.routes.get(id) ?? after.routes.get(id));
+
+  switch (type) {
+    case 'IMPORT_DOCUMENT':
+      return `Replaced the document with "${after.info.title}"`;
+    case 'EDIT_SOURCE':
+      return 'Edited the source';
+    case 'MERGE_DOCUMENT':
+      return `Merged an updated spec of "${after.info.title}"`;
+    case 'UPDATE_INFO':
+      return `Updated API ${Object.keys(p).join(', ')}`;
+    case 'SET_OPENAPI_VERSION':
+      return `Switched to OpenAPI ${p.version}`;
+
+    case 'ADD_SCHEMA':
+      return `Added schema ${p.name || 'unnamed schema'}`;
+    case 'UPDATE_SCHEMA':
+      return p.updates.name !== undefined && p.updates.name !== before.schemas.get(p.id)?.name
+        ? `Renamed schema ${schemaLabel(before, p.id)} to ${p.updates.name}`
+        : `Updated schema ${schemaLabel(before, p.id)}`;
+    case 'DELETE_SCHEMA':
+      return `Deleted schema ${schemaLabel(before, p.id)}`;
+    case 'ADD_FIELD':
+      return `Added field ${p.field.name} to ${schemaLabel(before, p.schemaId)}`;
+    case 'UPDATE_FIELD':
+      return p.updates.name !== undefined && p.updates.name !== p.fieldName
+        ? `Renamed field ${p.fieldName} to ${p.updates.name} in ${schemaLabel(before, p.schemaId)}`
+        : `Updated field ${p.fieldName} in ${schemaLabel(before, p.schemaId)}`;
+    case 'DELETE_FIELD':
+      return `Removed field ${p.fieldName} from ${schemaLabel(before, p.schemaId)}`;
+
+    case 'ADD_ROUTE':
+      return `Added route ${routeLabel(p)}`;
+    case 'UPDATE_ROUTE': {
+      const from = routeLabel(before.routes.get(p.id));
+      const to = routeLabel(after.routes.get(p.id));
+      return from !== to ? `Moved route ${from} to ${to}` : `Updated route ${to}`;
+    }
+    case 'DELETE_ROUTE':
+      return `Deleted route ${route(p.id)}`;
+    case 'ADD_PARAMETER':
+      return `Added parameter ${resolveComponent(after, p.param)?.name || 'parameter'} to ${route(p.routeId)}`;
+    case 'UPDATE_PARAMETER':
+      return `Updated parameter ${parameterName(before, before.routes.get(p.routeId)?.parameters, p.paramId)} on ${route(p.routeId)}`;
+    case 'DELETE_PARAMETER':
+      return `Removed parameter ${parameterName(before, before.routes.get(p.routeId)?.parameters, p.paramId)} from ${route(p.routeId)}`;
+    case 'SET_REQUEST_BODY':
+      return p.body ? `Set request body of ${route(p.routeId)}` : `Removed request body from ${route(p.routeId)}`;
+    case 'ADD_RESPONSE':
+      return `Added response ${p.statusCode} to ${route(p.routeId)}`;
+    case 'UPDATE_RESPONSE':
+      return `Updated response ${p.statusCode} of ${route(p.routeId)}`;
+    case 'DELETE_RESPONSE':
+      return `Removed response ${p.statusCode} from ${route(p.routeId)}`;
+
+    case 'UPDATE_PATH_ITEM':
+      return `Updated path ${p.path}`;
+    case 'ADD_PATH_PARAMETER':
+      return `Shared parameter ${resolveComponent(after, p.param)?.name || 'parameter'} on path ${p.path}`;
+    case 'UPDATE_PATH_PARAMETER':
+      return `Updated shared parameter ${parameterName(before, findPathItem(before, p.path)?.parameters, p.paramId)} on path ${p.path}`;
+    case 'DELETE_PATH_PARAMETER':
+      return `Removed shared parameter ${parameterName(before, findPathItem(before, p.path)?.parameters, p.paramId)} from path ${p.path}`;
+
+    case 'ADD_COMPONENT':
+      return `Added ${COMPONENT_LABELS[p.kind]} ${p.component.name}`;
+    case 'UPDATE_COMPONENT': {
+      const name = before[p.kind].get(p.id)?.name;
+      return p.updates.name !== undefined && p.updates.name !== name
+        ? `Renamed ${COMPONENT_LABELS[p.kind]} ${name} to ${p.updates.name}`
+        : `Updated ${COMPONENT_LABELS[p.kind]} ${name}`;
+    }
+    case 'DELETE_COMPONENT': {
+      const name = before[p.kind].get(p.id)?.name;
+      return `Deleted ${COMPONENT_LABELS[p.kind]} ${name}`;
+    }
+
+    case 'ADD_SERVER':
+      return `Added server ${p.url}`;
+    case 'UPDATE_SERVER':
+      return `Updated server ${p.server.url}`;
+    case 'DELETE_SERVER':
+      return `Removed server ${before.servers[p.index]?.url ?? ''}`.trim();
+
+    case 'ADD_SECURITY_SCHEME':
+      return `Added security scheme ${p.name}`;
+    case 'UPDATE_SECURITY_SCHEME':
+      return `Updated security scheme ${before.securitySchemes.get(p.id)?.name ?? ''}`.trim();
+    case 'DELETE_SECURITY_SCHEME':
+      return `Deleted security scheme ${before.securitySchemes.get(p.id)?.name ?? ''}`.trim();
+    case 'SET_SECURITY':
+      return 'Changed default security';
+    case 'SET_ROUTE_SECURITY':
+      return `Changed security of ${route(p.routeId)}`;
+
+    case 'ADD_TAG':
+      return `Added tag ${p.name}`;
+    case 'DELETE_TAG':
+      return `Removed tag ${p.name}`;
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { diffDocuments } from './diff';
+import { parseYaml } from './parser';
+
+const CURRENT = `
+openapi: 3.0.3
+info: {title: Pets, version: '2'}
+paths:
+  /pets:
+    get:
+      responses:
+        '200': {description: OK}
+`;
+
+describe('diffDocuments', () => {
+  it('classifies a removed schema by whether an operation used it', () => {
+    const base = parseYaml(`
+openapi: 3.0.3
+info: {title: Pets, version: '1'}
+paths:
+  /pets:
+    get:
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: {$ref: '#/components/schemas/Pet'}
+components:
+  schemas:
+    Pet: {type: object}
+    Unused: {type: object}
+`).document!;
+    const target = parseYaml(CURRENT).document!;
+
+    const removed = diffDocuments(base, target).changes.filter((c) => c.message === 'Schema was removed');
+
+    expect(removed.map((c) => [c.location, c.severity])).toEqual([
+      ['Schema Pet', 'breaking'],
+      ['Schema Unused', 'non-breaking'],
+    ]);
+  });
+
+  it('compares against a Swagger 2.0 baseline', () => {
+    const base = parseYaml(`
+swagger: 2.0
+info: {title: Pets, version: '1'}
+paths:
+  /pets:
+    get:
+      responses:
+        '200': {description: OK}
+  /owners:
+    get:
+      responses:
+        '200': {description: OK}
+`).document!;
+    const target = parseYaml(CURRENT).document!;
+
+    expect(diffDocuments(base, target).changes).toMatchObject([
+      { category: 'route', location: 'GET /owners', message: 'Operation was removed', severity: 'breaking' },
+    ]);
+  });
+});
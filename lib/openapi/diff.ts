@@ -0,0 +1,537 @@
+import {
+  ApiDocument,
+  SchemaNode,
+  SchemaOrRef,
+  Route,
+  ParameterDef,
+  MediaType,
+  resolveComponent,
+  getEffectiveParameters,
+} from './types';
+
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export type ChangeCategory = 'route' | 'parameter' | 'requestBody' | 'response' | 'schema';
+
+export interface ApiChange {
+  severity: ChangeSeverity;
+  category: ChangeCategory;
+  // Operation ("GET /pets/{id}") or schema ("Schema Pet") the change belongs to
+  location: string;
+  message: string;
+}
+
+export interface ApiDiff {
+  changes: ApiChange[];
+  breaking: number;
+  nonBreaking: number;
+}
+
+// Whether a schema is sent by clients, received by them, or both. A change
+// breaks clients if it breaks any direction the schema is used in
+interface Usage {
+  request: boolean;
+  response: boolean;
+}
+
+const REQUEST: Usage = { request: true, response: false };
+const RESPONSE: Usage = { request: false, response: true };
+const BOTH: Usage = { request: true, response: true };
+
+interface DiffContext {
+  base: ApiDocument;
+  target: ApiDocument;
+  changes: ApiChange[];
+}
+
+/**
+ * Structural diff from `base` (the older version) to `target`. Operations are
+ * matched by method and path and schemas by name, so documents with unrelated
+ * NodeIds compare cleanly.
+ */
+export function diffDocuments(base: ApiDocument, target: ApiDocument): ApiDiff {
+  const ctx: DiffContext = { base, target, changes: [] };
+
+  diffRoutes(ctx);
+  diffSchemas(ctx);
+
+  const breaking = ctx.changes.filter((c) => c.severity === 'breaking').length;
+  return {
+    changes: ctx.changes,
+    breaking,
+    nonBreaking: ctx.changes.length - breaking,
+  };
+}
+
+/**
+ * Render a diff as a Markdown changelog, breaking changes first.
+ */
+export function diffToMarkdown(diff: ApiDiff, fromLabel: string, toLabel: string): string {
+  const lines = [`# Changes from ${fromLabel} to ${toLabel}`, ''];
+
+  if (diff.changes.length === 0) {
+    lines.push('No changes.', '');
+    return lines.join('\n');
+  }
+
+  const sections: [string, ChangeSeverity][] = [
+    ['Breaking changes', 'breaking'],
+    ['Non-breaking changes', 'non-breaking'],
+  ];
+  for (const [title, severity] of sections) {
+    const changes = diff.changes.filter((c) => c.severity === severity);
+    if (changes.length === 0) continue;
+    lines.push(`## ${title} (${changes.length})`, '');
+    for (const change of changes) {
+      lines.push(`- **${escapeMarkdown(change.location)}**: ${escapeMarkdown(change.message)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+}
+
+function record(
+  ctx: DiffContext,
+  category: ChangeCategory,
+  location: string,
+  message: string,
+  breaking: boolean
+) {
+  ctx.changes.push({
+    severity: breaking ? 'breaking' : 'non-breaking',
+    category,
+    location,
+    message,
+  });
+}
+
+// A change is breaking when it breaks a direction the schema is used in
+function breaks(usage: Usage, rule: Usage): boolean {
+  return (usage.request && rule.request) || (usage.response && rule.response);
+}
+
+// Path parameters are matched by position, so /pets/{id} and /pets/{petId} are the same path
+function routeKey(route: Route): string {
+  return `${route.method} ${route.path.replace(/\{[^}]+\}/g, '{}')}`;
+}
+
+function routeLabel(route: Route): string {
+  return `${route.method.toUpperCase()} ${route.path}`;
+}
+
+function diffRoutes(ctx: DiffContext) {
+  const before = new Map(Array.from(ctx.base.routes.values(), (r) => [routeKey(r), r]));
+  const after = new Map(Array.from(ctx.target.routes.values(), (r) => [routeKey(r), r]));
+
+  for (const [key, route] of before) {
+    if (!after.has(key)) {
+      record(ctx, 'route', routeLabel(route), 'Operation was removed', true);
+    }
+  }
+
+  for (const [key, route] of after) {
+    const old = before.get(key);
+    if (!old) {
+      record(ctx, 'route', routeLabel(route), 'Operation was added', false);
+      continue;
+    }
+
+    const location = routeLabel(route);
+    if (route.deprecated && !old.deprecated) {
+      record(ctx, 'route', location, 'Operation was deprecated', false);
+    }
+    if (old.operationId !== route.operationId) {
+      record(
+        ctx,
+        'route',
+        location,
+        `operationId changed from "${old.operationId ?? ''}" to "${route.operationId ?? ''}"`,
+        false
+      );
+    }
+
+    diffParameters(ctx, old, route, location);
+    diffRequestBody(ctx, old, route, location);
+    diffResponses(ctx, old, route, location);
+  }
+}
+
+function effectiveParameters(doc: ApiDocument, route: Route): Map<string, ParameterDef> {
+  const result = new Map<string, ParameterDef>();
+  for (const { parameter } of getEffectiveParameters(doc, route)) {
+    const resolved = resolveComponent(doc, parameter);
+    if (resolved) {
+      // Path parameter names may be renamed freely, so they are matched by position
+      const key =
+        resolved.in === 'path'
+          ? `path:${pathPlaceholders(route.path).indexOf(resolved.name)}`
+          : `${resolved.in}:${resolved.name}`;
+      result.set(key, resolved);
+    }
+  }
+  return result;
+}
+
+function pathPlaceholders(path: string): string[] {
+  return Array.from(path.matchAll(/\{([^}]+)\}/g), (m) => m[1]);
+}
+
+function diffParameters(ctx: DiffContext, old: Route, route: Route, location: string) {
+  const before = effectiveParameters(ctx.base, old);
+  const after = effectiveParameters(ctx.target, route);
+
+  for (const [key, param] of before) {
+    if (!after.has(key)) {
+      record(ctx, 'parameter', location, `${param.in} parameter "${param.name}" was removed`, true);
+    }
+  }
+
+  for (const [key, param] of after) {
+    const previous = before.get(key);
+    const label = `${param.in} parameter "${param.name}"`;
+    if (!previous) {
+      record(
+        ctx,
+        'parameter',
+        location,
+        `${param.required ? 'Required' : 'Optional'} ${label} was added`,
+        param.required
+      );
+      continue;
+    }
+    if (param.required && !previous.required) {
+      record(ctx, 'parameter', location, `${label} became required`, true);
+    } else if (!param.required && previous.required) {
+      record(ctx, 'parameter', location, `${label} became optional`, false);
+    }
+    compareSchemaOrRef(ctx, previous.schema, param.schema, REQUEST, 'parameter', location, label);
+  }
+}
+
+function diffRequestBody(ctx: DiffContext, old: Route, route: Route, location: string) {
+  const before = old.requestBody && resolveComponent(ctx.base, old.requestBody);
+  const after = route.requestBody && resolveComponent(ctx.target, route.requestBody);
+
+  if (!before && !after) return;
+  if (before && !after) {
+    record(ctx, 'requestBody', location, 'Request body was removed', true);
+    return;
+  }
+  if (!before && after) {
+    record(
+      ctx,
+      'requestBody',
+      location,
+      `${after.required ? 'Required' : 'Optional'} request body was added`,
+      after.required
+    );
+    return;
+  }
+
+  if (after!.required && !before!.required) {
+    record(ctx, 'requestBody', location, 'Request body became required', true);
+  }
+  diffContent(ctx, before!.content, after!.content, REQUEST, 'requestBody', location, 'Request body');
+}
+
+function diffResponses(ctx: DiffContext, old: Route, route: Route, location: string) {
+  for (const [status] of old.responses) {
+    if (!route.responses.has(status)) {
+      record(ctx, 'response', location, `Response ${status} was removed`, true);
+    }
+  }
+
+  for (const [status, response] of route.responses) {
+    const previous = old.responses.get(status);
+    if (!previous) {
+      record(ctx, 'response', location, `Response ${status} was added`, false);
+      continue;
+    }
+
+    const before = resolveComponent(ctx.base, previous);
+    const after = resolveComponent(ctx.target, response);
+    if (!before || !after) continue;
+
+    const label = `Response ${status}`;
+    diffContent(ctx, before.content, after.content, RESPONSE, 'response', location, label);
+
+    for (const name of before.headers?.keys() ?? []) {
+      if (!after.headers?.has(name)) {
+        record(ctx, 'response', location, `${label} header "${name}" was removed`, true);
+      }
+    }
+    for (const name of after.headers?.keys() ?? []) {
+      if (!before.headers?.has(name)) {
+        record(ctx, 'response', location, `${label} header "${name}" was added`, false);
+      }
+    }
+  }
+}
+
+function diffContent(
+  ctx: DiffContext,
+  before: Map<string, MediaType> | undefined,
+  after: Map<string, MediaType> | undefined,
+  usage: Usage,
+  category: ChangeCategory,
+  location: string,
+  label: string
+) {
+  for (const [mediaType] of before ?? []) {
+    if (!after?.has(mediaType)) {
+      record(ctx, category, location, `${label} no longer supports ${mediaType}`, true);
+    }
+  }
+  for (const [mediaType, media] of after ?? []) {
+    const previous = before?.get(mediaType);
+    if (!previous) {
+      record(ctx, category, location, `${label} now supports ${mediaType}`, false);
+      continue;
+    }
+    const pointer = (before?.size ?? 0) > 1 ? `${label} (${mediaType})` : label;
+    compareSchemaOrRef(ctx, previous.schema, media.schema, usage, category, location, pointer);
+  }
+}
+
+function diffSchemas(ctx: DiffContext) {
+  const before = namedSchemas(ctx.base);
+  const after = namedSchemas(ctx.target);
+  const usage = schemaUsage(ctx.target);
+  const baseUsage = schemaUsage(ctx.base);
+
+  // Removing a schema only breaks clients if an operation used it
+  for (const [name] of before) {
+    if (!after.has(name)) {
+      const used = baseUsage.get(name) ?? { request: false, response: false };
+      record(ctx, 'schema', `Schema ${name}`, 'Schema was removed', breaks(used, BOTH));
+    }
+  }
+
+  for (const [name, schema] of after) {
+    const previous = before.get(name);
+    if (!previous) {
+      record(ctx, 'schema', `Schema ${name}`, 'Schema was added', false);
+      continue;
+    }
+    // Changes to schemas no operation uses cannot break clients
+    const used = usage.get(name) ?? { request: false, response: false };
+    compareSchemaNode(ctx, previous, schema, used, 'schema', `Schema ${name}`, '');
+  }
+}
+
+function namedSchemas(doc: ApiDocument): Map<string, SchemaNode> {
+  const result = new Map<string, SchemaNode>();
+  for (const schema of doc.schemas.values()) {
+    if (schema.name) {
+      result.set(schema.name, schema);
+    }
+  }
+  return result;
+}
+
+// Work out, for every named schema, whether it is reachable from request or response content
+function schemaUsage(doc: ApiDocument): Map<string, Usage> {
+  const usage = new Map<string, Usage>();
+
+  const visit = (value: SchemaOrRef | undefined, direction: keyof Usage) => {
+    if (!value) return;
+    if (value.kind === 'ref') {
+      const schema = doc.schemas.get(value.targetId);
+      if (!schema?.name) return;
+      const entry = usage.get(schema.name) ?? { request: false, response: false };
+      if (entry[direction]) return;
+      entry[direction] = true;
+      usage.set(schema.name, entry);
+      visitNode(schema, direction);
+    } else {
+      visitNode(value.schema, direction);
+    }
+  };
+
+  const visitNode = (schema: SchemaNode, direction: keyof Usage) => {
+    for (const property of schema.properties?.values() ?? []) {
+      visit(property.schema, direction);
+    }
+    visit(schema.items, direction);
+    for (const variant of schema.variants ?? []) {
+      visit(variant, direction);
+    }
+  };
+
+  for (const route of doc.routes.values()) {
+    for (const { parameter } of getEffectiveParameters(doc, route)) {
+      visit(resolveComponent(doc, parameter)?.schema, 'request');
+    }
+    const body = route.requestBody && resolveComponent(doc, route.requestBody);
+    for (const media of body?.content.values() ?? []) {
+      visit(media.schema, 'request');
+    }
+    for (const response of route.responses.values()) {
+      const resolved = resolveComponent(doc, response);
+      for (const media of resolved?.content?.values() ?? []) {
+        visit(media.schema, 'response');
+      }
+      for (const header of resolved?.headers?.values() ?? []) {
+        visit(resolveComponent(doc, header)?.schema, 'response');
+      }
+    }
+  }
+
+  return usage;
+}
+
+function schemaName(doc: ApiDocument, value: SchemaOrRef): string | undefined {
+  return value.kind === 'ref' ? doc.schemas.get(value.targetId)?.name : undefined;
+}
+
+function resolveSchema(doc: ApiDocument, value: SchemaOrRef): SchemaNode | undefined {
+  return value.kind === 'ref' ? doc.schemas.get(value.targetId) : value.schema;
+}
+
+function describe(pointer: string): string {
+  return pointer ? `${pointer}: ` : '';
+}
+
+function compareSchemaOrRef(
+  ctx: DiffContext,
+  before: SchemaOrRef | undefined,
+  after: SchemaOrRef | undefined,
+  usage: Usage,
+  category: ChangeCategory,
+  location: string,
+  pointer: string
+) {
+  if (!before || !after) return;
+
+  // Named schemas are diffed once on their own, so two refs only compare names
+  if (before.kind === 'ref' && after.kind === 'ref') {
+    const from = schemaName(ctx.base, before);
+    const to = schemaName(ctx.target, after);
+    if (from !== to) {
+      record(ctx, category, location, `${describe(pointer)}type changed from ${from} to ${to}`, breaks(usage, BOTH));
+    }
+    return;
+  }
+
+  const from = resolveSchema(ctx.base, before);
+  const to = resolveSchema(ctx.target, after);
+  if (from && to) {
+    compareSchemaNode(ctx, from, to, usage, category, location, pointer);
+  }
+}
+
+function compareSchemaNode(
+  ctx: DiffContext,
+  before: SchemaNode,
+  after: SchemaNode,
+  usage: Usage,
+  category: ChangeCategory,
+  location: string,
+  pointer: string
+) {
+  const prefix = describe(pointer);
+  const report = (message: string, rule: Usage) =>
+    record(ctx, category, location, `${prefix}${message}`, breaks(usage, rule));
+
+  if (before.type !== after.type) {
+    report(`type changed from ${before.type} to ${after.type}`, BOTH);
+    return;
+  }
+
+  if ((before.format ?? '') !== (after.format ?? '')) {
+    report(`format changed from "${before.format ?? 'none'}" to "${after.format ?? 'none'}"`, BOTH);
+  }
+  if (before.nullable && !after.nullable) {
+    report('no longer nullable', REQUEST);
+  } else if (!before.nullable && after.nullable) {
+    report('became nullable', RESPONSE);
+  }
+
+  // Narrowing what is accepted breaks senders; widening what is returned breaks receivers
+  const removedValues = (before.enumValues ?? []).filter((v) => !after.enumValues?.includes(v));
+  const addedValues = (after.enumValues ?? []).filter((v) => !before.enumValues?.includes(v));
+  if (removedValues.length > 0) {
+    report(`enum narrowed, removed ${removedValues.map((v) => `"${v}"`).join(', ')}`, REQUEST);
+  }
+  if (addedValues.length > 0) {
+    report(`enum widened, added ${addedValues.map((v) => `"${v}"`).join(', ')}`, RESPONSE);
+  }
+
+  compareBound(before.minimum, after.minimum, 'minimum', 'lower', report);
+  compareBound(before.minLength, after.minLength, 'minLength', 'lower', report);
+  compareBound(before.maximum, after.maximum, 'maximum', 'upper', report);
+  compareBound(before.maxLength, after.maxLength, 'maxLength', 'upper', report);
+  if ((before.pattern ?? '') !== (after.pattern ?? '')) {
+    report(`pattern changed to ${after.pattern ? `"${after.pattern}"` : 'none'}`, after.pattern ? BOTH : RESPONSE);
+  }
+
+  const join = (name: string) => (pointer ? `${pointer}.${name}` : name);
+  for (const [name, property] of before.properties ?? []) {
+    if (!after.properties?.has(name)) {
+      record(ctx, category, location, `Property "${join(name)}" was removed`, breaks(usage, RESPONSE));
+      continue;
+    }
+    const next = after.properties.get(name)!;
+    if (next.required && !property.required) {
+      record(ctx, category, location, `Property "${join(name)}" became required`, breaks(usage, REQUEST));
+    } else if (!next.required && property.required) {
+      record(ctx, category, location, `Property "${join(name)}" became optional`, breaks(usage, RESPONSE));
+    }
+    compareSchemaOrRef(ctx, property.schema, next.schema, usage, category, location, join(name));
+  }
+  for (const [name, property] of after.properties ?? []) {
+    if (!before.properties?.has(name)) {
+      record(
+        ctx,
+        category,
+        location,
+        `${property.required ? 'Required' : 'Optional'} property "${join(name)}" was added`,
+        property.required && breaks(usage, REQUEST)
+      );
+    }
+  }
+
+  compareSchemaOrRef(ctx, before.items, after.items, usage, category, location, `${pointer}[]`);
+
+  const beforeVariants = before.variants ?? [];
+  const afterVariants = after.variants ?? [];
+  if (afterVariants.length < beforeVariants.length) {
+    report(`${before.type} lost ${beforeVariants.length - afterVariants.length} variant(s)`, REQUEST);
+  } else if (afterVariants.length > beforeVariants.length) {
+    report(`${after.type} gained ${afterVariants.length - beforeVariants.length} variant(s)`, RESPONSE);
+  }
+  for (let i = 0; i < Math.min(beforeVariants.length, afterVariants.length); i++) {
+    compareSchemaOrRef(
+      ctx,
+      beforeVariants[i],
+      afterVariants[i],
+      usage,
+      category,
+      location,
+      join(`${before.type}[${i}]`)
+    );
+  }
+}
+
+function compareBound(
+  before: number | undefined,
+  after: number | undefined,
+  name: string,
+  side: 'lower' | 'upper',
+  report: (message: string, rule: Usage) => void
+) {
+  if (before === after) return;
+  // A tighter bound narrows accepted values; a looser one widens returned values
+  const tightened =
+    after !== undefined &&
+    (before === undefined || (side === 'lower' ? after > before : after < before));
+  report(
+    after === undefined ? `${name} ${before} was removed` : `${name} changed to ${after}`,
+    tightened ? REQUEST : RESPONSE
+  );
+}
@@ -0,0 +1,306 @@
+import { ApiDocument, NodeId, SchemaNode, SchemaOrRef } from './types';
+import { discriminatorTag } from './instance-validator';
+
+// Sample strings for formats; each matches the pattern the instance validator checks
+const FORMAT_SAMPLES: Record<string, string> = {
+  date: '2024-05-14',
+  'date-time': '2024-05-14T09:30:00Z',
+  time: '09:30:00',
+  email: 'jane.doe@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com/resource',
+  url: 'https://example.com/resource',
+  hostname: 'api.example.com',
+  ipv4: '192.168.0.1',
+  ipv6: '2001:db8::1',
+  byte: 'U3dhZ2dlciByb2Nrcw==',
+  password: 's3cret-passw0rd',
+};
+
+// Sample strings picked by property name when a string has no format; the
+// first entry whose key appears in the lowercased name wins
+const NAME_SAMPLES: [string, string][] = [
+  ['email', 'jane.doe@example.com'],
+  ['firstname', 'Jane'],
+  ['lastname', 'Doe'],
+  ['username', 'janedoe'],
+  ['name', 'Jane Doe'],
+  ['phone', '+1-555-0100'],
+  ['url', 'https://example.com'],
+  ['city', 'Amsterdam'],
+  ['country', 'NL'],
+  ['currency', 'EUR'],
+  ['title', 'Example title'],
+  ['description', 'A short description'],
+  ['token', 'eyJhbGciOiJIUzI1NiJ9'],
+  ['status', 'active'],
+];
+
+/**
+ * Build an example value for a schema of the document. Stated values win:
+ * const, then example, then default, then the first enum value. Otherwise a
+ * value is made up that fits the type and its constraints. A ref back to a
+ * schema that is already being generated is left out, so recursive schemas
+ * end instead of repeating forever.
+ */
+export function generateExample(schema: SchemaOrRef, doc: ApiDocument): unknown {
+  return generateSchemaOrRef(schema, { doc, active: new Set() }, undefined);
+}
+
+interface GenerateContext {
+  doc: ApiDocument;
+  // Schema ids on the current path, the same stack validateReferences walks
+  active: Set<NodeId>;
+}
+
+function generateSchemaOrRef(
+  schemaOrRef: SchemaOrRef,
+  ctx: GenerateContext,
+  name: string | undefined
+): unknown {
+  if (schemaOrRef.kind === 'inline') {
+    return generateSchema(schemaOrRef.schema, ctx, name);
+  }
+  const target = ctx.doc.schemas.get(schemaOrRef.targetId);
+  if (!target || ctx.active.has(target.id)) return undefined;
+  ctx.active.add(target.id);
+  const value = generateSchema(target, ctx, name);
+  ctx.active.delete(target.id);
+  return value;
+}
+
+function generateSchema(schema: SchemaNode, ctx: GenerateContext, name: string | undefined): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enumValues && schema.enumValues.length > 0) return schema.enumValues[0];
+
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of schema.properties ?? []) {
+        const value = generateSchemaOrRef(property.schema, ctx, key);
+        if (value !== undefined) result[key] = value;
+      }
+      return result;
+    }
+
+    case 'array': {
+      if (!schema.items) return [];
+      const item = generateSchemaOrRef(schema.items, ctx, name);
+      return item === undefined ? [] : [item];
+    }
+
+    case 'allOf': {
+      // Object parts are merged; anything else takes the last part that produced a value
+      let merged: unknown;
+      for (const variant of schema.variants ?? []) {
+        const value = generateSchemaOrRef(variant, ctx, name);
+        if (value === undefined) continue;
+        merged = isPlainObject(merged) && isPlainObject(value) ? { ...merged, ...value } : value;
+      }
+      return merged;
+    }
+
+    case 'anyOf':
+    case 'oneOf':
+      return generateVariant(schema, ctx, name);
+
+    case 'enum':
+      return 'string';
+
+    case 'string':
+      return generateString(schema, name);
+
+    case 'integer':
+    case 'number':
+      return generateNumber(schema);
+
+    case 'boolean':
+      return true;
+  }
+}
+
+// The first variant that produces a value, tagged with its discriminator value
+function generateVariant(schema: SchemaNode, ctx: GenerateContext, name: string | undefined): unknown {
+  for (const variant of schema.variants ?? []) {
+    const value = generateSchemaOrRef(variant, ctx, name);
+    if (value === undefined) continue;
+    const propertyName = schema.discriminator?.propertyName;
+    if (propertyName && isPlainObject(value) && variant.kind === 'ref') {
+      const target = ctx.doc.schemas.get(variant.targetId);
+      const tag = target && discriminatorTag(schema, target);
+      if (tag) return { ...value, [propertyName]: tag };
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function generateString(schema: SchemaNode, name: string | undefined): string {
+  if (schema.pattern) {
+    const sample = sampleForPattern(schema.pattern);
+    if (sample !== undefined) return sample;
+  }
+
+  const lowerName = name?.toLowerCase().replace(/[-_]/g, '') ?? '';
+  let value =
+    (schema.format && FORMAT_SAMPLES[schema.format]) ??
+    NAME_SAMPLES.find(([key]) => lowerName.includes(key))?.[1] ??
+    (lowerName.endsWith('id') ? 'abc123' : 'string');
+
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, 'x');
+  }
+  return value;
+}
+
+function generateNumber(schema: SchemaNode): number {
+  const integer = schema.type === 'integer';
+  let value = integer ? 1 : 1.5;
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    value = integer ? Math.ceil(schema.minimum) : schema.minimum;
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    value = integer ? Math.floor(schema.maximum) : schema.maximum;
+  }
+  return value;
+}
+
+/**
+ * Build a string for the common subset of regular expressions: literals,
+ * escapes, character classes, groups with alternation and quantifiers.
+ * Returns undefined when the pattern uses anything else or the sample does
+ * not turn out to match.
+ */
+function sampleForPattern(pattern: string): string | undefined {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'u');
+  } catch {
+    return undefined;
+  }
+
+  let index = 0;
+
+  const parseAlternation = (): string | undefined => {
+    const first = parseSequence();
+    // Only the first alternative is used, but the rest still has to be consumed
+    while (pattern[index] === '|') {
+      index++;
+      if (parseSequence() === undefined) return undefined;
+    }
+    return first;
+  };
+
+  const parseSequence = (): string | undefined => {
+    let result = '';
+    while (index < pattern.length && pattern[index] !== '|' && pattern[index] !== ')') {
+      const atom = parseAtom();
+      if (atom === undefined) return undefined;
+      const count = parseQuantifier();
+      if (count === undefined) return undefined;
+      result += atom.repeat(count);
+    }
+    return result;
+  };
+
+  const parseAtom = (): string | undefined => {
+    const char = pattern[index++];
+    switch (char) {
+      case '^':
+      case '$':
+        return '';
+      case '.':
+        return 'a';
+      case '\\':
+        return escapeSample(pattern[index++]);
+      case '[':
+        return parseClass();
+      case '(': {
+        if (pattern[index] === '?') {
+          // Non-capturing groups are fine; lookarounds and named groups are not
+          if (pattern[index + 1] !== ':') return undefined;
+          index += 2;
+        }
+        const group = parseAlternation();
+        if (pattern[index++] !== ')') return undefined;
+        return group;
+      }
+      case '*':
+      case '+':
+      case '?':
+      case '{':
+        return undefined;
+      default:
+        return char;
+    }
+  };
+
+  const parseClass = (): string | undefined => {
+    if (pattern[index] === '^') return undefined;
+    let sample: string | undefined;
+    while (index < pattern.length && pattern[index] !== ']') {
+      const char = pattern[index++];
+      const value = char === '\\' ? escapeSample(pattern[index++]) : char;
+      if (sample === undefined) sample = value;
+    }
+    if (pattern[index++] !== ']') return undefined;
+    return sample;
+  };
+
+  const parseQuantifier = (): number | undefined => {
+    const char = pattern[index];
+    let count = 1;
+    if (char === '*' || char === '?') {
+      index++;
+      count = 0;
+    } else if (char === '+') {
+      index++;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,\d*)?\}/.exec(pattern.slice(index));
+      if (!match) return undefined;
+      index += match[0].length;
+      count = Number(match[1]);
+    } else {
+      return count;
+    }
+    // Lazy quantifiers make no difference to the minimal sample
+    if (pattern[index] === '?') index++;
+    return count;
+  };
+
+  const sample = parseAlternation();
+  if (sample === undefined || index < pattern.length || !regex.test(sample)) return undefined;
+  return sample;
+}
+
+function escapeSample(char: string | undefined): string | undefined {
+  switch (char) {
+    case undefined:
+      return undefined;
+    case 'd':
+      return '1';
+    case 'w':
+    case 'D':
+    case 'S':
+      return 'a';
+    case 's':
+      return ' ';
+    case 'W':
+      return '-';
+    case 'b':
+    case 'B':
+      return '';
+    default:
+      // Other letters are classes or escapes this sampler does not know
+      return /[a-z]/i.test(char) ? undefined : char;
+  }
+}
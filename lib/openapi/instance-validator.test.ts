@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { validateInstance } from './instance-validator';
+import { parseYaml } from './parser';
+import { ApiDocument, SchemaOrRef } from './types';
+
+function schemaOf(yaml: string): { doc: ApiDocument; schema: SchemaOrRef } {
+  const doc = parseYaml(`
+openapi: 3.0.3
+info: {title: T, version: '1'}
+paths: {}
+components:
+  schemas:
+    S: ${yaml}
+`).document!;
+  const target = Array.from(doc.schemas.values()).find((schema) => schema.name === 'S')!;
+  return { doc, schema: { kind: 'ref', targetId: target.id } };
+}
+
+describe('validateInstance enums', () => {
+  it('accepts members of a string enum and rejects others', () => {
+    const { doc, schema } = schemaOf('{type: string, enum: [a, b]}');
+
+    expect(validateInstance('a', schema, doc)).toEqual([]);
+    expect(validateInstance('c', schema, doc).map((e) => e.message)).toEqual(['"c" is not one of "a", "b"']);
+  });
+
+  it('compares integer and number enums by value', () => {
+    const numbers = schemaOf('{type: integer, enum: [1, 2, 3]}');
+    const decimals = schemaOf('{type: number, enum: [1.5, 2.5]}');
+
+    expect(validateInstance(2, numbers.schema, numbers.doc)).toEqual([]);
+    expect(validateInstance('2', numbers.schema, numbers.doc).map((e) => e.message)).toEqual([
+      '"2" is not one of 1, 2, 3',
+    ]);
+    expect(validateInstance(2.5, decimals.schema, decimals.doc)).toEqual([]);
+    expect(validateInstance(3, decimals.schema, decimals.doc)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,252 @@
+import { ApiDocument, SchemaNode, SchemaOrRef } from './types';
+
+// One way a value fails its schema; path is a JSON Pointer into the value
+export interface InstanceError {
+  path: string;
+  message: string;
+}
+
+// Formats checked for strings; any other format is accepted as-is
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z0-9+.-]*:\S*$/i,
+  ipv4: /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/,
+};
+
+/**
+ * Check a value against a schema of the document, the way a JSON Schema
+ * validator would check an instance. Refs are followed; a ref that leads back
+ * to a schema already being applied to the same value is not followed again.
+ */
+export function validateInstance(value: unknown, schema: SchemaOrRef, doc: ApiDocument): InstanceError[] {
+  const errors: InstanceError[] = [];
+  checkSchemaOrRef(value, schema, '', { doc, errors, active: new Set() });
+  return errors;
+}
+
+interface CheckContext {
+  doc: ApiDocument;
+  errors: InstanceError[];
+  // Schema ids being applied, per value path, to stop ref cycles
+  active: Set<string>;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function deepEqualJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function checkSchemaOrRef(value: unknown, schemaOrRef: SchemaOrRef, path: string, ctx: CheckContext): void {
+  if (schemaOrRef.kind === 'inline') {
+    checkSchema(value, schemaOrRef.schema, path, ctx);
+    return;
+  }
+  const target = ctx.doc.schemas.get(schemaOrRef.targetId);
+  // Broken references are reported by validateReferences
+  if (!target) return;
+  const key = `${schemaOrRef.targetId}@${path}`;
+  if (ctx.active.has(key)) return;
+  ctx.active.add(key);
+  checkSchema(value, target, path, ctx);
+  ctx.active.delete(key);
+}
+
+// Runs a check into its own error list, for compositions that count matches
+function collect(check: (ctx: CheckContext) => void, ctx: CheckContext): InstanceError[] {
+  const errors: InstanceError[] = [];
+  check({ ...ctx, errors });
+  return errors;
+}
+
+function checkSchema(value: unknown, schema: SchemaNode, path: string, ctx: CheckContext): void {
+  const fail = (message: string, at = path) => ctx.errors.push({ path: at, message });
+
+  if (value === null && schema.nullable) return;
+
+  if (schema.const !== undefined && !deepEqualJson(value, schema.const)) {
+    fail(`Expected ${JSON.stringify(schema.const)}`);
+    return;
+  }
+
+  switch (schema.type) {
+    case 'allOf':
+      for (const variant of schema.variants ?? []) {
+        checkSchemaOrRef(value, variant, path, ctx);
+      }
+      return;
+
+    case 'anyOf':
+    case 'oneOf': {
+      const variants = schema.variants ?? [];
+      if (variants.length === 0) return;
+      if (schema.discriminator?.propertyName && jsonType(value) === 'object') {
+        checkDiscriminated(value as Record<string, unknown>, schema, path, ctx);
+        return;
+      }
+      const results = variants.map((variant) =>
+        collect((inner) => checkSchemaOrRef(value, variant, path, inner), ctx)
+      );
+      const matches = results.filter((errors) => errors.length === 0).length;
+      if (matches === 0) {
+        // The closest variant's errors say most about what is wrong
+        const closest = results.reduce((best, errors) => (errors.length < best.length ? errors : best));
+        fail(`Does not match any of the ${schema.type} variants`);
+        ctx.errors.push(...closest);
+      } else if (schema.type === 'oneOf' && matches > 1) {
+        fail(`Matches ${matches} oneOf variants, expected exactly one`);
+      }
+      return;
+    }
+
+    // Values are compared as JSON, since enums of integers, numbers and booleans parse to this type too
+    case 'enum': {
+      const allowed: unknown[] = schema.enumValues ?? [];
+      if (allowed.length > 0 && !allowed.some((option) => deepEqualJson(option, value))) {
+        fail(`${JSON.stringify(value)} is not one of ${allowed.map((v) => JSON.stringify(v)).join(', ')}`);
+      }
+      return;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        fail(`Expected string, got ${jsonType(value)}`);
+        return;
+      }
+      checkString(value, schema, fail);
+      return;
+
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        fail(`Expected ${schema.type}, got ${jsonType(value)}`);
+        return;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        fail(`${value} is less than the minimum of ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        fail(`${value} is greater than the maximum of ${schema.maximum}`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        fail(`Expected boolean, got ${jsonType(value)}`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail(`Expected array, got ${jsonType(value)}`);
+        return;
+      }
+      if (schema.items) {
+        value.forEach((item, index) => checkSchemaOrRef(item, schema.items!, pointer(path, index), ctx));
+      }
+      return;
+
+    case 'object': {
+      if (jsonType(value) !== 'object') {
+        fail(`Expected object, got ${jsonType(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      const required = new Set(schema.required ?? []);
+      for (const [name, property] of schema.properties ?? []) {
+        if (property.required) required.add(name);
+      }
+      for (const name of required) {
+        if (!(name in record)) {
+          fail(`Missing required property "${name}"`);
+        }
+      }
+      for (const [name, property] of schema.properties ?? []) {
+        if (name in record) {
+          checkSchemaOrRef(record[name], property.schema, pointer(path, name), ctx);
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * The value a discriminator property takes for one of the variants: the key
+ * of the mapping entry that points at it, or else the schema name
+ */
+export function discriminatorTag(schema: SchemaNode, target: SchemaNode): string | undefined {
+  if (!target.name) return undefined;
+  const mapped = Object.entries(schema.discriminator?.mapping ?? {}).find(
+    ([, ref]) => ref === target.name || ref.endsWith(`/${target.name}`)
+  );
+  return mapped ? mapped[0] : target.name;
+}
+
+// A discriminator picks the one variant to check, so only its errors are reported
+function checkDiscriminated(
+  record: Record<string, unknown>,
+  schema: SchemaNode,
+  path: string,
+  ctx: CheckContext
+): void {
+  const propertyName = schema.discriminator!.propertyName;
+  const tag = record[propertyName];
+  if (tag === undefined) {
+    ctx.errors.push({ path, message: `Missing discriminator property "${propertyName}"` });
+    return;
+  }
+
+  const tags: string[] = [];
+  for (const variant of schema.variants ?? []) {
+    const target = variant.kind === 'ref' ? ctx.doc.schemas.get(variant.targetId) : undefined;
+    const variantTag = target && discriminatorTag(schema, target);
+    if (!variantTag) continue;
+    if (variantTag === tag) {
+      checkSchemaOrRef(record, variant, path, ctx);
+      return;
+    }
+    tags.push(variantTag);
+  }
+  ctx.errors.push({
+    path: pointer(path, propertyName),
+    message: `${JSON.stringify(tag)} is not one of ${tags.map((t) => `"${t}"`).join(', ')}`,
+  });
+}
+
+function checkString(value: string, schema: SchemaNode, fail: (message: string) => void): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(`Shorter than the minimum length of ${schema.minLength}`);
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    fail(`Longer than the maximum length of ${schema.maxLength}`);
+  }
+  if (schema.pattern) {
+    let pattern: RegExp | undefined;
+    try {
+      pattern = new RegExp(schema.pattern, 'u');
+    } catch {
+      // An invalid pattern is the schema's problem, not the value's
+    }
+    if (pattern && !pattern.test(value)) {
+      fail(`Does not match the pattern ${schema.pattern}`);
+    }
+  }
+  const format = schema.format && FORMAT_PATTERNS[schema.format];
+  if (format && !format.test(value)) {
+    fail(`Not a valid ${schema.format}`);
+  }
+}
+
@@ -3,13 +3,25 @@ import {
   ApiDocument,
   SchemaNode,
   Route,
+  PathItem,
   SchemaOrRef,
   PropertyDef,
   ParameterDef,
+  ParameterOrRef,
   ResponseDef,
+  ResponseOrRef,
   RequestBody,
+  HeaderDef,
+  HeaderOrRef,
+  ComponentKind,
+  ComponentRef,
+  COMPONENT_KINDS,
   MediaType,
+  EncodingDef,
+  EncodingStyle,
+  ExampleDef,
   SecurityScheme,
+  SecurityAlternative,
   Server,
   Tag,
   InfoObject,
@@ -17,9 +29,12 @@ import {
   HttpMethod,
   SchemaType,
   ValidationError,
+  Extensions,
   generateId,
+  isExtensionKey,
   createEmptyDocument,
 } from './types';
+import { convertSwagger2, isSwagger2 } from './swagger2';
 
 interface ParseResult {
   document: ApiDocument | null;
@@ -46,24 +61,57 @@ interface OpenAPISchema {
   servers?: Array<{
     url?: string;
     description?: string;
+    variables?: Record<string, { default?: unknown; enum?: unknown[]; description?: string }>;
   }>;
   paths?: Record<string, Record<string, unknown>>;
   components?: {
     schemas?: Record<string, unknown>;
     securitySchemes?: Record<string, unknown>;
+    responses?: Record<string, unknown>;
+    parameters?: Record<string, unknown>;
+    requestBodies?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
   };
   tags?: Array<{
     name?: string;
     description?: string;
   }>;
+  security?: unknown;
 }
 
 // Map to track schema names to IDs for $ref resolution
 const schemaNameToId = new Map<string, NodeId>();
 
+// Same for the other reusable component kinds
+const componentNameToId: Record<ComponentKind, Map<string, NodeId>> = {
+  responses: new Map(),
+  parameters: new Map(),
+  requestBodies: new Map(),
+  headers: new Map(),
+};
+
+/**
+ * 1-based line of the value at a key path (e.g. ['info', 'title']) in YAML or
+ * JSON source, falling back to the nearest ancestor that exists
+ */
+export function findSourceLine(content: string, path: string[]): number | undefined {
+  const lineCounter = new YAML.LineCounter();
+  const yamlDoc = YAML.parseDocument(content, { lineCounter });
+  for (let depth = path.length; depth > 0; depth--) {
+    const node = yamlDoc.getIn(path.slice(0, depth), true);
+    if (YAML.isNode(node) && node.range) {
+      return lineCounter.linePos(node.range[0]).line;
+    }
+  }
+  return undefined;
+}
+
 export function parseYaml(yamlContent: string): ParseResult {
   const errors: ValidationError[] = [];
   schemaNameToId.clear();
+  for (const kind of COMPONENT_KINDS) {
+    componentNameToId[kind].clear();
+  }
 
   // Parse YAML
   let parsed: OpenAPISchema;
@@ -77,7 +125,7 @@ export function parseYaml(yamlContent: string): ParseResult {
           code: 'YAML_PARSE_ERROR',
           message: `Failed to parse YAML: ${error instanceof Error ? error.message : 'Unknown error'}`,
           severity: 'error',
-          location: {},
+          location: { line: error instanceof YAML.YAMLError ? error.linePos?.[0].line : undefined },
         },
       ],
     };
@@ -97,11 +145,18 @@ export function parseYaml(yamlContent: string): ParseResult {
     };
   }
 
+  // Upgrade Swagger 2.0 documents before building the model
+  if (isSwagger2(parsed)) {
+    const conversion = convertSwagger2(parsed as Record<string, unknown>);
+    parsed = conversion.spec as OpenAPISchema;
+    errors.push(...conversion.report);
+  }
+
   // Validate OpenAPI version
   if (!parsed.openapi || !parsed.openapi.startsWith('3.')) {
     errors.push({
       code: 'INVALID_VERSION',
-      message: `Unsupported OpenAPI version: ${parsed.openapi}. Only OpenAPI 3.x is supported.`,
+      message: `Unsupported OpenAPI version: ${parsed.openapi}. Only OpenAPI 3.x and Swagger 2.0 are supported.`,
       severity: 'error',
       location: { path: ['openapi'] },
     });
@@ -109,6 +164,11 @@ export function parseYaml(yamlContent: string): ParseResult {
 
   // Create document
   const doc = createEmptyDocument();
+  if (parsed.openapi?.startsWith('3.1')) {
+    doc.openapiVersion = '3.1.0';
+  }
+
+  doc.extensions = parseExtensions(parsed as Record<string, unknown>);
 
   // Parse info
   if (parsed.info) {
@@ -124,12 +184,7 @@ export function parseYaml(yamlContent: string): ParseResult {
 
   // Parse servers
   if (parsed.servers && Array.isArray(parsed.servers)) {
-    doc.servers = parsed.servers
-      .filter((s) => s && s.url)
-      .map((s) => ({
-        url: s.url!,
-        description: s.description,
-      }));
+    doc.servers = parseServers(parsed.servers);
   }
 
   // Parse tags
@@ -159,6 +214,39 @@ export function parseYaml(yamlContent: string): ParseResult {
     }
   }
 
+  // Register reusable component names before parsing, since they can reference each other
+  for (const kind of COMPONENT_KINDS) {
+    for (const name of Object.keys(parsed.components?.[kind] || {})) {
+      componentNameToId[kind].set(name, generateId());
+    }
+  }
+
+  // Parse reusable components
+  for (const [name, data] of Object.entries(parsed.components?.headers || {})) {
+    const id = componentNameToId.headers.get(name)!;
+    doc.headers.set(id, { id, name, definition: parseHeader(data, errors) });
+  }
+  for (const [name, data] of Object.entries(parsed.components?.parameters || {})) {
+    const id = componentNameToId.parameters.get(name)!;
+    doc.parameters.set(id, { id, name, definition: parseParameter(data, errors) });
+  }
+  for (const [name, data] of Object.entries(parsed.components?.requestBodies || {})) {
+    const id = componentNameToId.requestBodies.get(name)!;
+    doc.requestBodies.set(id, {
+      id,
+      name,
+      definition: parseRequestBody(data as Record<string, unknown>, errors),
+    });
+  }
+  for (const [name, data] of Object.entries(parsed.components?.responses || {})) {
+    const id = componentNameToId.responses.get(name)!;
+    doc.responses.set(id, {
+      id,
+      name,
+      definition: parseResponse(data as Record<string, unknown>, errors),
+    });
+  }
+
   // Parse security schemes
   if (parsed.components?.securitySchemes) {
     for (const [name, schemeData] of Object.entries(parsed.components.securitySchemes)) {
@@ -167,11 +255,21 @@ export function parseYaml(yamlContent: string): ParseResult {
     }
   }
 
+  // Parse document-level security once scheme names are known
+  if (parsed.security !== undefined) {
+    doc.security = parseSecurity(parsed.security, doc, errors, ['security']);
+  }
+
   // Parse paths
   if (parsed.paths) {
     for (const [path, pathItem] of Object.entries(parsed.paths)) {
       if (!pathItem || typeof pathItem !== 'object') continue;
 
+      const item = parsePathItem(path, pathItem, errors);
+      if (item) {
+        doc.pathItems.set(item.id, item);
+      }
+
       for (const [method, operationData] of Object.entries(pathItem)) {
         if (!isHttpMethod(method)) continue;
         if (!operationData || typeof operationData !== 'object') continue;
@@ -185,6 +283,68 @@ export function parseYaml(yamlContent: string): ParseResult {
   return { document: doc, errors };
 }
 
+// Path-level metadata is only kept when present, so plain paths stay implicit
+function parsePathItem(
+  path: string,
+  data: Record<string, unknown>,
+  errors: ValidationError[]
+): PathItem | undefined {
+  const pathItem: PathItem = {
+    id: generateId(),
+    path,
+    parameters: [],
+  };
+
+  if (data.summary) {
+    pathItem.summary = data.summary as string;
+  }
+  if (data.description) {
+    pathItem.description = data.description as string;
+  }
+  if (Array.isArray(data.servers)) {
+    pathItem.servers = parseServers(data.servers);
+  }
+  if (Array.isArray(data.parameters)) {
+    pathItem.parameters = data.parameters.map((p) => parseParameterOrRef(p, errors));
+  }
+
+  const extensions = parseExtensions(data);
+  if (extensions) {
+    pathItem.extensions = extensions;
+  }
+
+  const hasMetadata =
+    pathItem.summary ||
+    pathItem.description ||
+    pathItem.servers ||
+    pathItem.parameters.length > 0 ||
+    pathItem.extensions;
+  return hasMetadata ? pathItem : undefined;
+}
+
+function parseServers(servers: OpenAPISchema['servers']): Server[] {
+  return (servers || [])
+    .filter((s) => s && s.url)
+    .map((s) => {
+      const server: Server = {
+        url: s.url!,
+        description: s.description,
+      };
+      if (s.variables && typeof s.variables === 'object') {
+        server.variables = {};
+        for (const [name, v] of Object.entries(s.variables)) {
+          if (!v || typeof v !== 'object') continue;
+          server.variables[name] = {
+            default: v.default !== undefined ? String(v.default) : '',
+            ...(Array.isArray(v.enum) && { enum: v.enum.map(String) }),
+            ...(v.description && { description: v.description }),
+          };
+        }
+      }
+      return server;
+    });
+}
+
 function parseInfo(info: OpenAPISchema['info'], errors: ValidationError[]): InfoObject {
   const result: InfoObject = {
     title: info?.title || 'Untitled API',
@@ -229,6 +389,11 @@ function parseInfo(info: OpenAPISchema['info'], errors: ValidationError[]): Info
     };
   }
 
+  const extensions = parseExtensions(info as Record<string, unknown>);
+  if (extensions) {
+    result.extensions = extensions;
+  }
+
   return result;
 }
 
@@ -238,10 +403,23 @@ function parseSchema(
   id: NodeId,
   errors: ValidationError[]
 ): SchemaNode {
-  const schemaData = data as Record<string, unknown>;
+  const schemaData = unwrapNullableAllOf(data) ?? (data as Record<string, unknown>);
+
+  // OpenAPI 3.1 allows type arrays such as [string, 'null']
+  const typeList = Array.isArray(schemaData.type) ? (schemaData.type as string[]) : null;
+  const rawType = typeList ? typeList.find((t) => t !== 'null') : schemaData.type;
+  const nullable = schemaData.nullable === true || (typeList?.includes('null') ?? false);
 
-  // Determine schema type
-  let type: SchemaType = 'object';
+  // A single-value enum on a non-string type is how 3.0 spells const
+  const enumConst =
+    Array.isArray(schemaData.enum) &&
+    schemaData.enum.length === 1 &&
+    rawType !== undefined &&
+    rawType !== 'string';
+  const constValue = schemaData.const !== undefined ? schemaData.const : enumConst ? (schemaData.enum as unknown[])[0] : undefined;
+
+  // Determine schema type; untyped schemas with a const take the const's type
+  let type: SchemaType = rawType === undefined && constValue !== undefined ? typeOfValue(constValue) : 'object';
 
   if (schemaData.oneOf) {
     type = 'oneOf';
@@ -249,17 +427,17 @@ function parseSchema(
     type = 'anyOf';
   } else if (schemaData.allOf) {
     type = 'allOf';
-  } else if (schemaData.enum) {
+  } else if (schemaData.enum && !enumConst) {
     type = 'enum';
-  } else if (schemaData.type === 'array') {
+  } else if (rawType === 'array') {
     type = 'array';
-  } else if (schemaData.type === 'string') {
+  } else if (rawType === 'string') {
     type = 'string';
-  } else if (schemaData.type === 'number') {
+  } else if (rawType === 'number') {
     type = 'number';
-  } else if (schemaData.type === 'integer') {
+  } else if (rawType === 'integer') {
     type = 'integer';
-  } else if (schemaData.type === 'boolean') {
+  } else if (rawType === 'boolean') {
     type = 'boolean';
   }
 
@@ -300,13 +478,23 @@ function parseSchema(
   if (['oneOf', 'anyOf', 'allOf'].includes(type)) {
     const variants = schemaData[type] as unknown[];
     if (Array.isArray(variants)) {
-      schema.variants = variants.map((v) => parseSchemaOrRef(v, errors));
+      // A bare { type: 'null' } variant is the 3.1 spelling of nullable
+      const nullVariant = variants.find(isNullSchema);
+      if (nullVariant) {
+        schema.nullable = true;
+      }
+      schema.variants = variants
+        .filter((v) => v !== nullVariant)
+        .map((v) => parseSchemaOrRef(v, errors));
     }
     if (type === 'oneOf' && schemaData.discriminator) {
       const disc = schemaData.discriminator as Record<string, unknown>;
       schema.discriminator = {
         propertyName: disc.propertyName as string,
       };
+      if (disc.mapping && typeof disc.mapping === 'object') {
+        schema.discriminator.mapping = disc.mapping as Record<string, string>;
+      }
     }
   }
 
@@ -317,9 +505,18 @@ function parseSchema(
   if (schemaData.minLength !== undefined) schema.minLength = schemaData.minLength as number;
   if (schemaData.maxLength !== undefined) schema.maxLength = schemaData.maxLength as number;
   if (schemaData.pattern) schema.pattern = schemaData.pattern as string;
-  if (schemaData.example !== undefined) schema.example = schemaData.example;
+  if (nullable) schema.nullable = true;
+  if (constValue !== undefined) schema.const = constValue;
+  if (schemaData.example !== undefined) {
+    schema.example = schemaData.example;
+  } else if (Array.isArray(schemaData.examples) && schemaData.examples.length > 0) {
+    schema.example = schemaData.examples[0];
+  }
   if (schemaData.default !== undefined) schema.default = schemaData.default;
 
+  const extensions = parseExtensions(schemaData);
+  if (extensions) schema.extensions = extensions;
+
   return schema;
 }
 
@@ -382,6 +579,10 @@ function parseSecurityScheme(
     scheme.paramName = (schemeData.name as string) || 'api_key';
   }
 
+  if (scheme.type === 'oauth2' && schemeData.flows && typeof schemeData.flows === 'object') {
+    scheme.flows = schemeData.flows as SecurityScheme['flows'];
+  }
+
   if (scheme.type === 'openIdConnect') {
     scheme.openIdConnectUrl = schemeData.openIdConnectUrl as string;
   }
@@ -389,6 +590,55 @@ function parseSecurityScheme(
   return scheme;
 }
 
+// Scheme names are resolved to ids. An alternative naming an unknown scheme is
+// dropped whole, since keeping the rest could widen access (`{}` is anonymous)
+function parseSecurity(
+  data: unknown,
+  doc: ApiDocument,
+  errors: ValidationError[],
+  path: string[]
+): SecurityAlternative[] | undefined {
+  if (!Array.isArray(data)) {
+    errors.push({
+      code: 'INVALID_SECURITY',
+      message: 'Security requirements must be an array',
+      severity: 'warning',
+      location: { path },
+    });
+    return undefined;
+  }
+
+  const schemes = Array.from(doc.securitySchemes.values());
+  const alternatives: SecurityAlternative[] = [];
+  for (const entry of data) {
+    if (!entry || typeof entry !== 'object') continue;
+
+    const alternative: SecurityAlternative = [];
+    for (const [name, scopes] of Object.entries(entry as Record<string, unknown>)) {
+      const scheme = schemes.find((s) => s.name === name);
+      if (!scheme) {
+        errors.push({
+          code: 'UNKNOWN_SECURITY_SCHEME',
+          message: `Security requirement references unknown scheme "${name}"`,
+          severity: 'warning',
+          location: { path },
+        });
+        break;
+      }
+      alternative.push({
+        schemeId: scheme.id,
+        scopes: Array.isArray(scopes) ? scopes.map(String) : [],
+      });
+    }
+    if (alternative.length === Object.keys(entry).length) {
+      alternatives.push(alternative);
+    }
+  }
+
+  // Losing every alternative must not turn into an opt-out
+  return alternatives.length === 0 && data.length > 0 ? undefined : alternatives;
+}
+
 function parseOperation(
   path: string,
   method: HttpMethod,
@@ -418,20 +668,34 @@ function parseOperation(
     route.deprecated = true;
   }
 
+  const extensions = parseExtensions(data);
+  if (extensions) {
+    route.extensions = extensions;
+  }
+
+  // An explicit empty array is kept, since it opts out of the document default
+  if (data.security !== undefined) {
+    route.security = parseSecurity(data.security, doc, errors, ['paths', path, method, 'security']);
+  }
+
   // Parse parameters
   if (data.parameters && Array.isArray(data.parameters)) {
-    route.parameters = data.parameters.map((p) => parseParameter(p, errors));
+    route.parameters = data.parameters.map((p) => parseParameterOrRef(p, errors));
   }
 
   // Parse request body
   if (data.requestBody) {
-    route.requestBody = parseRequestBody(data.requestBody as Record<string, unknown>, errors);
+    route.requestBody =
+      parseComponentRef(data.requestBody, 'requestBodies', errors) ??
+      parseRequestBody(data.requestBody as Record<string, unknown>, errors);
   }
 
   // Parse responses
   if (data.responses && typeof data.responses === 'object') {
     for (const [statusCode, responseData] of Object.entries(data.responses)) {
-      const response = parseResponse(responseData as Record<string, unknown>, errors);
+      const response: ResponseOrRef =
+        parseComponentRef(responseData, 'responses', errors) ??
+        parseResponse(responseData as Record<string, unknown>, errors);
       route.responses.set(statusCode, response);
     }
   }
@@ -447,6 +711,48 @@ function parseOperation(
   return route;
 }
 
+function parseComponentRef<K extends ComponentKind>(
+  data: unknown,
+  kind: K,
+  errors: ValidationError[]
+): ComponentRef<K> | null {
+  const refPath = (data as Record<string, unknown> | null)?.$ref;
+  if (typeof refPath !== 'string') return null;
+
+  const match = refPath.match(/^#\/components\/([^/]+)\/(.+)$/);
+  const targetId = match && match[1] === kind ? componentNameToId[kind].get(match[2]) : undefined;
+  if (targetId) {
+    return { kind: 'ref', component: kind, targetId };
+  }
+
+  errors.push({
+    code: 'UNRESOLVED_REF',
+    message: `Unresolved reference: ${refPath}`,
+    severity: 'warning',
+    location: {},
+  });
+  return null;
+}
+
+function parseParameterOrRef(data: unknown, errors: ValidationError[]): ParameterOrRef {
+  return parseComponentRef(data, 'parameters', errors) ?? parseParameter(data, errors);
+}
+
+function parseHeader(data: unknown, errors: ValidationError[]): HeaderDef {
+  const headerData = data as Record<string, unknown>;
+
+  return {
+    id: generateId(),
+    required: (headerData.required as boolean) || false,
+    schema: headerData.schema
+      ? parseSchemaOrRef(headerData.schema, errors)
+      : { kind: 'inline', schema: { id: generateId(), type: 'string' } },
+    description: headerData.description as string | undefined,
+    example: headerData.example,
+    extensions: parseExtensions(headerData),
+  };
+}
+
 function parseParameter(data: unknown, errors: ValidationError[]): ParameterDef {
   const paramData = data as Record<string, unknown>;
 
@@ -460,29 +766,94 @@ function parseParameter(data: unknown, errors: ValidationError[]): ParameterDef
       : { kind: 'inline', schema: { id: generateId(), type: 'string' } },
     description: paramData.description as string | undefined,
     example: paramData.example,
+    examples: parseExamples(paramData.examples, errors),
+    extensions: parseExtensions(paramData),
   };
 }
 
-function parseRequestBody(data: Record<string, unknown>, errors: ValidationError[]): RequestBody {
+function parseContent(data: unknown, errors: ValidationError[]): Map<string, MediaType> {
   const content = new Map<string, MediaType>();
+  if (!data || typeof data !== 'object') {
+    return content;
+  }
+
+  for (const [contentType, mediaData] of Object.entries(data)) {
+    const media = mediaData as Record<string, unknown>;
+    const parsed: MediaType = {
+      schema: media.schema
+        ? parseSchemaOrRef(media.schema, errors)
+        : { kind: 'inline', schema: { id: generateId(), type: 'object' } },
+      example: media.example,
+      examples: parseExamples(media.examples, errors),
+    };
+    if (media.encoding && typeof media.encoding === 'object') {
+      parsed.encoding = new Map(
+        Object.entries(media.encoding).map(([property, encodingData]) => [
+          property,
+          parseEncoding(encodingData as Record<string, unknown>, errors),
+        ])
+      );
+    }
+    content.set(contentType, parsed);
+  }
 
-  if (data.content && typeof data.content === 'object') {
-    for (const [contentType, mediaData] of Object.entries(data.content)) {
-      const media = mediaData as Record<string, unknown>;
-      content.set(contentType, {
-        schema: media.schema
-          ? parseSchemaOrRef(media.schema, errors)
-          : { kind: 'inline', schema: { id: generateId(), type: 'object' } },
-        example: media.example,
+  return content;
+}
+
+function parseExamples(data: unknown, errors: ValidationError[]): Map<string, ExampleDef> | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+
+  const examples = new Map<string, ExampleDef>();
+  for (const [name, exampleData] of Object.entries(data)) {
+    const example = exampleData as Record<string, unknown>;
+    if (typeof example.$ref === 'string') {
+      errors.push({
+        code: 'UNSUPPORTED_EXAMPLE_REF',
+        message: `Example "${name}" references ${example.$ref}; shared examples are not supported and it was dropped`,
+        severity: 'warning',
+        location: {},
       });
+      continue;
+    }
+    examples.set(name, {
+      summary: example.summary as string | undefined,
+      description: example.description as string | undefined,
+      value: example.value,
+      externalValue: example.externalValue as string | undefined,
+    });
+  }
+  return examples.size > 0 ? examples : undefined;
+}
+
+function parseEncoding(data: Record<string, unknown>, errors: ValidationError[]): EncodingDef {
+  const encoding: EncodingDef = {
+    contentType: data.contentType as string | undefined,
+    style: data.style as EncodingStyle | undefined,
+    explode: data.explode as boolean | undefined,
+    allowReserved: data.allowReserved as boolean | undefined,
+  };
+
+  if (data.headers && typeof data.headers === 'object') {
+    encoding.headers = new Map();
+    for (const [name, headerData] of Object.entries(data.headers)) {
+      encoding.headers.set(
+        name,
+        parseComponentRef(headerData, 'headers', errors) ?? parseHeader(headerData, errors)
+      );
     }
   }
 
+  return encoding;
+}
+
+function parseRequestBody(data: Record<string, unknown>, errors: ValidationError[]): RequestBody {
   return {
     id: generateId(),
     description: data.description as string | undefined,
     required: (data.required as boolean) || false,
-    content,
+    content: parseContent(data.content, errors),
   };
 }
 
@@ -490,24 +861,64 @@ function parseResponse(data: Record<string, unknown>, errors: ValidationError[])
   const response: ResponseDef = {
     id: generateId(),
     description: (data.description as string) || 'Response',
+    extensions: parseExtensions(data),
   };
 
   if (data.content && typeof data.content === 'object') {
-    response.content = new Map();
-    for (const [contentType, mediaData] of Object.entries(data.content)) {
-      const media = mediaData as Record<string, unknown>;
-      response.content.set(contentType, {
-        schema: media.schema
-          ? parseSchemaOrRef(media.schema, errors)
-          : { kind: 'inline', schema: { id: generateId(), type: 'object' } },
-        example: media.example,
-      });
+    response.content = parseContent(data.content, errors);
+  }
+
+  if (data.headers && typeof data.headers === 'object') {
+    response.headers = new Map();
+    for (const [name, headerData] of Object.entries(data.headers)) {
+      const header: HeaderOrRef =
+        parseComponentRef(headerData, 'headers', errors) ?? parseHeader(headerData, errors);
+      response.headers.set(name, header);
     }
   }
 
   return response;
 }
 
+function parseExtensions(data: Record<string, unknown>): Extensions | undefined {
+  const extensions: Extensions = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (isExtensionKey(key)) {
+      extensions[key] = value;
+    }
+  }
+  return Object.keys(extensions).length > 0 ? extensions : undefined;
+}
+
+// The schema type that holds a JSON value
+function typeOfValue(value: unknown): SchemaType {
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (Array.isArray(value)) return 'array';
+  return 'object';
+}
+
+// 3.1 output spells a nullable allOf as anyOf: [{ allOf }, { type: 'null' }];
+// the pair is folded back into one nullable allOf schema
+function unwrapNullableAllOf(data: unknown): Record<string, unknown> | undefined {
+  const schemaData = data as Record<string, unknown>;
+  const anyOf = schemaData.anyOf;
+  if (!Array.isArray(anyOf) || anyOf.length !== 2) return undefined;
+  const nullVariant = anyOf.find(isNullSchema);
+  const other = anyOf.find((variant) => variant !== nullVariant) as Record<string, unknown> | undefined;
+  if (!nullVariant || !other || !Array.isArray(other.allOf) || Object.keys(other).length !== 1) {
+    return undefined;
+  }
+  const rest = Object.fromEntries(Object.entries(schemaData).filter(([key]) => key !== 'anyOf'));
+  return { ...rest, allOf: other.allOf, nullable: true };
+}
+
+function isNullSchema(data: unknown): boolean {
+  const schemaData = data as Record<string, unknown> | null;
+  return !!schemaData && schemaData.type === 'null' && Object.keys(schemaData).length === 1;
+}
+
 function isHttpMethod(method: string): method is HttpMethod {
   return ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(method.toLowerCase());
 }
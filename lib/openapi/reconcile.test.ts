@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml } from './parser';
+import { mergeDocuments, reconcileIds } from './reconcile';
+import { ApiDocument } from './types';
+
+const spec = (exampleId: string) => `
+openapi: 3.0.3
+info: {title: Users, version: '1'}
+paths:
+  /users:
+    get:
+      parameters:
+        - name: id
+          in: query
+          schema: {type: string}
+          example: ${exampleId}
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: {$ref: '#/components/schemas/User'}
+              example: {id: ${exampleId}}
+components:
+  schemas:
+    User:
+      type: object
+      properties:
+        id: {type: string}
+      example: {id: ${exampleId}, schemeId: ${exampleId}}
+      default: {targetId: ${exampleId}}
+      x-owner: {id: ${exampleId}}
+`;
+
+function load(exampleId: string): ApiDocument {
+  return parseYaml(spec(exampleId)).document!;
+}
+
+function user(doc: ApiDocument) {
+  return Array.from(doc.schemas.values()).find((schema) => schema.name === 'User')!;
+}
+
+describe('reconcileIds', () => {
+  it('keeps the NodeIds of matching entities', () => {
+    const current = load('user-1');
+    const reconciled = reconcileIds(current, load('user-1'));
+
+    expect(Array.from(reconciled.routes.keys())).toEqual(Array.from(current.routes.keys()));
+    expect(user(reconciled).id).toBe(user(current).id);
+  });
+
+  it('leaves ids inside examples, defaults and extensions alone', () => {
+    const current = load('user-1');
+    // Make the user data collide with real NodeIds of the current document
+    const reconciled = reconcileIds(current, load('user-2'));
+    const route = Array.from(reconciled.routes.values())[0];
+    const response = route.responses.get('200');
+
+    expect(user(reconciled).example).toEqual({ id: 'user-2', schemeId: 'user-2' });
+    expect(user(reconciled).default).toEqual({ targetId: 'user-2' });
+    expect(user(reconciled).extensions).toEqual({ 'x-owner': { id: 'user-2' } });
+    expect(response && 'content' in response && response.content?.get('application/json')?.example).toEqual({
+      id: 'user-2',
+    });
+    expect(route.parameters[0]).toMatchObject({ example: 'user-2' });
+  });
+
+  it('does not rename user data that happens to equal a NodeId', () => {
+    const current = load('user-1');
+    const incoming = load('user-1');
+    // An example whose id is the incoming schema's own NodeId
+    user(incoming).example = { id: user(incoming).id };
+
+    expect(user(reconcileIds(current, incoming)).example).toEqual({ id: user(incoming).id });
+  });
+});
+
+describe('mergeDocuments', () => {
+  it('reports an edited example as a change and keeps the new value', () => {
+    const result = mergeDocuments(load('user-1'), load('user-2'));
+
+    expect(user(result.document).example).toEqual({ id: 'user-2', schemeId: 'user-2' });
+    expect(result.changed.map((entry) => entry.label)).toContain('User');
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  ApiDocument,
+  DocumentCollection,
+  DocumentEntry,
+  DocumentField,
+  DOCUMENT_COLLECTIONS,
+  NodeId,
+} from './types';
+import { computePatch } from './commands';
+
+// How an entry of each collection is recognised across two parses of a spec,
+// where every NodeId is freshly generated
+const NATURAL_KEYS: { [C in DocumentCollection]: (entry: DocumentEntry<C>) => string | undefined } = {
+  routes: (route) => `${route.method} ${route.path}`,
+  pathItems: (pathItem) => pathItem.path,
+  schemas: (schema) => schema.name,
+  securitySchemes: (scheme) => scheme.name,
+  responses: (component) => component.name,
+  parameters: (component) => component.name,
+  requestBodies: (component) => component.name,
+  headers: (component) => component.name,
+};
+
+// The collections of a document, viewed so that indexing with a generic
+// collection keeps its entry type
+type CollectionMaps = { [C in DocumentCollection]: Map<NodeId, DocumentEntry<C>> };
+
+// Fields whose string value is a NodeId, either owned or referenced
+const ID_FIELDS = new Set(['id', 'targetId', 'schemeId']);
+
+// Fields holding user data verbatim; an `id` inside them is not a NodeId
+const VALUE_FIELDS = new Set(['example', 'examples', 'default', 'const', 'enumValues', 'extensions']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map);
+}
+
+// Array elements with a name (parameters, fields) are matched by name and
+// location, anything else by position
+function elementKey(element: unknown, index: number): string {
+  if (isRecord(element) && typeof element.name === 'string') {
+    return `${element.name}:${element.in ?? ''}`;
+  }
+  return String(index);
+}
+
+/**
+ * Walk two versions of the same entity side by side, recording which NodeId
+ * of `current` each NodeId of `incoming` corresponds to
+ */
+function matchIds(
+  current: unknown,
+  incoming: unknown,
+  idMap: Map<NodeId, NodeId>,
+  used: Set<NodeId>
+): void {
+  if (current instanceof Map && incoming instanceof Map) {
+    for (const [key, value] of incoming) {
+      if (current.has(key)) matchIds(current.get(key), value, idMap, used);
+    }
+  } else if (Array.isArray(current) && Array.isArray(incoming)) {
+    const byKey = new Map(current.map((element, i) => [elementKey(element, i), element]));
+    incoming.forEach((element, i) => {
+      const key = elementKey(element, i);
+      if (byKey.has(key)) matchIds(byKey.get(key), element, idMap, used);
+    });
+  } else if (isRecord(current) && isRecord(incoming)) {
+    // A NodeId is handed out once, even if duplicate names match an element twice
+    if (
+      typeof current.id === 'string' &&
+      typeof incoming.id === 'string' &&
+      !idMap.has(incoming.id) &&
+      !used.has(current.id)
+    ) {
+      idMap.set(incoming.id, current.id);
+      used.add(current.id);
+    }
+    for (const key of Object.keys(incoming)) {
+      if (key !== 'id' && !VALUE_FIELDS.has(key)) matchIds(current[key], incoming[key], idMap, used);
+    }
+  }
+}
+
+// Copy of a value with owned and referenced NodeIds (and Map keys) renamed
+function renameIds(value: unknown, idMap: Map<NodeId, NodeId>): unknown {
+  if (value instanceof Map) {
+    return new Map(
+      Array.from(value.entries()).map(([key, entry]) => [idMap.get(key) ?? key, renameIds(entry, idMap)])
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => renameIds(entry, idMap));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        VALUE_FIELDS.has(key)
+          ? entry
+          : ID_FIELDS.has(key) && typeof entry === 'string'
+            ? idMap.get(entry) ?? entry
+            : renameIds(entry, idMap),
+      ])
+    );
+  }
+  return value;
+}
+
+// Match the entries of one collection by their natural key
+function matchCollection<C extends DocumentCollection>(
+  collection: C,
+  current: CollectionMaps,
+  incoming: CollectionMaps,
+  idMap: Map<NodeId, NodeId>,
+  used: Set<NodeId>
+) {
+  const key = NATURAL_KEYS[collection];
+  const currentByKey = new Map<string, DocumentEntry<C>>();
+  for (const entry of current[collection].values()) {
+    const k = key(entry);
+    if (k !== undefined) currentByKey.set(k, entry);
+  }
+  for (const entry of incoming[collection].values()) {
+    const k = key(entry);
+    if (k !== undefined && currentByKey.has(k)) {
+      matchIds(currentByKey.get(k), entry, idMap, used);
+    }
+  }
+}
+
+/**
+ * Give a freshly parsed document the NodeIds of the matching entities in the
+ * current one: routes by method and path, path items by path, schemas,
+ * components and security schemes by name, and everything nested in them by
+ * position. Selections, history and snapshots then keep pointing at the same
+ * things after the spec is re-read.
+ */
+export function reconcileIds(current: ApiDocument, incoming: ApiDocument): ApiDocument {
+  const idMap = new Map<NodeId, NodeId>();
+  const used = new Set<NodeId>();
+
+  for (const collection of DOCUMENT_COLLECTIONS) {
+    matchCollection(collection, current, incoming, idMap, used);
+  }
+
+  return { ...(renameIds(incoming, idMap) as ApiDocument), id: current.id };
+}
+
+export interface MergeEntry {
+  collection: DocumentCollection;
+  id: NodeId;
+  label: string;
+}
+
+export interface MergeResult {
+  document: ApiDocument;
+  added: MergeEntry[];
+  changed: MergeEntry[];
+  removed: MergeEntry[];
+  // Top-level fields (info, servers, ...) the incoming spec changes
+  fields: DocumentField[];
+}
+
+const ENTRY_LABELS: { [C in DocumentCollection]: (entry: DocumentEntry<C>) => string } = {
+  routes: (route) => `${route.method.toUpperCase()} ${route.path}`,
+  pathItems: (pathItem) => pathItem.path,
+  schemas: (schema) => schema.name || 'unnamed',
+  securitySchemes: (scheme) => scheme.name || 'unnamed',
+  responses: (component) => component.name || 'unnamed',
+  parameters: (component) => component.name || 'unnamed',
+  requestBodies: (component) => component.name || 'unnamed',
+  headers: (component) => component.name || 'unnamed',
+};
+
+// Label an entry from whichever document still has it
+function entryLabel<C extends DocumentCollection>(
+  collection: C,
+  id: NodeId,
+  after: CollectionMaps,
+  before: CollectionMaps
+): string {
+  const entry = after[collection].get(id) ?? before[collection].get(id);
+  return entry ? ENTRY_LABELS[collection](entry) : 'unnamed';
+}
+
+/**
+ * Reconcile an updated spec with the current document for a merge import.
+ * Matching entities keep their NodeIds and their current position; new ones
+ * are appended in the order the spec lists them. The incoming spec is the
+ * source of truth for content, so entities it lacks are removed.
+ */
+export function mergeDocuments(current: ApiDocument, incoming: ApiDocument): MergeResult {
+  const reconciled = reconcileIds(current, incoming);
+  const document: ApiDocument = { ...reconciled };
+  for (const collection of DOCUMENT_COLLECTIONS) {
+    const entries = reconciled[collection] as Map<NodeId, unknown>;
+    const currentIds = (current[collection] as Map<NodeId, unknown>).keys();
+    const kept = Array.from(currentIds).filter((id) => entries.has(id));
+    const keptIds = new Set(kept);
+    (document as unknown as Record<DocumentCollection, Map<NodeId, unknown>>)[collection] = new Map([
+      ...kept.map((id) => [id, entries.get(id)] as const),
+      ...Array.from(entries.entries()).filter(([id]) => !keptIds.has(id)),
+    ]);
+  }
+
+  const { patch, inverse } = computePatch(current, document);
+  const result: MergeResult = { document, added: [], changed: [], removed: [], fields: patch.fields.map((f) => f.field) };
+  patch.entries.forEach((entry, i) => {
+    const before = inverse.entries[i].value;
+    const label = entryLabel(entry.collection, entry.id, document, current);
+    const target = before === null ? result.added : entry.value === null ? result.removed : result.changed;
+    target.push({ collection: entry.collection, id: entry.id, label });
+  });
+  return result;
+}
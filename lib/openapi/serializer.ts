@@ -3,17 +3,42 @@ import {
   ApiDocument,
   SchemaNode,
   Route,
+  PathItem,
+  Server,
   SchemaOrRef,
   ParameterDef,
+  ParameterOrRef,
   ResponseDef,
   RequestBody,
+  HeaderDef,
+  HeaderOrRef,
+  MediaType,
+  EncodingDef,
+  ExampleDef,
+  ComponentKind,
+  ComponentRef,
+  ComponentDefinitions,
+  COMPONENT_KINDS,
+  isComponentRef,
   SecurityScheme,
+  SecurityAlternative,
+  Extensions,
   NodeId,
 } from './types';
+import { buildSourceMap, type SourceMap } from './source-map';
+
+const JSON_SCHEMA_DIALECT_31 = 'https://spec.openapis.org/oas/3.1/dialect/base';
 
 // OpenAPI output types
+interface SerializedServer {
+  url: string;
+  description?: string;
+  variables?: Record<string, { enum?: string[]; default: string; description?: string }>;
+}
+
 interface OpenAPIDocument {
   openapi: string;
+  jsonSchemaDialect?: string;
   info: {
     title: string;
     version: string;
@@ -29,19 +54,22 @@ interface OpenAPIDocument {
       url?: string;
     };
   };
-  servers?: Array<{
-    url: string;
-    description?: string;
-  }>;
+  servers?: SerializedServer[];
   paths: Record<string, Record<string, unknown>>;
   components?: {
     schemas?: Record<string, unknown>;
+    responses?: Record<string, unknown>;
+    parameters?: Record<string, unknown>;
+    requestBodies?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
     securitySchemes?: Record<string, unknown>;
   };
   tags?: Array<{
     name: string;
     description?: string;
   }>;
+  security?: Record<string, string[]>[];
+  [extension: string]: unknown;
 }
 
 export function serializeToYaml(doc: ApiDocument): string {
@@ -53,9 +81,21 @@ export function serializeToYaml(doc: ApiDocument): string {
   });
 }
 
+// YAML output together with the line ranges each route, schema, component,
+// field and response occupies in it
+export function serializeToYamlWithSourceMap(doc: ApiDocument): { yaml: string; sourceMap: SourceMap } {
+  const yaml = serializeToYaml(doc);
+  return { yaml, sourceMap: buildSourceMap(doc, yaml) };
+}
+
+export function serializeToJson(doc: ApiDocument): string {
+  const openapi = serializeDocument(doc);
+  return JSON.stringify(openapi, null, 2);
+}
+
 export function serializeDocument(doc: ApiDocument): OpenAPIDocument {
   const output: OpenAPIDocument = {
-    openapi: '3.0.3',
+    openapi: doc.openapiVersion,
     info: {
       title: doc.info.title,
       version: doc.info.version,
@@ -63,6 +103,10 @@ export function serializeDocument(doc: ApiDocument): OpenAPIDocument {
     paths: {},
   };
 
+  if (isOpenApi31(doc)) {
+    output.jsonSchemaDialect = JSON_SCHEMA_DIALECT_31;
+  }
+
   // Info
   if (doc.info.description) {
     output.info.description = doc.info.description;
@@ -80,13 +124,17 @@ export function serializeDocument(doc: ApiDocument): OpenAPIDocument {
     output.info.license = { name: doc.info.license.name };
     if (doc.info.license.url) output.info.license.url = doc.info.license.url;
   }
+  applyExtensions(output.info, doc.info.extensions);
 
   // Servers
   if (doc.servers.length > 0) {
-    output.servers = doc.servers.map((s) => ({
-      url: s.url,
-      ...(s.description && { description: s.description }),
-    }));
+    output.servers = serializeServers(doc.servers);
+  }
+
+  // Default security
+  const security = serializeSecurity(doc.security, doc);
+  if (security) {
+    output.security = security;
   }
 
   // Tags
@@ -113,11 +161,28 @@ export function serializeDocument(doc: ApiDocument): OpenAPIDocument {
     securitySchemes[scheme.name] = serializeSecurityScheme(scheme);
   }
 
-  if (Object.keys(schemas).length > 0 || Object.keys(securitySchemes).length > 0) {
+  // Serialize reusable components
+  const reusable: Partial<Record<ComponentKind, Record<string, unknown>>> = {};
+  for (const kind of COMPONENT_KINDS) {
+    const entries: Record<string, unknown> = {};
+    for (const component of doc[kind].values()) {
+      entries[component.name] = serializeComponentDefinition(kind, component.definition, doc);
+    }
+    if (Object.keys(entries).length > 0) {
+      reusable[kind] = entries;
+    }
+  }
+
+  if (
+    Object.keys(schemas).length > 0 ||
+    Object.keys(reusable).length > 0 ||
+    Object.keys(securitySchemes).length > 0
+  ) {
     output.components = {};
     if (Object.keys(schemas).length > 0) {
       output.components.schemas = schemas;
     }
+    Object.assign(output.components, reusable);
     if (Object.keys(securitySchemes).length > 0) {
       output.components.securitySchemes = securitySchemes;
     }
@@ -131,20 +196,50 @@ export function serializeDocument(doc: ApiDocument): OpenAPIDocument {
     pathGroups.set(route.path, routes);
   }
 
+  // Path items may exist without operations
+  const pathItems = new Map<string, PathItem>();
+  for (const pathItem of doc.pathItems.values()) {
+    pathItems.set(pathItem.path, pathItem);
+    if (!pathGroups.has(pathItem.path)) {
+      pathGroups.set(pathItem.path, []);
+    }
+  }
+
   // Sort paths alphabetically
   const sortedPaths = Array.from(pathGroups.keys()).sort();
   for (const path of sortedPaths) {
     const routes = pathGroups.get(path)!;
-    output.paths[path] = {};
+    const pathItem = pathItems.get(path);
+    output.paths[path] = pathItem ? serializePathItem(pathItem, doc) : {};
     for (const route of routes) {
       output.paths[path][route.method] = serializeOperation(route, doc);
     }
+    applyExtensions(output.paths[path], pathItem?.extensions);
   }
 
+  applyExtensions(output, doc.extensions);
+
   return output;
 }
 
 function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, unknown> {
+  return applyExtensions(applyConst(serializeSchemaKeywords(schema, doc), schema, doc), schema.extensions);
+}
+
+// const applies to every kind of schema; 3.0 has no const keyword, and a
+// single-value enum is equivalent
+function applyConst(result: Record<string, unknown>, schema: SchemaNode, doc: ApiDocument) {
+  if (schema.const !== undefined) {
+    if (isOpenApi31(doc)) {
+      result.const = schema.const;
+    } else {
+      result.enum = [schema.const];
+    }
+  }
+  return result;
+}
+
+function serializeSchemaKeywords(schema: SchemaNode, doc: ApiDocument): Record<string, unknown> {
   const result: Record<string, unknown> = {};
 
   // Handle composition types
@@ -154,19 +249,38 @@ function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, u
     }
     if (schema.type === 'oneOf' && schema.discriminator?.propertyName) {
       result.discriminator = { propertyName: schema.discriminator.propertyName };
+      if (schema.discriminator.mapping && Object.keys(schema.discriminator.mapping).length > 0) {
+        (result.discriminator as Record<string, unknown>).mapping = schema.discriminator.mapping;
+      }
     }
     if (schema.description) {
       result.description = schema.description;
     }
+    if (schema.nullable) {
+      if (!isOpenApi31(doc)) {
+        result.nullable = true;
+      } else if (schema.type !== 'allOf') {
+        // 3.1 has no nullable keyword; a null variant expresses the same thing
+        result[schema.type] = [...((result[schema.type] as unknown[]) || []), { type: 'null' }];
+      } else {
+        // A null variant inside allOf could never match, so the whole allOf
+        // becomes one branch of an anyOf next to null
+        const { allOf, ...rest } = result;
+        return { anyOf: [{ allOf: allOf ?? [] }, { type: 'null' }], ...rest };
+      }
+    }
     return result;
   }
 
   // Handle enum
   if (schema.type === 'enum') {
-    result.type = 'string';
+    result.type = serializeType('string', schema, doc);
     if (schema.enumValues && schema.enumValues.length > 0) {
-      result.enum = schema.enumValues;
+      result.enum = schema.nullable && isOpenApi31(doc)
+        ? [...schema.enumValues, null]
+        : schema.enumValues;
     }
+    applyNullable(result, schema, doc);
     if (schema.description) {
       result.description = schema.description;
     }
@@ -175,10 +289,11 @@ function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, u
 
   // Handle array
   if (schema.type === 'array') {
-    result.type = 'array';
+    result.type = serializeType('array', schema, doc);
     if (schema.items) {
       result.items = serializeSchemaOrRef(schema.items, doc);
     }
+    applyNullable(result, schema, doc);
     if (schema.description) {
       result.description = schema.description;
     }
@@ -187,7 +302,8 @@ function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, u
 
   // Handle object
   if (schema.type === 'object') {
-    result.type = 'object';
+    result.type = serializeType('object', schema, doc);
+    applyNullable(result, schema, doc);
     if (schema.properties && schema.properties.size > 0) {
       const props: Record<string, unknown> = {};
       for (const [name, prop] of schema.properties) {
@@ -209,7 +325,8 @@ function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, u
   }
 
   // Handle primitives
-  result.type = schema.type;
+  result.type = serializeType(schema.type, schema, doc);
+  applyNullable(result, schema, doc);
 
   if (schema.description) {
     result.description = schema.description;
@@ -233,7 +350,11 @@ function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, u
     result.pattern = schema.pattern;
   }
   if (schema.example !== undefined) {
-    result.example = schema.example;
+    if (isOpenApi31(doc)) {
+      result.examples = [schema.example];
+    } else {
+      result.example = schema.example;
+    }
   }
   if (schema.default !== undefined) {
     result.default = schema.default;
@@ -242,6 +363,36 @@ function serializeSchema(schema: SchemaNode, doc: ApiDocument): Record<string, u
   return result;
 }
 
+// Vendor extensions are written after the standard keys so they never shadow them
+function applyExtensions<T extends object>(result: T, extensions: Extensions | undefined): T {
+  if (extensions) {
+    for (const [key, value] of Object.entries(extensions)) {
+      if (!(key in result)) {
+        (result as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return result;
+}
+
+function isOpenApi31(doc: ApiDocument): boolean {
+  return doc.openapiVersion === '3.1.0';
+}
+
+// 3.1 expresses nullability as a type array instead of the nullable keyword
+function serializeType(type: string, schema: SchemaNode, doc: ApiDocument): string | string[] {
+  if (schema.nullable && isOpenApi31(doc)) {
+    return [type, 'null'];
+  }
+  return type;
+}
+
+function applyNullable(result: Record<string, unknown>, schema: SchemaNode, doc: ApiDocument) {
+  if (schema.nullable && !isOpenApi31(doc)) {
+    result.nullable = true;
+  }
+}
+
 function serializeSchemaOrRef(schemaOrRef: SchemaOrRef, doc: ApiDocument): Record<string, unknown> {
   if (schemaOrRef.kind === 'ref') {
     const targetSchema = doc.schemas.get(schemaOrRef.targetId);
@@ -257,6 +408,54 @@ function serializeSchemaOrRef(schemaOrRef: SchemaOrRef, doc: ApiDocument): Recor
   return serializeSchema(schemaOrRef.schema, doc);
 }
 
+// Shared metadata is emitted once here; operations only list their own parameters
+function serializePathItem(pathItem: PathItem, doc: ApiDocument): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (pathItem.summary) {
+    result.summary = pathItem.summary;
+  }
+  if (pathItem.description) {
+    result.description = pathItem.description;
+  }
+  if (pathItem.servers && pathItem.servers.length > 0) {
+    result.servers = serializeServers(pathItem.servers);
+  }
+
+  const parameters = serializeParameters(pathItem.parameters, doc);
+  if (parameters.length > 0) {
+    result.parameters = parameters;
+  }
+
+  return result;
+}
+
+function serializeServers(servers: Server[]): SerializedServer[] {
+  return servers.map((s) => ({
+    url: s.url,
+    ...(s.description && { description: s.description }),
+    ...(s.variables &&
+      Object.keys(s.variables).length > 0 && {
+        variables: Object.fromEntries(
+          Object.entries(s.variables).map(([name, v]) => [
+            name,
+            {
+              ...(v.enum && v.enum.length > 0 && { enum: v.enum }),
+              default: v.default,
+              ...(v.description && { description: v.description }),
+            },
+          ])
+        ),
+      }),
+  }));
+}
+
+function serializeParameters(parameters: ParameterOrRef[], doc: ApiDocument): unknown[] {
+  return parameters
+    .map((p) => (isComponentRef(p) ? serializeComponentRef(p, doc) : serializeParameter(p, doc)))
+    .filter((p) => p !== undefined);
+}
+
 function serializeOperation(route: Route, doc: ApiDocument): Record<string, unknown> {
   const result: Record<string, unknown> = {};
 
@@ -277,36 +476,101 @@ function serializeOperation(route: Route, doc: ApiDocument): Record<string, unkn
   }
 
   // Parameters
-  if (route.parameters.length > 0) {
-    result.parameters = route.parameters.map((p) => serializeParameter(p, doc));
+  const parameters = serializeParameters(route.parameters, doc);
+  if (parameters.length > 0) {
+    result.parameters = parameters;
   }
 
   // Request body
   if (route.requestBody) {
-    result.requestBody = serializeRequestBody(route.requestBody, doc);
+    const body = isComponentRef(route.requestBody)
+      ? serializeComponentRef(route.requestBody, doc)
+      : serializeRequestBody(route.requestBody, doc);
+    if (body) {
+      result.requestBody = body;
+    }
   }
 
   // Responses
   const responses: Record<string, unknown> = {};
   for (const [statusCode, response] of route.responses) {
-    responses[statusCode] = serializeResponse(response, doc);
+    const serialized = isComponentRef(response)
+      ? serializeComponentRef(response, doc)
+      : serializeResponse(response, doc);
+    if (serialized) {
+      responses[statusCode] = serialized;
+    }
   }
   result.responses = responses;
 
-  // Security
-  if (route.security && route.security.length > 0) {
-    result.security = route.security.map((s) => {
-      const scheme = doc.securitySchemes.get(s.schemeId);
+  // Security, including an explicit [] opt-out
+  const security = serializeSecurity(route.security, doc);
+  if (security) {
+    result.security = security;
+  }
+
+  return applyExtensions(result, route.extensions);
+}
+
+// Alternatives naming a deleted scheme are dropped rather than emitted as `{}`,
+// which would grant anonymous access; the validator reports them
+function serializeSecurity(
+  security: SecurityAlternative[] | undefined,
+  doc: ApiDocument
+): Record<string, string[]>[] | undefined {
+  if (!security) return undefined;
+
+  const result: Record<string, string[]>[] = [];
+  for (const alternative of security) {
+    const entry: Record<string, string[]> = {};
+    const complete = alternative.every((requirement) => {
+      const scheme = doc.securitySchemes.get(requirement.schemeId);
       if (scheme) {
-        return { [scheme.name]: s.scopes };
+        entry[scheme.name] = requirement.scopes;
       }
-      return {};
+      return !!scheme;
     });
+    if (complete) {
+      result.push(entry);
+    }
   }
 
+  // Dropping every alternative must not turn into an opt-out
+  if (result.length === 0 && security.length > 0) {
+    return undefined;
+  }
   return result;
 }
 
+// Broken edges are dropped; the validator reports them
+function serializeComponentRef(
+  ref: ComponentRef<ComponentKind>,
+  doc: ApiDocument
+): Record<string, unknown> | undefined {
+  const target = doc[ref.component].get(ref.targetId);
+  if (!target) {
+    return undefined;
+  }
+  return { $ref: `#/components/${ref.component}/${target.name}` };
+}
+
+function serializeComponentDefinition(
+  kind: ComponentKind,
+  definition: ComponentDefinitions[ComponentKind],
+  doc: ApiDocument
+): Record<string, unknown> {
+  switch (kind) {
+    case 'responses':
+      return serializeResponse(definition as ResponseDef, doc);
+    case 'parameters':
+      return serializeParameter(definition as ParameterDef, doc);
+    case 'requestBodies':
+      return serializeRequestBody(definition as RequestBody, doc);
+    case 'headers':
+      return serializeHeader(definition as HeaderDef, doc);
+  }
+}
+
 function serializeParameter(param: ParameterDef, doc: ApiDocument): Record<string, unknown> {
   const result: Record<string, unknown> = {
     name: param.name,
@@ -325,8 +589,11 @@ function serializeParameter(param: ParameterDef, doc: ApiDocument): Record<strin
   if (param.example !== undefined) {
     result.example = param.example;
   }
+  if (param.examples && param.examples.size > 0) {
+    result.examples = serializeExamples(param.examples);
+  }
 
-  return result;
+  return applyExtensions(result, param.extensions);
 }
 
 function serializeRequestBody(body: RequestBody, doc: ApiDocument): Record<string, unknown> {
@@ -339,17 +606,84 @@ function serializeRequestBody(body: RequestBody, doc: ApiDocument): Record<strin
     result.required = true;
   }
 
-  const content: Record<string, unknown> = {};
-  for (const [contentType, media] of body.content) {
-    content[contentType] = {
+  result.content = serializeContent(body.content, doc);
+
+  return result;
+}
+
+function serializeContent(content: Map<string, MediaType>, doc: ApiDocument): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [contentType, media] of content) {
+    const serialized: Record<string, unknown> = {
       schema: serializeSchemaOrRef(media.schema, doc),
     };
     if (media.example !== undefined) {
-      (content[contentType] as Record<string, unknown>).example = media.example;
+      serialized.example = media.example;
+    }
+    if (media.examples && media.examples.size > 0) {
+      serialized.examples = serializeExamples(media.examples);
+    }
+    if (media.encoding && media.encoding.size > 0) {
+      serialized.encoding = Object.fromEntries(
+        Array.from(media.encoding.entries()).map(([property, encoding]) => [
+          property,
+          serializeEncoding(encoding, doc),
+        ])
+      );
     }
+    result[contentType] = serialized;
+  }
+  return result;
+}
+
+function serializeExamples(examples: Map<string, ExampleDef>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, example] of examples) {
+    const serialized: Record<string, unknown> = {};
+    if (example.summary) serialized.summary = example.summary;
+    if (example.description) serialized.description = example.description;
+    if (example.externalValue) {
+      serialized.externalValue = example.externalValue;
+    } else if (example.value !== undefined) {
+      serialized.value = example.value;
+    }
+    result[name] = serialized;
+  }
+  return result;
+}
+
+function serializeEncoding(encoding: EncodingDef, doc: ApiDocument): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (encoding.contentType) {
+    result.contentType = encoding.contentType;
+  }
+  if (encoding.headers && encoding.headers.size > 0) {
+    result.headers = serializeHeaders(encoding.headers, doc);
+  }
+  if (encoding.style) {
+    result.style = encoding.style;
+  }
+  if (encoding.explode !== undefined) {
+    result.explode = encoding.explode;
   }
-  result.content = content;
+  if (encoding.allowReserved) {
+    result.allowReserved = true;
+  }
+
+  return result;
+}
 
+function serializeHeaders(headers: Map<string, HeaderOrRef>, doc: ApiDocument): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, header] of headers) {
+    const serialized = isComponentRef(header)
+      ? serializeComponentRef(header, doc)
+      : serializeHeader(header, doc);
+    if (serialized) {
+      result[name] = serialized;
+    }
+  }
   return result;
 }
 
@@ -359,19 +693,33 @@ function serializeResponse(response: ResponseDef, doc: ApiDocument): Record<stri
   };
 
   if (response.content && response.content.size > 0) {
-    const content: Record<string, unknown> = {};
-    for (const [contentType, media] of response.content) {
-      content[contentType] = {
-        schema: serializeSchemaOrRef(media.schema, doc),
-      };
-      if (media.example !== undefined) {
-        (content[contentType] as Record<string, unknown>).example = media.example;
-      }
-    }
-    result.content = content;
+    result.content = serializeContent(response.content, doc);
   }
 
-  return result;
+  if (response.headers && response.headers.size > 0) {
+    result.headers = serializeHeaders(response.headers, doc);
+  }
+
+  return applyExtensions(result, response.extensions);
+}
+
+function serializeHeader(header: HeaderDef, doc: ApiDocument): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (header.description) {
+    result.description = header.description;
+  }
+  if (header.required) {
+    result.required = true;
+  }
+
+  result.schema = serializeSchemaOrRef(header.schema, doc);
+
+  if (header.example !== undefined) {
+    result.example = header.example;
+  }
+
+  return applyExtensions(result, header.extensions);
 }
 
 function serializeSecurityScheme(scheme: SecurityScheme): Record<string, unknown> {
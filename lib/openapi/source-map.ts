@@ -0,0 +1,101 @@
+import * as YAML from 'yaml';
+import { ApiDocument, COMPONENT_KINDS, ComponentKind, NodeId } from './types';
+
+export type SourceNodeKind = 'route' | 'response' | 'schema' | 'field' | 'component';
+
+// A block of serialized output and the editor node that produced it. Fields and
+// responses have no NodeId of their own, so they get one derived from their owner.
+export interface SourceMapEntry {
+  id: string;
+  kind: SourceNodeKind;
+  // The route, schema or component the editor selects for this entry
+  ownerId: NodeId;
+  componentKind?: ComponentKind;
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+}
+
+export type SourceMap = SourceMapEntry[];
+
+export function fieldNodeId(schemaId: NodeId, name: string): string {
+  return `${schemaId}/properties/${name}`;
+}
+
+export function responseNodeId(routeId: NodeId, statusCode: string): string {
+  return `${routeId}/responses/${statusCode}`;
+}
+
+/**
+ * Map the lines of serialized output (YAML, or JSON, which YAML also parses)
+ * back to the routes, schemas, components, fields and responses that produced
+ * them. Paths mirror the layout `serializeDocument` writes.
+ */
+export function buildSourceMap(doc: ApiDocument, content: string): SourceMap {
+  const lineCounter = new YAML.LineCounter();
+  const yamlDoc = YAML.parseDocument(content, { lineCounter });
+  const entries: SourceMap = [];
+
+  const add = (path: string[], entry: Omit<SourceMapEntry, 'startLine' | 'endLine'>) => {
+    const parent = yamlDoc.getIn(path.slice(0, -1), true);
+    if (!YAML.isMap(parent)) return;
+    const pair = parent.items.find((item) => YAML.isScalar(item.key) && String(item.key.value) === path[path.length - 1]);
+    const key = pair && YAML.isScalar(pair.key) ? pair.key : undefined;
+    const value = pair && YAML.isNode(pair.value) ? pair.value : undefined;
+    if (!key?.range || !value?.range) return;
+    entries.push({
+      ...entry,
+      startLine: lineCounter.linePos(key.range[0]).line,
+      // range[1] is just past the value, so step back onto its last character
+      endLine: lineCounter.linePos(Math.max(value.range[1] - 1, key.range[0])).line,
+    });
+  };
+
+  for (const route of doc.routes.values()) {
+    const path = ['paths', route.path, route.method];
+    add(path, { id: route.id, kind: 'route', ownerId: route.id });
+    for (const statusCode of route.responses.keys()) {
+      add([...path, 'responses', statusCode], {
+        id: responseNodeId(route.id, statusCode),
+        kind: 'response',
+        ownerId: route.id,
+      });
+    }
+  }
+
+  for (const schema of doc.schemas.values()) {
+    if (!schema.name) continue;
+    const path = ['components', 'schemas', schema.name];
+    add(path, { id: schema.id, kind: 'schema', ownerId: schema.id });
+    for (const name of schema.properties?.keys() ?? []) {
+      add([...path, 'properties', name], { id: fieldNodeId(schema.id, name), kind: 'field', ownerId: schema.id });
+    }
+  }
+
+  for (const kind of COMPONENT_KINDS) {
+    for (const component of doc[kind].values()) {
+      add(['components', kind, component.name], {
+        id: component.id,
+        kind: 'component',
+        ownerId: component.id,
+        componentKind: kind,
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * The innermost entry covering a line, e.g. a field rather than its schema
+ */
+export function nodeAtLine(sourceMap: SourceMap, line: number): SourceMapEntry | undefined {
+  let found: SourceMapEntry | undefined;
+  for (const entry of sourceMap) {
+    if (line < entry.startLine || line > entry.endLine) continue;
+    if (!found || entry.endLine - entry.startLine < found.endLine - found.startLine) {
+      found = entry;
+    }
+  }
+  return found;
+}
@@ -3,15 +3,26 @@ import {
   ApiDocument,
   SchemaNode,
   Route,
-  Command,
+  PathItem,
+  CommandAction,
+  CommandHistory,
+  HistoryCommand,
   PropertyDef,
   ParameterDef,
+  ParameterOrRef,
   ResponseDef,
-  RequestBody,
+  ResponseOrRef,
+  RequestBodyOrRef,
+  Component,
+  ComponentRef,
+  ComponentKind,
+  ComponentDefinitions,
   SecurityScheme,
+  SecurityAlternative,
   Server,
   Tag,
   InfoObject,
+  OpenApiVersion,
   NodeId,
   HttpMethod,
   SchemaType,
@@ -20,7 +31,13 @@ import {
   createSchema,
   createRoute,
   generateId,
+  isComponentRef,
+  findPathItem,
+  findComponent,
 } from './types';
+import { applyPatch, computePatch, describeCommand, isEmptyPatch } from './commands';
+
+export type TabType = 'routes' | 'schemas' | 'components' | 'settings';
 
 interface EditorState {
   // Document state
@@ -32,22 +49,30 @@ interface EditorState {
   // Selection state
   selectedSchemaId: NodeId | null;
   selectedRouteId: NodeId | null;
+  selectedComponentId: NodeId | null;
+  // Field or response within the selection, shared by the form editors and the
+  // YAML preview (see source-map.ts for the ids)
+  focusedNodeId: string | null;
   
-  // History for undo/redo
-  history: ApiDocument[];
+  // Undo/redo: commands up to and including historyIndex are applied, the
+  // ones after it have been undone and can be redone
+  commandLog: HistoryCommand[];
   historyIndex: number;
   maxHistorySize: number;
   
-  // Command log
-  commandLog: Command[];
-  
   // UI state
-  activeTab: 'routes' | 'schemas' | 'settings';
+  activeTab: TabType;
   yamlPreviewOpen: boolean;
+  newRouteDialogOpen: boolean;
   
   // Actions - Document
   setDocument: (doc: ApiDocument) => void;
+  // Replace the document with one whose NodeIds were reconciled with the current
+  // one (edited source text, merge imports); selections of surviving nodes stay
+  applySourceEdit: (doc: ApiDocument) => void;
+  mergeDocument: (doc: ApiDocument) => void;
   updateInfo: (info: Partial<InfoObject>) => void;
+  setOpenApiVersion: (version: OpenApiVersion) => void;
   
   // Actions - Schemas
   addSchema: (schema: SchemaNode) => void;
@@ -61,14 +86,29 @@ interface EditorState {
   addRoute: (route: Route) => void;
   updateRoute: (id: NodeId, updates: Partial<Route>) => void;
   deleteRoute: (id: NodeId) => void;
-  addParameter: (routeId: NodeId, param: ParameterDef) => void;
+  addParameter: (routeId: NodeId, param: ParameterOrRef) => void;
   updateParameter: (routeId: NodeId, paramId: NodeId, updates: Partial<ParameterDef>) => void;
   deleteParameter: (routeId: NodeId, paramId: NodeId) => void;
-  setRequestBody: (routeId: NodeId, body: RequestBody | undefined) => void;
-  addResponse: (routeId: NodeId, statusCode: string, response: ResponseDef) => void;
+  setRequestBody: (routeId: NodeId, body: RequestBodyOrRef | undefined) => void;
+  addResponse: (routeId: NodeId, statusCode: string, response: ResponseOrRef) => void;
   updateResponse: (routeId: NodeId, statusCode: string, updates: Partial<ResponseDef>) => void;
   deleteResponse: (routeId: NodeId, statusCode: string) => void;
   
+  // Actions - Path items (keyed by path, created on first edit)
+  updatePathItem: (path: string, updates: Partial<Omit<PathItem, 'id' | 'path'>>) => void;
+  addPathParameter: (path: string, param: ParameterOrRef) => void;
+  updatePathParameter: (path: string, paramId: NodeId, updates: Partial<ParameterDef>) => void;
+  deletePathParameter: (path: string, paramId: NodeId) => void;
+  
+  // Actions - Components
+  addComponent: <K extends ComponentKind>(kind: K, component: Component<ComponentDefinitions[K]>) => void;
+  updateComponent: <K extends ComponentKind>(
+    kind: K,
+    id: NodeId,
+    updates: Partial<Component<ComponentDefinitions[K]>>
+  ) => void;
+  deleteComponent: (kind: ComponentKind, id: NodeId) => void;
+  
   // Actions - Servers
   addServer: (server: Server) => void;
   updateServer: (index: number, server: Server) => void;
@@ -78,6 +118,8 @@ interface EditorState {
   addSecurityScheme: (scheme: SecurityScheme) => void;
   updateSecurityScheme: (id: NodeId, updates: Partial<SecurityScheme>) => void;
   deleteSecurityScheme: (id: NodeId) => void;
+  setSecurity: (security: SecurityAlternative[] | undefined) => void;
+  setRouteSecurity: (routeId: NodeId, security: SecurityAlternative[] | undefined) => void;
   
   // Actions - Tags
   addTag: (tag: Tag) => void;
@@ -86,22 +128,28 @@ interface EditorState {
   // Actions - Selection
   selectSchema: (id: NodeId | null) => void;
   selectRoute: (id: NodeId | null) => void;
-  setActiveTab: (tab: 'routes' | 'schemas' | 'settings') => void;
+  selectComponent: (id: NodeId | null) => void;
+  focusNode: (id: string | null) => void;
+  setActiveTab: (tab: TabType) => void;
   setYamlPreviewOpen: (open: boolean) => void;
+  setNewRouteDialogOpen: (open: boolean) => void;
   
   // Actions - History
   undo: () => void;
   redo: () => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
+  // Undo or redo until the command at `index` is the last applied one (-1 undoes everything)
+  jumpToCommand: (index: number) => void;
   
   // Helpers
   getSchemaById: (id: NodeId) => SchemaNode | undefined;
   getRouteById: (id: NodeId) => Route | undefined;
   getSchemaUsageCount: (id: NodeId) => number;
+  getComponentUsageCount: (id: NodeId) => number;
   
   // Persistence - Initialize document without adding to history (for loading from storage)
-  initializeDocument: (doc: ApiDocument) => void;
+  initializeDocument: (doc: ApiDocument, history?: CommandHistory) => void;
 }
 
 // Helper to deep clone Maps in document
@@ -114,6 +162,10 @@ function cloneDocument(doc: ApiDocument): ApiDocument {
       responses: new Map(v.responses),
       tags: [...v.tags],
     }])),
+    pathItems: new Map(Array.from(doc.pathItems.entries()).map(([k, v]) => [k, {
+      ...v,
+      parameters: [...v.parameters],
+    }])),
     schemas: new Map(Array.from(doc.schemas.entries()).map(([k, v]) => [k, {
       ...v,
       properties: v.properties ? new Map(v.properties) : undefined,
@@ -122,38 +174,127 @@ function cloneDocument(doc: ApiDocument): ApiDocument {
       variants: v.variants ? [...v.variants] : undefined,
     }])),
     securitySchemes: new Map(doc.securitySchemes),
+    responses: new Map(doc.responses),
+    parameters: new Map(doc.parameters),
+    requestBodies: new Map(doc.requestBodies),
+    headers: new Map(doc.headers),
     servers: [...doc.servers],
     tags: [...doc.tags],
   };
 }
 
+function getComponentMap<K extends ComponentKind>(
+  doc: ApiDocument,
+  kind: K
+): Map<NodeId, Component<ComponentDefinitions[K]>> {
+  return doc[kind] as Map<NodeId, Component<ComponentDefinitions[K]>>;
+}
+
+// Returns the path item for a path, creating an empty one in the (cloned) document if needed
+function ensurePathItem(doc: ApiDocument, path: string): PathItem {
+  const existing = findPathItem(doc, path);
+  if (existing) return existing;
+  const pathItem: PathItem = { id: generateId(), path, parameters: [] };
+  doc.pathItems.set(pathItem.id, pathItem);
+  return pathItem;
+}
+
+// Keeps path item metadata attached when a path loses its last route: it follows
+// a renamed route to its new path, or is dropped when the route is deleted
+function relinkPathItem(doc: ApiDocument, oldPath: string, newPath?: string): void {
+  const pathItem = findPathItem(doc, oldPath);
+  if (!pathItem) return;
+  const stillUsed = Array.from(doc.routes.values()).some((r) => r.path === oldPath);
+  if (stillUsed) return;
+  if (newPath !== undefined && !findPathItem(doc, newPath)) {
+    doc.pathItems.set(pathItem.id, { ...pathItem, path: newPath });
+  } else {
+    doc.pathItems.delete(pathItem.id);
+  }
+}
+
+// Refs have no id of their own; a route references a component at most once
+function parameterKey(param: ParameterOrRef): NodeId {
+  return isComponentRef(param) ? param.targetId : param.id;
+}
+
+// Edits of the same thing in quick succession (typing in a field) become one command
+const COALESCE_WINDOW_MS = 1000;
+
+// State update for a mutation that turned the current document into `newDoc`:
+// records the command with its inverse, dropping any undone commands after it
+function recordCommand(
+  state: EditorState,
+  newDoc: ApiDocument,
+  action: CommandAction
+): Pick<EditorState, 'document' | 'commandLog' | 'historyIndex' | 'documentVersion'> {
+  const applied = state.commandLog.slice(0, state.historyIndex + 1);
+  const now = Date.now();
+  let before = state.document;
+  let label = describeCommand(action, before, newDoc);
+
+  const last = applied[applied.length - 1];
+  if (last && last.type === action.type && last.label === label && now - last.timestamp < COALESCE_WINDOW_MS) {
+    applied.pop();
+    before = applyPatch(state.document, last.inverse);
+    label = describeCommand(action, before, newDoc);
+  }
+
+  const { patch, inverse } = computePatch(before, newDoc);
+  const commandLog = isEmptyPatch(patch)
+    ? applied
+    : [...applied, { ...action, label, timestamp: now, patch, inverse }].slice(-state.maxHistorySize);
+
+  return {
+    document: newDoc,
+    commandLog,
+    historyIndex: commandLog.length - 1,
+    documentVersion: state.documentVersion + 1,
+  };
+}
+
+// Replaces the document, dropping selections of nodes the new one no longer has
+function replaceKeepingSelection(
+  state: EditorState,
+  doc: ApiDocument,
+  type: 'EDIT_SOURCE' | 'MERGE_DOCUMENT'
+): Partial<EditorState> {
+  const { selectedRouteId, selectedSchemaId, selectedComponentId } = state;
+  return {
+    ...recordCommand(state, doc, { type, payload: null }),
+    selectedRouteId: selectedRouteId && doc.routes.has(selectedRouteId) ? selectedRouteId : null,
+    selectedSchemaId: selectedSchemaId && doc.schemas.has(selectedSchemaId) ? selectedSchemaId : null,
+    selectedComponentId:
+      selectedComponentId && findComponent(doc, selectedComponentId) ? selectedComponentId : null,
+  };
+}
+
 export const useEditorStore = create<EditorState>((set, get) => ({
   // Initial state
   document: createEmptyDocument(),
   documentVersion: 0,
   selectedSchemaId: null,
   selectedRouteId: null,
-  history: [],
-  historyIndex: -1,
-  maxHistorySize: 50,
+  selectedComponentId: null,
+  focusedNodeId: null,
   commandLog: [],
+  historyIndex: -1,
+  maxHistorySize: 100,
   activeTab: 'routes',
   yamlPreviewOpen: false,
+  newRouteDialogOpen: false,
 
   // Document actions
   setDocument: (doc) => {
-    const state = get();
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    if (newHistory.length > state.maxHistorySize) {
-      newHistory.shift();
-    }
-    set({
-      document: doc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'IMPORT_DOCUMENT', payload: null, timestamp: Date.now() }],
-    });
+    set(recordCommand(get(), doc, { type: 'IMPORT_DOCUMENT', payload: null }));
+  },
+
+  applySourceEdit: (doc) => {
+    set(replaceKeepingSelection(get(), doc, 'EDIT_SOURCE'));
+  },
+
+  mergeDocument: (doc) => {
+    set(replaceKeepingSelection(get(), doc, 'MERGE_DOCUMENT'));
   },
 
   updateInfo: (info) => {
@@ -161,14 +302,15 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.info = { ...newDoc.info, ...info };
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_INFO', payload: info, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_INFO', payload: info }));
+  },
+
+  setOpenApiVersion: (version) => {
+    const state = get();
+    const newDoc = cloneDocument(state.document);
+    newDoc.openapiVersion = version;
+    
+    set(recordCommand(state, newDoc, { type: 'SET_OPENAPI_VERSION', payload: { version } }));
   },
 
   // Schema actions
@@ -177,14 +319,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.schemas.set(schema.id, schema);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
     set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
+      ...recordCommand(state, newDoc, { type: 'ADD_SCHEMA', payload: schema }),
       selectedSchemaId: schema.id,
-      commandLog: [...state.commandLog, { type: 'ADD_SCHEMA', payload: schema, timestamp: Date.now() }],
     });
   },
 
@@ -203,14 +340,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     
     newDoc.schemas.set(id, updatedSchema);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_SCHEMA', payload: { id, updates }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_SCHEMA', payload: { id, updates } }));
   },
 
   deleteSchema: (id) => {
@@ -218,14 +348,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.schemas.delete(id);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
     set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
+      ...recordCommand(state, newDoc, { type: 'DELETE_SCHEMA', payload: { id } }),
       selectedSchemaId: state.selectedSchemaId === id ? null : state.selectedSchemaId,
-      commandLog: [...state.commandLog, { type: 'DELETE_SCHEMA', payload: { id }, timestamp: Date.now() }],
     });
   },
 
@@ -251,14 +376,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       }
     }
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'ADD_FIELD', payload: { schemaId, field }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'ADD_FIELD', payload: { schemaId, field } }));
   },
 
   updateField: (schemaId, fieldName, updates) => {
@@ -303,14 +421,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       }
     }
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_FIELD', payload: { schemaId, fieldName, updates }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_FIELD', payload: { schemaId, fieldName, updates } }));
   },
 
   deleteField: (schemaId, fieldName) => {
@@ -329,14 +440,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       }
     }
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'DELETE_FIELD', payload: { schemaId, fieldName }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'DELETE_FIELD', payload: { schemaId, fieldName } }));
   },
 
   // Route actions
@@ -345,14 +449,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.routes.set(route.id, route);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
     set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
+      ...recordCommand(state, newDoc, { type: 'ADD_ROUTE', payload: route }),
       selectedRouteId: route.id,
-      commandLog: [...state.commandLog, { type: 'ADD_ROUTE', payload: route, timestamp: Date.now() }],
     });
   },
 
@@ -363,30 +462,25 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
     const newDoc = cloneDocument(state.document);
     newDoc.routes.set(id, { ...route, ...updates });
+    if (updates.path !== undefined && updates.path !== route.path) {
+      relinkPathItem(newDoc, route.path, updates.path);
+    }
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_ROUTE', payload: { id, updates }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_ROUTE', payload: { id, updates } }));
   },
 
   deleteRoute: (id) => {
     const state = get();
+    const route = state.document.routes.get(id);
     const newDoc = cloneDocument(state.document);
     newDoc.routes.delete(id);
+    if (route) {
+      relinkPathItem(newDoc, route.path);
+    }
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
     set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
+      ...recordCommand(state, newDoc, { type: 'DELETE_ROUTE', payload: { id } }),
       selectedRouteId: state.selectedRouteId === id ? null : state.selectedRouteId,
-      commandLog: [...state.commandLog, { type: 'DELETE_ROUTE', payload: { id }, timestamp: Date.now() }],
     });
   },
 
@@ -399,14 +493,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const updatedRoute = newDoc.routes.get(routeId)!;
     updatedRoute.parameters = [...updatedRoute.parameters, param];
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'ADD_PARAMETER', payload: { routeId, param }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'ADD_PARAMETER', payload: { routeId, param } }));
   },
 
   updateParameter: (routeId, paramId, updates) => {
@@ -417,17 +504,10 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     const updatedRoute = newDoc.routes.get(routeId)!;
     updatedRoute.parameters = updatedRoute.parameters.map(p =>
-      p.id === paramId ? { ...p, ...updates } : p
+      !isComponentRef(p) && p.id === paramId ? { ...p, ...updates } : p
     );
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_PARAMETER', payload: { routeId, paramId, updates }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_PARAMETER', payload: { routeId, paramId, updates } }));
   },
 
   deleteParameter: (routeId, paramId) => {
@@ -437,16 +517,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
     const newDoc = cloneDocument(state.document);
     const updatedRoute = newDoc.routes.get(routeId)!;
-    updatedRoute.parameters = updatedRoute.parameters.filter(p => p.id !== paramId);
+    updatedRoute.parameters = updatedRoute.parameters.filter(p => parameterKey(p) !== paramId);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'DELETE_PARAMETER', payload: { routeId, paramId }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'DELETE_PARAMETER', payload: { routeId, paramId } }));
   },
 
   setRequestBody: (routeId, body) => {
@@ -458,14 +531,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const updatedRoute = newDoc.routes.get(routeId)!;
     updatedRoute.requestBody = body;
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'SET_REQUEST_BODY', payload: { routeId, body }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'SET_REQUEST_BODY', payload: { routeId, body } }));
   },
 
   addResponse: (routeId, statusCode, response) => {
@@ -477,14 +543,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const updatedRoute = newDoc.routes.get(routeId)!;
     updatedRoute.responses.set(statusCode, response);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'ADD_RESPONSE', payload: { routeId, statusCode, response }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'ADD_RESPONSE', payload: { routeId, statusCode, response } }));
   },
 
   updateResponse: (routeId, statusCode, updates) => {
@@ -493,20 +552,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     if (!route) return;
 
     const response = route.responses.get(statusCode);
-    if (!response) return;
+    if (!response || isComponentRef(response)) return;
 
     const newDoc = cloneDocument(state.document);
     const updatedRoute = newDoc.routes.get(routeId)!;
     updatedRoute.responses.set(statusCode, { ...response, ...updates });
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_RESPONSE', payload: { routeId, statusCode, updates }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_RESPONSE', payload: { routeId, statusCode, updates } }));
   },
 
   deleteResponse: (routeId, statusCode) => {
@@ -518,13 +570,83 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const updatedRoute = newDoc.routes.get(routeId)!;
     updatedRoute.responses.delete(statusCode);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
+    set(recordCommand(state, newDoc, { type: 'DELETE_RESPONSE', payload: { routeId, statusCode } }));
+  },
+
+  // Path item actions
+  updatePathItem: (path, updates) => {
+    const state = get();
+    const newDoc = cloneDocument(state.document);
+    const pathItem = ensurePathItem(newDoc, path);
+    newDoc.pathItems.set(pathItem.id, { ...pathItem, ...updates });
+    
+    set(recordCommand(state, newDoc, { type: 'UPDATE_PATH_ITEM', payload: { path, updates } }));
+  },
+
+  addPathParameter: (path, param) => {
+    const state = get();
+    const newDoc = cloneDocument(state.document);
+    const pathItem = ensurePathItem(newDoc, path);
+    pathItem.parameters = [...pathItem.parameters, param];
+    
+    set(recordCommand(state, newDoc, { type: 'ADD_PATH_PARAMETER', payload: { path, param } }));
+  },
+
+  updatePathParameter: (path, paramId, updates) => {
+    const state = get();
+    if (!findPathItem(state.document, path)) return;
+
+    const newDoc = cloneDocument(state.document);
+    const pathItem = findPathItem(newDoc, path)!;
+    pathItem.parameters = pathItem.parameters.map(p =>
+      !isComponentRef(p) && p.id === paramId ? { ...p, ...updates } : p
+    );
+    
+    set(recordCommand(state, newDoc, { type: 'UPDATE_PATH_PARAMETER', payload: { path, paramId, updates } }));
+  },
+
+  deletePathParameter: (path, paramId) => {
+    const state = get();
+    if (!findPathItem(state.document, path)) return;
+
+    const newDoc = cloneDocument(state.document);
+    const pathItem = findPathItem(newDoc, path)!;
+    pathItem.parameters = pathItem.parameters.filter(p => parameterKey(p) !== paramId);
+    
+    set(recordCommand(state, newDoc, { type: 'DELETE_PATH_PARAMETER', payload: { path, paramId } }));
+  },
+
+  // Component actions
+  addComponent: (kind, component) => {
+    const state = get();
+    const newDoc = cloneDocument(state.document);
+    getComponentMap(newDoc, kind).set(component.id, component);
+    
     set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'DELETE_RESPONSE', payload: { routeId, statusCode }, timestamp: Date.now() }],
+      ...recordCommand(state, newDoc, { type: 'ADD_COMPONENT', payload: { kind, component } }),
+      selectedComponentId: component.id,
+    });
+  },
+
+  updateComponent: (kind, id, updates) => {
+    const state = get();
+    const component = getComponentMap(state.document, kind).get(id);
+    if (!component) return;
+
+    const newDoc = cloneDocument(state.document);
+    getComponentMap(newDoc, kind).set(id, { ...component, ...updates });
+    
+    set(recordCommand(state, newDoc, { type: 'UPDATE_COMPONENT', payload: { kind, id, updates } }));
+  },
+
+  deleteComponent: (kind, id) => {
+    const state = get();
+    const newDoc = cloneDocument(state.document);
+    getComponentMap(newDoc, kind).delete(id);
+    
+    set({
+      ...recordCommand(state, newDoc, { type: 'DELETE_COMPONENT', payload: { kind, id } }),
+      selectedComponentId: state.selectedComponentId === id ? null : state.selectedComponentId,
     });
   },
 
@@ -534,14 +656,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.servers.push(server);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'ADD_SERVER', payload: server, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'ADD_SERVER', payload: server }));
   },
 
   updateServer: (index, server) => {
@@ -549,14 +664,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.servers[index] = server;
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_SERVER', payload: { index, server }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_SERVER', payload: { index, server } }));
   },
 
   deleteServer: (index) => {
@@ -564,14 +672,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.servers.splice(index, 1);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'DELETE_SERVER', payload: { index }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'DELETE_SERVER', payload: { index } }));
   },
 
   // Security actions
@@ -580,14 +681,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.securitySchemes.set(scheme.id, scheme);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'ADD_SECURITY_SCHEME', payload: scheme, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'ADD_SECURITY_SCHEME', payload: scheme }));
   },
 
   updateSecurityScheme: (id, updates) => {
@@ -598,14 +692,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.securitySchemes.set(id, { ...scheme, ...updates });
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'UPDATE_SECURITY_SCHEME', payload: { id, updates }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'UPDATE_SECURITY_SCHEME', payload: { id, updates } }));
   },
 
   deleteSecurityScheme: (id) => {
@@ -613,14 +700,27 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.securitySchemes.delete(id);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'DELETE_SECURITY_SCHEME', payload: { id }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'DELETE_SECURITY_SCHEME', payload: { id } }));
+  },
+
+  setSecurity: (security) => {
+    const state = get();
+    const newDoc = cloneDocument(state.document);
+    newDoc.security = security;
+    
+    set(recordCommand(state, newDoc, { type: 'SET_SECURITY', payload: { security } }));
+  },
+
+  setRouteSecurity: (routeId, security) => {
+    const state = get();
+    const route = state.document.routes.get(routeId);
+    if (!route) return;
+
+    const newDoc = cloneDocument(state.document);
+    const updatedRoute = newDoc.routes.get(routeId)!;
+    updatedRoute.security = security;
+    
+    set(recordCommand(state, newDoc, { type: 'SET_ROUTE_SECURITY', payload: { routeId, security } }));
   },
 
   // Tag actions
@@ -631,14 +731,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       newDoc.tags.push(tag);
     }
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'ADD_TAG', payload: tag, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'ADD_TAG', payload: tag }));
   },
 
   deleteTag: (name) => {
@@ -646,30 +739,25 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const newDoc = cloneDocument(state.document);
     newDoc.tags = newDoc.tags.filter(t => t.name !== name);
     
-    const newHistory = [...state.history.slice(0, state.historyIndex + 1), cloneDocument(state.document)];
-    set({
-      document: newDoc,
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-          documentVersion: state.documentVersion + 1,
-      commandLog: [...state.commandLog, { type: 'DELETE_TAG', payload: { name }, timestamp: Date.now() }],
-    });
+    set(recordCommand(state, newDoc, { type: 'DELETE_TAG', payload: { name } }));
   },
 
   // Selection actions
   selectSchema: (id) => set({ selectedSchemaId: id }),
   selectRoute: (id) => set({ selectedRouteId: id }),
+  selectComponent: (id) => set({ selectedComponentId: id }),
+  focusNode: (id) => set({ focusedNodeId: id }),
   setActiveTab: (tab) => set({ activeTab: tab }),
   setYamlPreviewOpen: (open) => set({ yamlPreviewOpen: open }),
+  setNewRouteDialogOpen: (open) => set({ newRouteDialogOpen: open }),
 
   // History actions
   undo: () => {
     const state = get();
     if (state.historyIndex < 0) return;
     
-    const previousDoc = state.history[state.historyIndex];
     set({
-      document: previousDoc,
+      document: applyPatch(state.document, state.commandLog[state.historyIndex].inverse),
       historyIndex: state.historyIndex - 1,
       documentVersion: state.documentVersion + 1,
     });
@@ -677,20 +765,36 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   redo: () => {
     const state = get();
-    if (state.historyIndex >= state.history.length - 1) return;
+    if (state.historyIndex >= state.commandLog.length - 1) return;
     
-    const nextDoc = state.history[state.historyIndex + 2];
-    if (nextDoc) {
-      set({
-        document: nextDoc,
-        historyIndex: state.historyIndex + 1,
-        documentVersion: state.documentVersion + 1,
-      });
+    set({
+      document: applyPatch(state.document, state.commandLog[state.historyIndex + 1].patch),
+      historyIndex: state.historyIndex + 1,
+      documentVersion: state.documentVersion + 1,
+    });
+  },
+
+  jumpToCommand: (index) => {
+    const state = get();
+    const target = Math.max(-1, Math.min(index, state.commandLog.length - 1));
+    if (target === state.historyIndex) return;
+    
+    let doc = state.document;
+    for (let i = state.historyIndex; i > target; i--) {
+      doc = applyPatch(doc, state.commandLog[i].inverse);
+    }
+    for (let i = state.historyIndex + 1; i <= target; i++) {
+      doc = applyPatch(doc, state.commandLog[i].patch);
     }
+    set({
+      document: doc,
+      historyIndex: target,
+      documentVersion: state.documentVersion + 1,
+    });
   },
 
   canUndo: () => get().historyIndex >= 0,
-  canRedo: () => get().historyIndex < get().history.length - 1,
+  canRedo: () => get().historyIndex < get().commandLog.length - 1,
 
   // Helper methods
   getSchemaById: (id) => get().document.schemas.get(id),
@@ -700,36 +804,59 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const state = get();
     let count = 0;
     
-    // Check routes for references
-    for (const route of state.document.routes.values()) {
-      // Check parameters
-      for (const param of route.parameters) {
-        if (param.schema.kind === 'ref' && param.schema.targetId === id) {
-          count++;
-        }
+    const { document } = state;
+    
+    // Component refs are skipped here; their definitions are counted once below
+    const parameters = [
+      ...Array.from(document.routes.values()).flatMap((route) => route.parameters),
+      ...Array.from(document.pathItems.values()).flatMap((pathItem) => pathItem.parameters),
+      ...Array.from(document.parameters.values()).map((c) => c.definition),
+    ];
+    const requestBodies = [
+      ...Array.from(document.routes.values()).map((route) => route.requestBody),
+      ...Array.from(document.requestBodies.values()).map((c) => c.definition),
+    ];
+    const responses = [
+      ...Array.from(document.routes.values()).flatMap((route) => Array.from(route.responses.values())),
+      ...Array.from(document.responses.values()).map((c) => c.definition),
+    ];
+    
+    // Check parameters
+    for (const param of parameters) {
+      if (!isComponentRef(param) && param.schema.kind === 'ref' && param.schema.targetId === id) {
+        count++;
       }
-      
-      // Check request body
-      if (route.requestBody?.content) {
-        for (const media of route.requestBody.content.values()) {
+    }
+    
+    // Check request bodies
+    for (const body of requestBodies) {
+      if (body && !isComponentRef(body)) {
+        for (const media of body.content.values()) {
           if (media.schema.kind === 'ref' && media.schema.targetId === id) {
             count++;
           }
         }
       }
-      
-      // Check responses
-      for (const response of route.responses.values()) {
-        if (response.content) {
-          for (const media of response.content.values()) {
-            if (media.schema.kind === 'ref' && media.schema.targetId === id) {
-              count++;
-            }
+    }
+    
+    // Check responses
+    for (const response of responses) {
+      if (!isComponentRef(response) && response.content) {
+        for (const media of response.content.values()) {
+          if (media.schema.kind === 'ref' && media.schema.targetId === id) {
+            count++;
           }
         }
       }
     }
     
+    // Check headers
+    for (const header of document.headers.values()) {
+      if (header.definition.schema.kind === 'ref' && header.definition.schema.targetId === id) {
+        count++;
+      }
+    }
+    
     // Check other schemas for references
     for (const schema of state.document.schemas.values()) {
       if (schema.id === id) continue;
@@ -760,17 +887,54 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     
     return count;
   },
+
+  getComponentUsageCount: (id) => {
+    const { document } = get();
+    let count = 0;
+    
+    const countRef = (value: ComponentDefinitions[ComponentKind] | ComponentRef<ComponentKind>) => {
+      if (isComponentRef(value) && value.targetId === id) {
+        count++;
+      }
+    };
+    
+    const responses = [
+      ...Array.from(document.routes.values()).flatMap((route) => Array.from(route.responses.values())),
+      ...Array.from(document.responses.values()).map((c) => c.definition),
+    ];
+    
+    for (const route of document.routes.values()) {
+      route.parameters.forEach(countRef);
+      if (route.requestBody) countRef(route.requestBody);
+    }
+    
+    for (const pathItem of document.pathItems.values()) {
+      pathItem.parameters.forEach(countRef);
+    }
+    
+    for (const response of responses) {
+      countRef(response);
+      if (!isComponentRef(response) && response.headers) {
+        response.headers.forEach(countRef);
+      }
+    }
+    
+    return count;
+  },
   
-  // Initialize document from storage without adding to history
-  initializeDocument: (doc) => {
-    set({
+  // Initialize document from storage without adding to history; a saved
+  // command history is restored as-is. The version still moves forward so
+  // anything keyed on it (like the YAML preview) picks up the new document
+  initializeDocument: (doc, history) => {
+    set((state) => ({
       document: doc,
-      history: [],
-      historyIndex: -1,
-      documentVersion: 0,
+      historyIndex: history?.index ?? -1,
+      documentVersion: state.documentVersion + 1,
       selectedSchemaId: null,
       selectedRouteId: null,
-      commandLog: [],
-    });
+      selectedComponentId: null,
+      focusedNodeId: null,
+      commandLog: history?.commands ?? [],
+    }));
   },
 }));
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml } from './parser';
+import { isSwagger2 } from './swagger2';
+
+describe('isSwagger2', () => {
+  it('recognizes the version whether or not it is quoted', () => {
+    expect(isSwagger2({ swagger: '2.0' })).toBe(true);
+    expect(isSwagger2({ swagger: 2.0 })).toBe(true);
+    expect(isSwagger2({ openapi: '3.0.3' })).toBe(false);
+  });
+
+  it('upgrades an unquoted swagger: 2.0 document on parse', () => {
+    const result = parseYaml(`
+swagger: 2.0
+info: {title: Pets, version: '1'}
+paths:
+  /pets:
+    get:
+      responses:
+        '200': {description: OK}
+`);
+
+    expect(result.errors.map((e) => e.code)).toContain('SWAGGER2_CONVERTED');
+    expect(result.errors.filter((e) => e.severity === 'error')).toEqual([]);
+    expect(result.document?.routes.size).toBe(1);
+  });
+});
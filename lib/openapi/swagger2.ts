@@ -0,0 +1,527 @@
+import { ValidationError, isExtensionKey } from './types';
+
+type RawObject = Record<string, unknown>;
+
+interface ConversionResult {
+  spec: RawObject;
+  report: ValidationError[];
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+const FORM_MEDIA_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+
+// Swagger 2.0 oauth2 flow names and their OpenAPI 3.0 equivalents
+const OAUTH_FLOW_NAMES: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+// Keywords that sit on non-body parameters but belong to the schema in 3.0
+const PARAMETER_SCHEMA_KEYS = [
+  'type',
+  'format',
+  'items',
+  'enum',
+  'default',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'multipleOf',
+];
+
+export function isSwagger2(data: unknown): boolean {
+  return !!data && typeof data === 'object' && String((data as RawObject).swagger).startsWith('2');
+}
+
+/**
+ * Upgrade a parsed Swagger 2.0 document to its OpenAPI 3.0 shape so it can go
+ * through the regular parser. Anything without a 3.0 equivalent is dropped
+ * and listed in the report.
+ */
+export function convertSwagger2(source: RawObject): ConversionResult {
+  const report: ValidationError[] = [];
+  const globalConsumes = mediaTypeList(source.consumes);
+  const globalProduces = mediaTypeList(source.produces);
+
+  const spec: RawObject = {
+    openapi: '3.0.3',
+    info: source.info,
+  };
+
+  const servers = convertServers(source);
+  if (servers.length > 0) {
+    spec.servers = servers;
+  }
+
+  if (source.tags) spec.tags = source.tags;
+  if (source.security) spec.security = source.security;
+  if (source.externalDocs) spec.externalDocs = source.externalDocs;
+  copyExtensions(source, spec);
+
+  const components: RawObject = {};
+
+  if (source.definitions && typeof source.definitions === 'object') {
+    const schemas: RawObject = {};
+    for (const [name, schema] of Object.entries(source.definitions as RawObject)) {
+      schemas[name] = convertSchema(schema, source, report, ['definitions', name]);
+    }
+    components.schemas = schemas;
+  }
+
+  if (source.securityDefinitions && typeof source.securityDefinitions === 'object') {
+    const schemes: RawObject = {};
+    for (const [name, definition] of Object.entries(source.securityDefinitions as RawObject)) {
+      const scheme = convertSecurityScheme(definition as RawObject, ['securityDefinitions', name], report);
+      if (scheme) {
+        schemes[name] = scheme;
+      }
+    }
+    components.securitySchemes = schemes;
+  }
+
+  // Body and form parameters become request bodies in 3.0, so those stay inlined
+  if (source.parameters && typeof source.parameters === 'object') {
+    const parameters: RawObject = {};
+    for (const [name, param] of Object.entries(source.parameters as RawObject)) {
+      if (!param || typeof param !== 'object') continue;
+      const paramData = param as RawObject;
+      if (paramData.in === 'body' || paramData.in === 'formData') continue;
+      parameters[name] = convertParameter(paramData, source, ['parameters', name], report);
+    }
+    if (Object.keys(parameters).length > 0) components.parameters = parameters;
+  }
+
+  if (source.responses && typeof source.responses === 'object') {
+    const responses: RawObject = {};
+    for (const [name, response] of Object.entries(source.responses as RawObject)) {
+      if (!response || typeof response !== 'object') continue;
+      responses[name] = convertResponse(response as RawObject, globalProduces, source, ['responses', name], report);
+    }
+    if (Object.keys(responses).length > 0) components.responses = responses;
+  }
+
+  if (Object.keys(components).length > 0) {
+    spec.components = components;
+  }
+
+  if (source.paths && typeof source.paths === 'object') {
+    const paths: RawObject = {};
+    for (const [path, pathItem] of Object.entries(source.paths as RawObject)) {
+      if (!pathItem || typeof pathItem !== 'object') continue;
+      paths[path] = convertPathItem(
+        path,
+        pathItem as RawObject,
+        source,
+        globalConsumes,
+        globalProduces,
+        report
+      );
+    }
+    spec.paths = paths;
+  }
+
+  report.unshift({
+    code: 'SWAGGER2_CONVERTED',
+    message: 'Converted from Swagger 2.0 to OpenAPI 3.0.',
+    severity: 'info',
+    location: { path: ['swagger'] },
+  });
+
+  return { spec, report };
+}
+
+function convertServers(source: RawObject): RawObject[] {
+  const host = source.host as string | undefined;
+  const basePath = (source.basePath as string | undefined) || '';
+
+  if (!host) {
+    return basePath ? [{ url: basePath }] : [];
+  }
+
+  const schemes = Array.isArray(source.schemes) && source.schemes.length > 0
+    ? (source.schemes as string[])
+    : ['https'];
+
+  return schemes.map((scheme) => ({ url: `${scheme}://${host}${basePath}` }));
+}
+
+function convertSecurityScheme(
+  definition: RawObject,
+  path: string[],
+  report: ValidationError[]
+): RawObject | null {
+  const base: RawObject = {};
+  if (definition.description) base.description = definition.description;
+
+  switch (definition.type) {
+    case 'basic':
+      return { ...base, type: 'http', scheme: 'basic' };
+    case 'apiKey':
+      return { ...base, type: 'apiKey', name: definition.name, in: definition.in };
+    case 'oauth2': {
+      const flowName = OAUTH_FLOW_NAMES[definition.flow as string];
+      if (!flowName) {
+        report.push(unmapped(`Unknown OAuth2 flow "${definition.flow}"`, path));
+        return null;
+      }
+      const flow: RawObject = { scopes: definition.scopes || {} };
+      if (definition.authorizationUrl) flow.authorizationUrl = definition.authorizationUrl;
+      if (definition.tokenUrl) flow.tokenUrl = definition.tokenUrl;
+      return { ...base, type: 'oauth2', flows: { [flowName]: flow } };
+    }
+    default:
+      report.push(unmapped(`Unknown security scheme type "${definition.type}"`, path));
+      return null;
+  }
+}
+
+function convertPathItem(
+  path: string,
+  pathItem: RawObject,
+  source: RawObject,
+  globalConsumes: string[],
+  globalProduces: string[],
+  report: ValidationError[]
+): RawObject {
+  const result: RawObject = {};
+  copyExtensions(pathItem, result);
+  const sharedParams = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+
+  if (pathItem.$ref) {
+    report.push(unmapped('Path item $ref is not supported', ['paths', path, '$ref']));
+  }
+
+  for (const [method, operation] of Object.entries(pathItem)) {
+    if (!HTTP_METHODS.includes(method.toLowerCase())) continue;
+    if (!operation || typeof operation !== 'object') continue;
+
+    result[method] = convertOperation(
+      operation as RawObject,
+      sharedParams,
+      source,
+      globalConsumes,
+      globalProduces,
+      ['paths', path, method],
+      report
+    );
+  }
+
+  return result;
+}
+
+function convertOperation(
+  operation: RawObject,
+  sharedParams: unknown[],
+  source: RawObject,
+  globalConsumes: string[],
+  globalProduces: string[],
+  path: string[],
+  report: ValidationError[]
+): RawObject {
+  const consumes = operation.consumes ? mediaTypeList(operation.consumes) : globalConsumes;
+  const produces = operation.produces ? mediaTypeList(operation.produces) : globalProduces;
+
+  const result: RawObject = {};
+  for (const key of ['tags', 'summary', 'description', 'operationId', 'deprecated', 'security', 'externalDocs']) {
+    if (operation[key] !== undefined) result[key] = operation[key];
+  }
+  copyExtensions(operation, result);
+
+  if (operation.schemes) {
+    report.push(unmapped('Per-operation schemes have no OpenAPI 3.0 equivalent', [...path, 'schemes']));
+  }
+
+  // Operation parameters override path-level ones with the same name and location
+  const params = new Map<string, { param: RawObject; name?: string }>();
+  const ownParams = Array.isArray(operation.parameters) ? operation.parameters : [];
+  for (const raw of [...sharedParams, ...ownParams]) {
+    const resolved = resolveRef(raw, source, report, [...path, 'parameters']);
+    if (!resolved) continue;
+    params.set(`${resolved.value.in}:${resolved.value.name}`, { param: resolved.value, name: resolved.name });
+  }
+
+  const parameters: RawObject[] = [];
+  const formParams: RawObject[] = [];
+  let bodyParam: RawObject | null = null;
+
+  for (const { param, name } of params.values()) {
+    const paramPath = [...path, 'parameters', String(param.name)];
+    if (param.in === 'body') {
+      bodyParam = param;
+    } else if (param.in === 'formData') {
+      formParams.push(param);
+    } else if (name) {
+      parameters.push({ $ref: `#/components/parameters/${name}` });
+    } else {
+      parameters.push(convertParameter(param, source, paramPath, report));
+    }
+  }
+
+  if (parameters.length > 0) {
+    result.parameters = parameters;
+  }
+
+  if (bodyParam) {
+    const schema = convertSchema(bodyParam.schema || {}, source, report, [...path, 'parameters', 'body']);
+    const content: RawObject = {};
+    for (const mediaType of consumes) {
+      content[mediaType] = { schema };
+    }
+    result.requestBody = {
+      description: bodyParam.description,
+      required: bodyParam.required === true,
+      content,
+    };
+    if (formParams.length > 0) {
+      report.push(unmapped('Form parameters alongside a body parameter were dropped', [...path, 'parameters']));
+    }
+  } else if (formParams.length > 0) {
+    result.requestBody = convertFormParameters(formParams, consumes, source, path, report);
+  }
+
+  const responses: RawObject = {};
+  if (operation.responses && typeof operation.responses === 'object') {
+    for (const [status, raw] of Object.entries(operation.responses as RawObject)) {
+      const responsePath = [...path, 'responses', status];
+      const resolved = resolveRef(raw, source, report, responsePath);
+      if (!resolved) continue;
+      // Shared responses were converted with the global produces list, so an
+      // operation declaring its own gets an inlined copy instead
+      responses[status] =
+        resolved.name && !operation.produces
+          ? { $ref: `#/components/responses/${resolved.name}` }
+          : convertResponse(resolved.value, produces, source, responsePath, report);
+    }
+  }
+  result.responses = responses;
+
+  return result;
+}
+
+function convertParameter(
+  param: RawObject,
+  source: RawObject,
+  path: string[],
+  report: ValidationError[]
+): RawObject {
+  const result: RawObject = {
+    name: param.name,
+    in: param.in,
+    required: param.in === 'path' ? true : param.required === true,
+    schema: convertSchema(pickSchemaKeys(param), source, report, path),
+  };
+  if (param.description) result.description = param.description;
+  if (param['x-example'] !== undefined) result.example = param['x-example'];
+  copyExtensions(param, result, ['x-example', 'x-nullable']);
+
+  if (param.collectionFormat && param.collectionFormat !== 'csv') {
+    report.push(
+      unmapped(
+        `collectionFormat "${param.collectionFormat}" on parameter "${param.name}" was dropped`,
+        [...path, 'collectionFormat']
+      )
+    );
+  }
+  if (param.allowEmptyValue !== undefined) {
+    result.allowEmptyValue = param.allowEmptyValue;
+  }
+
+  return result;
+}
+
+function convertFormParameters(
+  params: RawObject[],
+  consumes: string[],
+  source: RawObject,
+  path: string[],
+  report: ValidationError[]
+): RawObject {
+  const properties: RawObject = {};
+  const required: string[] = [];
+
+  for (const param of params) {
+    const name = String(param.name);
+    const property = convertSchema(pickSchemaKeys(param), source, report, [...path, 'parameters', name]) as RawObject;
+    if (param.description) property.description = param.description;
+    properties[name] = property;
+    if (param.required) required.push(name);
+  }
+
+  const schema: RawObject = { type: 'object', properties };
+  if (required.length > 0) schema.required = required;
+
+  // File uploads only work as multipart, so prefer it when no form type is declared
+  let mediaTypes = consumes.filter((m) => FORM_MEDIA_TYPES.includes(m));
+  if (mediaTypes.length === 0) {
+    const hasFile = params.some((p) => p.type === 'file');
+    mediaTypes = [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+  }
+
+  const content: RawObject = {};
+  for (const mediaType of mediaTypes) {
+    content[mediaType] = { schema };
+  }
+
+  return {
+    required: required.length > 0,
+    content,
+  };
+}
+
+function convertResponse(
+  response: RawObject,
+  produces: string[],
+  source: RawObject,
+  path: string[],
+  report: ValidationError[]
+): RawObject {
+  const result: RawObject = {
+    description: response.description || 'Response',
+  };
+  copyExtensions(response, result);
+
+  if (response.schema) {
+    const schema = convertSchema(response.schema, source, report, [...path, 'schema']);
+    const examples = (response.examples as RawObject | undefined) || {};
+    const content: RawObject = {};
+    for (const mediaType of produces) {
+      const media: RawObject = { schema };
+      if (examples[mediaType] !== undefined) media.example = examples[mediaType];
+      content[mediaType] = media;
+    }
+    result.content = content;
+  }
+
+  if (response.headers && typeof response.headers === 'object') {
+    const headers: RawObject = {};
+    for (const [name, header] of Object.entries(response.headers as RawObject)) {
+      const headerData = header as RawObject;
+      const converted: RawObject = {
+        schema: convertSchema(pickSchemaKeys(headerData), source, report, [...path, 'headers', name]),
+      };
+      if (headerData.description) converted.description = headerData.description;
+      headers[name] = converted;
+    }
+    result.headers = headers;
+  }
+
+  return result;
+}
+
+/**
+ * Rewrite a Swagger 2.0 schema into its 3.0 form: definition refs move under
+ * components, x-nullable becomes nullable and file becomes a binary string.
+ */
+function convertSchema(
+  data: unknown,
+  source: RawObject,
+  report: ValidationError[],
+  path: string[]
+): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item, index) => convertSchema(item, source, report, [...path, String(index)]));
+  }
+  if (!data || typeof data !== 'object') {
+    return data;
+  }
+
+  const schema = data as RawObject;
+  const result: RawObject = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string') {
+      const match = value.match(/^#\/definitions\/(.+)$/);
+      if (match) {
+        result.$ref = `#/components/schemas/${match[1]}`;
+      } else {
+        report.push(unmapped(`External reference "${value}" could not be resolved`, path));
+      }
+    } else if (key === 'x-nullable') {
+      if (value === true) result.nullable = true;
+    } else if (key === 'type' && value === 'file') {
+      result.type = 'string';
+      result.format = 'binary';
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      result.discriminator = { propertyName: value };
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      const properties: RawObject = {};
+      for (const [name, prop] of Object.entries(value as RawObject)) {
+        properties[name] = convertSchema(prop, source, report, [...path, 'properties', name]);
+      }
+      result.properties = properties;
+    } else if (['items', 'additionalProperties', 'allOf', 'not'].includes(key)) {
+      result[key] = convertSchema(value, source, report, [...path, key]);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Follow a shared #/parameters or #/responses reference. The shared name comes
+ * back alongside the definition so callers can point at its converted copy
+ * under components instead of inlining it.
+ */
+function resolveRef(
+  data: unknown,
+  source: RawObject,
+  report: ValidationError[],
+  path: string[]
+): { value: RawObject; name?: string } | null {
+  if (!data || typeof data !== 'object') return null;
+
+  const ref = (data as RawObject).$ref;
+  if (typeof ref !== 'string') return { value: data as RawObject };
+
+  const match = ref.match(/^#\/(parameters|responses)\/(.+)$/);
+  const target = match ? (source[match[1]] as RawObject | undefined)?.[match[2]] : undefined;
+  if (!target || typeof target !== 'object') {
+    report.push(unmapped(`Reference "${ref}" could not be resolved`, path));
+    return null;
+  }
+  return { value: target as RawObject, name: match![2] };
+}
+
+function pickSchemaKeys(data: RawObject): RawObject {
+  const schema: RawObject = {};
+  for (const key of PARAMETER_SCHEMA_KEYS) {
+    if (data[key] !== undefined) schema[key] = data[key];
+  }
+  if (!schema.type) schema.type = 'string';
+  return schema;
+}
+
+function mediaTypeList(value: unknown): string[] {
+  return Array.isArray(value) && value.length > 0 ? (value as string[]) : [DEFAULT_MEDIA_TYPE];
+}
+
+function copyExtensions(from: RawObject, to: RawObject, skip: string[] = []) {
+  for (const [key, value] of Object.entries(from)) {
+    if (isExtensionKey(key) && !skip.includes(key)) {
+      to[key] = value;
+    }
+  }
+}
+
+function unmapped(message: string, path: string[]): ValidationError {
+  return {
+    code: 'SWAGGER2_UNMAPPED',
+    message,
+    severity: 'warning',
+    location: { path },
+  };
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml } from './parser';
+import { ApiDocument, Route } from './types';
+import {
+  TryRequestInputs,
+  TryResponse,
+  buildTryRequest,
+  checkTryResponse,
+  isDeclaredServerUrl,
+} from './try-request';
+
+const SPEC = `
+openapi: 3.0.3
+info: {title: Pets, version: '1'}
+servers:
+  - url: https://api.example.com/v1
+paths:
+  /pets/{petId}:
+    post:
+      parameters:
+        - {name: petId, in: path, required: true, schema: {type: string}}
+        - {name: limit, in: query, required: true, schema: {type: integer}}
+        - {name: tag, in: query, schema: {type: string}}
+        - {name: X-Trace, in: header, schema: {type: string}}
+        - {name: session, in: cookie, schema: {type: string}}
+      requestBody:
+        content:
+          application/json:
+            schema: {type: object}
+      security:
+        - apiKey: []
+        - basic: []
+        - bearer: []
+        - cookieKey: []
+        - queryKey: []
+        - oauth: []
+      responses:
+        '200':
+          description: Exact
+          content:
+            application/json:
+              schema:
+                type: object
+                required: [id]
+                properties:
+                  id: {type: integer}
+        '2XX':
+          description: Range
+          content:
+            text/plain:
+              schema: {type: string}
+        '4XX':
+          description: Client error
+          content:
+            application/json:
+              schema: {type: object}
+        default:
+          description: Anything else
+          content:
+            application/json:
+              schema: {type: object}
+components:
+  securitySchemes:
+    apiKey: {type: apiKey, in: header, name: X-Api-Key}
+    basic: {type: http, scheme: basic}
+    bearer: {type: http, scheme: bearer}
+    cookieKey: {type: apiKey, in: cookie, name: token}
+    queryKey: {type: apiKey, in: query, name: key}
+    oauth:
+      type: oauth2
+      flows:
+        clientCredentials: {tokenUrl: 'https://auth.example.com/token', scopes: {}}
+`;
+
+function load(): { doc: ApiDocument; route: Route } {
+  const doc = parseYaml(SPEC).document!;
+  return { doc, route: Array.from(doc.routes.values())[0] };
+}
+
+function inputs(overrides: Partial<TryRequestInputs> = {}): TryRequestInputs {
+  return {
+    baseUrl: 'https://api.example.com/v1/',
+    params: { 'path:petId': 'a b', 'query:limit': '10' },
+    credentials: {},
+    ...overrides,
+  };
+}
+
+function schemeId(doc: ApiDocument, name: string): string {
+  return Array.from(doc.securitySchemes.values()).find((scheme) => scheme.name === name)!.id;
+}
+
+function response(status: number, contentType: string | undefined, body: string): TryResponse {
+  return {
+    status,
+    statusText: '',
+    headers: contentType ? [['Content-Type', contentType]] : [],
+    body,
+    durationMs: 1,
+  };
+}
+
+describe('buildTryRequest', () => {
+  it('places each parameter where it is declared', () => {
+    const { doc, route } = load();
+    const { request, missing } = buildTryRequest(
+      doc,
+      route,
+      inputs({
+        params: {
+          'path:petId': 'a b',
+          'query:limit': '10',
+          'query:tag': 'x&y',
+          'header:X-Trace': 'abc',
+          'cookie:session': 's 1',
+        },
+      })
+    );
+
+    expect(missing).toEqual([]);
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('https://api.example.com/v1/pets/a%20b?limit=10&tag=x%26y');
+    expect(request.headers['X-Trace']).toBe('abc');
+    expect(request.headers.Cookie).toBe('session=s%201');
+  });
+
+  it('lists required and path parameters left empty instead of sending them', () => {
+    const { doc, route } = load();
+    const { request, missing } = buildTryRequest(doc, route, inputs({ params: { 'query:tag': 'x' } }));
+
+    expect(missing).toEqual(['petId (path)', 'limit (query)']);
+    expect(request.url).toBe('https://api.example.com/v1/pets/{petId}?tag=x');
+  });
+
+  it('sends the body only with a content type', () => {
+    const { doc, route } = load();
+    const withType = buildTryRequest(doc, route, inputs({ contentType: 'application/json', body: '{}' }));
+    const withoutType = buildTryRequest(doc, route, inputs({ body: '{}' }));
+
+    expect(withType.request.body).toBe('{}');
+    expect(withType.request.headers['Content-Type']).toBe('application/json');
+    expect(withoutType.request.body).toBeUndefined();
+    expect(withoutType.request.headers['Content-Type']).toBeUndefined();
+  });
+
+  it('places credentials according to their security scheme', () => {
+    const { doc, route } = load();
+    const send = (name: string, credential: TryRequestInputs['credentials'][string]) => {
+      const id = schemeId(doc, name);
+      return buildTryRequest(
+        doc,
+        route,
+        inputs({
+          params: { 'path:petId': '1', 'query:limit': '10', 'cookie:session': 's' },
+          security: [{ schemeId: id, scopes: [] }],
+          credentials: { [id]: credential },
+        })
+      ).request;
+    };
+
+    expect(send('apiKey', { value: 'k' }).headers['X-Api-Key']).toBe('k');
+    expect(send('queryKey', { value: 'k' }).url).toBe('https://api.example.com/v1/pets/1?limit=10&key=k');
+    expect(send('cookieKey', { value: 'k 1' }).headers.Cookie).toBe('session=s; token=k%201');
+    expect(send('basic', { username: 'ana', password: 'pä' }).headers.Authorization).toBe(
+      `Basic ${Buffer.from('ana:pä').toString('base64')}`
+    );
+    expect(send('bearer', { value: 't' }).headers.Authorization).toBe('Bearer t');
+    expect(send('oauth', { value: 't' }).headers.Authorization).toBe('Bearer t');
+    expect(send('basic', {}).headers.Authorization).toBeUndefined();
+  });
+});
+
+describe('checkTryResponse', () => {
+  it('prefers the exact status code over its range', () => {
+    const { doc, route } = load();
+    const check = checkTryResponse(doc, route, response(200, 'application/json', '{"id": "x"}'));
+
+    expect(check.kind).toBe('checked');
+    expect(check.kind === 'checked' && check.statusCode).toBe('200');
+    expect(check.kind === 'checked' && check.errors.length).toBeGreaterThan(0);
+  });
+
+  it('falls back to the range, then to default', () => {
+    const { doc, route } = load();
+
+    expect(checkTryResponse(doc, route, response(201, 'text/plain', 'ok'))).toEqual({
+      kind: 'no-schema',
+      statusCode: '2XX',
+      contentType: 'text/plain',
+    });
+    expect(checkTryResponse(doc, route, response(404, 'application/json', '{}'))).toMatchObject({
+      kind: 'checked',
+      statusCode: '4XX',
+      errors: [],
+    });
+    expect(checkTryResponse(doc, route, response(503, 'application/json', '{}'))).toMatchObject({
+      kind: 'checked',
+      statusCode: 'default',
+    });
+  });
+
+  it('reports statuses the route does not declare', () => {
+    const { doc, route } = load();
+    route.responses.delete('default');
+
+    expect(checkTryResponse(doc, route, response(503, undefined, ''))).toEqual({
+      kind: 'undeclared',
+      status: 503,
+    });
+  });
+
+  it('reports JSON bodies that do not parse', () => {
+    const { doc, route } = load();
+
+    expect(checkTryResponse(doc, route, response(200, 'application/json; charset=utf-8', '{'))).toMatchObject({
+      kind: 'unparsed',
+      statusCode: '200',
+    });
+  });
+});
+
+describe('isDeclaredServerUrl', () => {
+  const servers = ['https://api.example.com/v1', 'https://{region}.example.com:{port}/'];
+
+  it('accepts URLs under a declared server', () => {
+    expect(isDeclaredServerUrl('https://api.example.com/v1/pets?x=1', servers)).toBe(true);
+    expect(isDeclaredServerUrl('https://eu.example.com:8443/pets', servers)).toBe(true);
+  });
+
+  it('rejects other hosts and look-alikes', () => {
+    expect(isDeclaredServerUrl('https://api.example.com/v2/pets', servers)).toBe(false);
+    expect(isDeclaredServerUrl('https://api.example.com.evil.test/v1', servers)).toBe(false);
+    expect(isDeclaredServerUrl('https://evil.test/eu.example.com:1/', servers)).toBe(false);
+    expect(isDeclaredServerUrl('not a url', servers)).toBe(false);
+  });
+});
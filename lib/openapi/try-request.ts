@@ -0,0 +1,243 @@
+import {
+  ApiDocument,
+  MediaType,
+  ParameterDef,
+  Route,
+  SecurityAlternative,
+  SecurityScheme,
+  getEffectiveParameters,
+  isJsonMediaType,
+  resolveComponent,
+} from './types';
+import { InstanceError, validateInstance } from './instance-validator';
+
+// What the user typed for one security scheme; which fields apply depends on its type
+export interface SchemeCredential {
+  value?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface TryRequestInputs {
+  baseUrl: string;
+  // Keyed by parameterKey, so a query and a header of the same name stay apart
+  params: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  // The security alternative to satisfy, with credentials keyed by scheme id
+  security?: SecurityAlternative;
+  credentials: Record<string, SchemeCredential>;
+}
+
+export interface TryRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface TryResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+  durationMs: number;
+}
+
+export function parameterKey(param: Pick<ParameterDef, 'in' | 'name'>): string {
+  return `${param.in}:${param.name}`;
+}
+
+// The parameters a route receives, with refs to shared parameters resolved
+export function getRequestParameters(doc: ApiDocument, route: Route): ParameterDef[] {
+  return getEffectiveParameters(doc, route)
+    .map(({ parameter }) => resolveComponent(doc, parameter))
+    .filter((param): param is ParameterDef => !!param);
+}
+
+// Security alternatives that apply to a route; operation security replaces the document's
+export function getRouteSecurity(doc: ApiDocument, route: Route): SecurityAlternative[] {
+  return route.security ?? doc.security ?? [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a request URL falls under one of the server URLs a document
+ * declares. A {variable} in a server URL matches anything up to the next
+ * slash, so requests can use values other than the defaults.
+ */
+export function isDeclaredServerUrl(url: string, serverUrls: string[]): boolean {
+  let href: string;
+  try {
+    href = new URL(url).href;
+  } catch {
+    return false;
+  }
+  return serverUrls.some((serverUrl) => {
+    const pattern = serverUrl
+      .replace(/\/+$/, '')
+      .split(/(\{[^{}]+\})/)
+      .map((part) => (/^\{[^{}]+\}$/.test(part) ? '[^/?#@]+' : escapeRegExp(part)))
+      .join('');
+    return new RegExp(`^${pattern}(?:[/?#]|$)`, 'i').test(href);
+  });
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Build the request for a route from the values entered in the console.
+ * Required parameters left empty are listed in `missing` rather than sent.
+ */
+export function buildTryRequest(
+  doc: ApiDocument,
+  route: Route,
+  inputs: TryRequestInputs
+): { request: TryRequest; missing: string[] } {
+  const missing: string[] = [];
+  const headers: Record<string, string> = {};
+  const query = new URLSearchParams();
+  const cookies: string[] = [];
+  let path = route.path;
+
+  for (const param of getRequestParameters(doc, route)) {
+    const value = inputs.params[parameterKey(param)] ?? '';
+    if (value === '') {
+      if (param.required || param.in === 'path') missing.push(`${param.name} (${param.in})`);
+      continue;
+    }
+    switch (param.in) {
+      case 'path':
+        path = path.split(`{${param.name}}`).join(encodeURIComponent(value));
+        break;
+      case 'query':
+        query.append(param.name, value);
+        break;
+      case 'header':
+        headers[param.name] = value;
+        break;
+      case 'cookie':
+        cookies.push(`${param.name}=${encodeURIComponent(value)}`);
+        break;
+    }
+  }
+
+  for (const requirement of inputs.security ?? []) {
+    const scheme = doc.securitySchemes.get(requirement.schemeId);
+    const credential = inputs.credentials[requirement.schemeId];
+    if (scheme && credential) {
+      applyCredential(scheme, credential, { headers, query, cookies });
+    }
+  }
+
+  if (cookies.length > 0) {
+    headers.Cookie = cookies.join('; ');
+  }
+
+  let body: string | undefined;
+  if (inputs.body && inputs.contentType) {
+    headers['Content-Type'] = inputs.contentType;
+    body = inputs.body;
+  }
+
+  const queryString = query.toString();
+  const url = `${inputs.baseUrl.replace(/\/+$/, '')}${path}${queryString ? `?${queryString}` : ''}`;
+  return { request: { method: route.method.toUpperCase(), url, headers, body }, missing };
+}
+
+function applyCredential(
+  scheme: SecurityScheme,
+  credential: SchemeCredential,
+  target: { headers: Record<string, string>; query: URLSearchParams; cookies: string[] }
+) {
+  switch (scheme.type) {
+    case 'apiKey':
+      if (!credential.value || !scheme.paramName) return;
+      if (scheme.in === 'query') {
+        target.query.append(scheme.paramName, credential.value);
+      } else if (scheme.in === 'cookie') {
+        target.cookies.push(`${scheme.paramName}=${encodeURIComponent(credential.value)}`);
+      } else {
+        target.headers[scheme.paramName] = credential.value;
+      }
+      return;
+
+    case 'http': {
+      const httpScheme = (scheme.scheme ?? 'bearer').toLowerCase();
+      if (httpScheme === 'basic') {
+        if (!credential.username && !credential.password) return;
+        const userPass = `${credential.username ?? ''}:${credential.password ?? ''}`;
+        target.headers.Authorization = `Basic ${encodeBase64(userPass)}`;
+      } else if (credential.value) {
+        const label = httpScheme === 'bearer' ? 'Bearer' : scheme.scheme!;
+        target.headers.Authorization = `${label} ${credential.value}`;
+      }
+      return;
+    }
+
+    // Tokens are obtained outside the console and sent as bearer tokens
+    case 'oauth2':
+    case 'openIdConnect':
+      if (credential.value) {
+        target.headers.Authorization = `Bearer ${credential.value}`;
+      }
+      return;
+  }
+}
+
+export type ResponseCheck =
+  | { kind: 'undeclared'; status: number }
+  | { kind: 'no-schema'; statusCode: string; contentType?: string }
+  | { kind: 'unparsed'; statusCode: string; contentType: string; message: string }
+  | { kind: 'checked'; statusCode: string; contentType: string; errors: InstanceError[] };
+
+// The media type a response content type falls under: exact, then type/*, then */*
+function findMediaType(content: Map<string, MediaType>, contentType: string): [string, MediaType] | undefined {
+  const essence = contentType.split(';')[0].trim().toLowerCase();
+  const candidates = [essence, `${essence.split('/')[0]}/*`, '*/*'];
+  for (const candidate of candidates) {
+    for (const [type, media] of content) {
+      if (type.split(';')[0].trim().toLowerCase() === candidate) return [type, media];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a received response against what the route declares for its status:
+ * the exact code, then its range (e.g. 4XX), then `default`. Only JSON bodies
+ * are checked against the schema.
+ */
+export function checkTryResponse(doc: ApiDocument, route: Route, response: TryResponse): ResponseCheck {
+  const range = `${String(response.status)[0]}XX`;
+  const statusCode = [String(response.status), range, range.toLowerCase(), 'default'].find((code) =>
+    route.responses.has(code)
+  );
+  if (!statusCode) return { kind: 'undeclared', status: response.status };
+
+  const declared = resolveComponent(doc, route.responses.get(statusCode)!);
+  const contentType = response.headers.find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  const match = declared?.content && contentType ? findMediaType(declared.content, contentType) : undefined;
+  if (!match || !contentType || !isJsonMediaType(contentType)) {
+    return { kind: 'no-schema', statusCode, contentType };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(response.body);
+  } catch (error) {
+    return {
+      kind: 'unparsed',
+      statusCode,
+      contentType,
+      message: error instanceof Error ? error.message : 'Invalid JSON',
+    };
+  }
+  return { kind: 'checked', statusCode, contentType, errors: validateInstance(value, match[1].schema, doc) };
+}
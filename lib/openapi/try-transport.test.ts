@@ -0,0 +1,182 @@
+import http from 'node:http';
+import { AddressInfo, LookupFunction, isIP } from 'node:net';
+import zlib from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TryRequest } from './try-request';
+import { isPrivateAddress, performTryRequest } from './try-transport';
+
+// Answers every host name with the given addresses
+function resolveTo(...addresses: string[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    const all = addresses.map((address) => ({ address, family: isIP(address) }));
+    if (options.all) {
+      callback(null, all);
+    } else {
+      callback(null, all[0].address, all[0].family);
+    }
+  };
+}
+
+function get(url: string, overrides: Partial<TryRequest> = {}): TryRequest {
+  return { method: 'GET', url, headers: {}, ...overrides };
+}
+
+describe('performTryRequest against a stub server', () => {
+  let server: http.Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        if (req.url === '/slow') return;
+        if (req.url === '/gzip') {
+          res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Encoding': 'gzip' });
+          res.end(zlib.gzipSync('compressed'));
+          return;
+        }
+        if (req.url === '/moved') {
+          res.writeHead(302, { Location: 'http://169.254.169.254/' });
+          res.end();
+          return;
+        }
+        res.writeHead(201, 'Made', [
+          ['Content-Type', 'application/json'],
+          ['Set-Cookie', 'a=1'],
+          ['Set-Cookie', 'b=2'],
+        ]);
+        res.end(
+          JSON.stringify({
+            method: req.method,
+            url: req.url,
+            auth: req.headers.authorization,
+            body: Buffer.concat(chunks).toString('utf8'),
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('sends the method, URL, headers and body and reads the response', async () => {
+    const result = await performTryRequest(
+      get(`${origin}/v1/pets?limit=1`, { method: 'POST', headers: { Authorization: 'Bearer t' }, body: '{"a":1}' }),
+      { serverUrls: [`${origin}/v1`], allowPrivateNetwork: true }
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.response).toMatchObject({ status: 201, statusText: 'Made' });
+    expect(result.response!.headers.filter(([name]) => name === 'Set-Cookie')).toEqual([
+      ['Set-Cookie', 'a=1'],
+      ['Set-Cookie', 'b=2'],
+    ]);
+    expect(JSON.parse(result.response!.body)).toEqual({
+      method: 'POST',
+      url: '/v1/pets?limit=1',
+      auth: 'Bearer t',
+      body: '{"a":1}',
+    });
+  });
+
+  it('leaves the body off GET requests', async () => {
+    const result = await performTryRequest(get(`${origin}/`, { body: 'ignored' }), {
+      serverUrls: [origin],
+      allowPrivateNetwork: true,
+    });
+
+    expect(JSON.parse(result.response!.body).body).toBe('');
+  });
+
+  it('decompresses encoded bodies', async () => {
+    const result = await performTryRequest(get(`${origin}/gzip`), { serverUrls: [origin], allowPrivateNetwork: true });
+
+    expect(result.response!.body).toBe('compressed');
+  });
+
+  it('returns redirects without following them', async () => {
+    const result = await performTryRequest(get(`${origin}/moved`), { serverUrls: [origin], allowPrivateNetwork: true });
+
+    expect(result.response).toMatchObject({ status: 302 });
+  });
+
+  it('reaches a private host name only when allowed', async () => {
+    const port = (server.address() as AddressInfo).port;
+    const url = `http://api.internal.test:${port}/`;
+    const options = { serverUrls: [`http://{host}:${port}`], lookup: resolveTo('127.0.0.1') };
+
+    expect((await performTryRequest(get(url), options)).error).toMatch(/private or local network/);
+    expect((await performTryRequest(get(url), { ...options, allowPrivateNetwork: true })).response).toMatchObject({
+      status: 201,
+    });
+  });
+
+  it('gives up after the timeout', async () => {
+    const result = await performTryRequest(get(`${origin}/slow`), {
+      serverUrls: [origin],
+      allowPrivateNetwork: true,
+      timeoutMs: 200,
+    });
+
+    expect(result.error).toBe('No response within 0.2 seconds.');
+  });
+});
+
+describe('performTryRequest target checks', () => {
+  it('refuses servers the document does not declare', async () => {
+    const result = await performTryRequest(get('https://other.example.com/'), {
+      serverUrls: ['https://api.example.com'],
+      lookup: resolveTo('93.184.216.34'),
+    });
+
+    expect(result.error).toBe('Requests can only go to the servers the document declares.');
+  });
+
+  it('refuses other protocols', async () => {
+    const result = await performTryRequest(get('file:///etc/passwd'), { serverUrls: ['file:///'] });
+
+    expect(result.error).toMatch(/Only HTTP and HTTPS/);
+  });
+
+  it.each(['127.0.0.1', '10.0.0.5', '169.254.169.254', '[::1]', '[fe80::1]', '[::ffff:127.0.0.1]'])(
+    'refuses the address literal %s',
+    async (host) => {
+      const result = await performTryRequest(get(`http://${host}/`), { serverUrls: ['http://{host}'] });
+
+      expect(result.error).toMatch(/private or local network/);
+    }
+  );
+
+  it('refuses host names with any private address', async () => {
+    const result = await performTryRequest(get('http://mixed.example.com/'), {
+      serverUrls: ['http://mixed.example.com'],
+      lookup: resolveTo('93.184.216.34', '192.168.1.10'),
+    });
+
+    expect(result.error).toMatch(/mixed\.example\.com points into a private or local network/);
+  });
+
+  it('reports servers that cannot be reached', async () => {
+    const result = await performTryRequest(get('http://127.0.0.1:1/'), {
+      serverUrls: ['http://127.0.0.1:1'],
+      allowPrivateNetwork: true,
+    });
+
+    expect(result.error).toMatch(/^Could not reach the server: .*ECONNREFUSED/);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('tells private and public addresses apart', () => {
+    const privateAddresses = ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.1', '100.64.0.1', '::1', 'fd00::1'];
+
+    expect(privateAddresses.every(isPrivateAddress)).toBe(true);
+    expect(['93.184.216.34', '172.32.0.1', '2606:4700::1111', 'example.com'].some(isPrivateAddress)).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { lookup as dnsLookup } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import zlib from 'node:zlib';
+import { TryRequest, TryResponse, isDeclaredServerUrl } from './try-request';
+
+// Server-side half of the Try It Out console. It only runs in the server action,
+// since it opens connections on behalf of whoever can call that action.
+
+export interface TransportOptions {
+  // Server URLs the document declares; requests anywhere else are refused
+  serverUrls: string[];
+  // Allow loopback, private and link-local targets, e.g. an API on localhost
+  allowPrivateNetwork?: boolean;
+  // Resolves host names, defaults to dns.lookup
+  lookup?: LookupFunction;
+  timeoutMs?: number;
+}
+
+// Requests that take longer than this are abandoned
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// Methods that do not carry a body
+const BODILESS_METHODS = ['GET', 'HEAD'];
+
+// Addresses that point into the network the editor is deployed in rather than the internet
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+class BlockedAddressError extends Error {
+  constructor(host: string) {
+    super(
+      `${host} points into a private or local network. Set TRY_IT_ALLOW_PRIVATE_NETWORK=true ` +
+        'where the editor runs to send requests there.'
+    );
+    this.name = 'BlockedAddressError';
+  }
+}
+
+/**
+ * Wrap a lookup so connections to private addresses fail. The check runs on
+ * the addresses the socket actually connects to, so a host name cannot pass
+ * one resolution and then connect through another.
+ */
+function guardLookup(lookup: LookupFunction): LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, result) => {
+      if (error) return callback(error, '');
+      const addresses = typeof result === 'string' ? [{ address: result, family: isIP(result) }] : result;
+      if (addresses.some(({ address }) => isPrivateAddress(address))) {
+        return callback(new BlockedAddressError(hostname), '');
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+function decodeBody(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.gunzipSync(body);
+    case 'deflate':
+      return zlib.inflateSync(body);
+    case 'br':
+      return zlib.brotliDecompressSync(body);
+    default:
+      return body;
+  }
+}
+
+function send(url: URL, request: TryRequest, lookup: LookupFunction | undefined, timeoutMs: number) {
+  return new Promise<TryResponse>((resolve, reject) => {
+    const started = Date.now();
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(
+      url,
+      {
+        method: request.method,
+        headers: request.headers,
+        lookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          try {
+            const headers: [string, string][] = [];
+            for (let i = 0; i < res.rawHeaders.length; i += 2) {
+              headers.push([res.rawHeaders[i], res.rawHeaders[i + 1]]);
+            }
+            resolve({
+              status: res.statusCode ?? 0,
+              statusText: res.statusMessage ?? '',
+              headers,
+              body: decodeBody(Buffer.concat(chunks), res.headers['content-encoding']).toString('utf8'),
+              durationMs: Date.now() - started,
+            });
+          } catch (error) {
+            reject(error);
+          }
+        });
+      }
+    );
+    req.on('error', reject);
+    req.end(BODILESS_METHODS.includes(request.method) ? undefined : request.body);
+  });
+}
+
+/**
+ * Send a Try It Out request and read the whole response. Redirects are
+ * returned as they are rather than followed. Failures come back as a message
+ * for the console instead of being thrown.
+ */
+export async function performTryRequest(
+  request: TryRequest,
+  options: TransportOptions
+): Promise<{ response?: TryResponse; error?: string }> {
+  const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return { error: 'Invalid URL format.' };
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return { error: 'Invalid URL protocol. Only HTTP and HTTPS are allowed.' };
+  }
+  if (!isDeclaredServerUrl(url.href, options.serverUrls)) {
+    return { error: 'Requests can only go to the servers the document declares.' };
+  }
+
+  // Address literals never reach the lookup, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!options.allowPrivateNetwork && isPrivateAddress(host)) {
+    return { error: new BlockedAddressError(host).message };
+  }
+  const lookup = options.allowPrivateNetwork ? options.lookup : guardLookup(options.lookup ?? dnsLookup);
+
+  try {
+    return { response: await send(url, request, lookup, timeoutMs) };
+  } catch (error) {
+    if (error instanceof BlockedAddressError) {
+      return { error: error.message };
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      return { error: `No response within ${timeoutMs / 1000} seconds.` };
+    }
+    return { error: `Could not reach the server: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
@@ -2,8 +2,13 @@
 
 export type NodeId = string;
 
+export type OpenApiVersion = '3.0.3' | '3.1.0';
+
 export type HttpMethod = 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head';
 
+// Vendor extensions (x-* keys), kept verbatim for round-tripping
+export type Extensions = Record<string, unknown>;
+
 export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'oneOf' | 'anyOf' | 'allOf';
 
 // References are TYPED EDGES, not strings
@@ -19,6 +24,38 @@ export interface InlineSchema {
 
 export type SchemaOrRef = SchemaRef | InlineSchema;
 
+// Reusable component kinds beyond schemas and security schemes
+export type ComponentKind = 'responses' | 'parameters' | 'requestBodies' | 'headers';
+
+export const COMPONENT_KINDS: ComponentKind[] = ['responses', 'parameters', 'requestBodies', 'headers'];
+
+// Typed edge to a reusable component, the counterpart of SchemaRef
+export interface ComponentRef<K extends ComponentKind> {
+  kind: 'ref';
+  component: K;
+  targetId: NodeId;
+}
+
+export type ParameterOrRef = ParameterDef | ComponentRef<'parameters'>;
+export type RequestBodyOrRef = RequestBody | ComponentRef<'requestBodies'>;
+export type ResponseOrRef = ResponseDef | ComponentRef<'responses'>;
+export type HeaderOrRef = HeaderDef | ComponentRef<'headers'>;
+
+// Named entry under components/<kind>; kept apart from the definition because
+// a parameter's own name is not its component key
+export interface Component<T> {
+  id: NodeId;
+  name: string;
+  definition: T;
+}
+
+export interface ComponentDefinitions {
+  responses: ResponseDef;
+  parameters: ParameterDef;
+  requestBodies: RequestBody;
+  headers: HeaderDef;
+}
+
 export interface PropertyDef {
   name: string;
   schema: SchemaOrRef;
@@ -37,6 +74,8 @@ export interface SchemaNode {
   enumValues?: string[];
   required?: string[];
   format?: string;
+  nullable?: boolean;
+  const?: unknown;
   example?: unknown;
   default?: unknown;
   minimum?: number;
@@ -48,6 +87,7 @@ export interface SchemaNode {
     propertyName: string;
     mapping?: Record<string, string>;
   };
+  extensions?: Extensions;
 }
 
 export interface ParameterDef {
@@ -58,6 +98,17 @@ export interface ParameterDef {
   schema: SchemaOrRef;
   description?: string;
   example?: unknown;
+  examples?: Map<string, ExampleDef>;
+  extensions?: Extensions;
+}
+
+export interface HeaderDef {
+  id: NodeId;
+  description?: string;
+  required: boolean;
+  schema: SchemaOrRef;
+  example?: unknown;
+  extensions?: Extensions;
 }
 
 export interface RequestBody {
@@ -67,16 +118,41 @@ export interface RequestBody {
   content: Map<string, MediaType>;
 }
 
+// A named example; value and externalValue are mutually exclusive
+export interface ExampleDef {
+  summary?: string;
+  description?: string;
+  value?: unknown;
+  externalValue?: string;
+}
+
 export interface MediaType {
   schema: SchemaOrRef;
   example?: unknown;
+  examples?: Map<string, ExampleDef>;
+  // Per-property encoding of multipart and urlencoded bodies, keyed by property name
+  encoding?: Map<string, EncodingDef>;
+}
+
+export type EncodingStyle = 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+
+export interface EncodingDef {
+  // multipart only: the part's Content-Type, e.g. image/png for a file part
+  contentType?: string;
+  // multipart only: extra headers of the part; Content-Type is not allowed here
+  headers?: Map<string, HeaderOrRef>;
+  // urlencoded only, as for query parameters
+  style?: EncodingStyle;
+  explode?: boolean;
+  allowReserved?: boolean;
 }
 
 export interface ResponseDef {
   id: NodeId;
   description: string;
   content?: Map<string, MediaType>;
-  headers?: Map<string, ParameterDef>;
+  headers?: Map<string, HeaderOrRef>;
+  extensions?: Extensions;
 }
 
 export interface SecurityScheme {
@@ -110,11 +186,32 @@ export interface OAuthFlow {
   scopes: Record<string, string>;
 }
 
+export type OAuthFlowType = keyof OAuthFlows;
+
+export const OAUTH_FLOW_TYPES: OAuthFlowType[] = [
+  'authorizationCode',
+  'clientCredentials',
+  'password',
+  'implicit',
+];
+
+// URLs each flow type must declare; refreshUrl is always optional
+export const OAUTH_FLOW_URLS: Record<OAuthFlowType, ('authorizationUrl' | 'tokenUrl')[]> = {
+  implicit: ['authorizationUrl'],
+  password: ['tokenUrl'],
+  clientCredentials: ['tokenUrl'],
+  authorizationCode: ['authorizationUrl', 'tokenUrl'],
+};
+
 export interface SecurityRequirement {
   schemeId: NodeId;
   scopes: string[];
 }
 
+// One entry of a `security` array. Every scheme in it must be satisfied, while the
+// entries of the array are alternatives; an empty entry allows anonymous access
+export type SecurityAlternative = SecurityRequirement[];
+
 export interface Tag {
   name: string;
   description?: string;
@@ -146,6 +243,7 @@ export interface InfoObject {
     name: string;
     url?: string;
   };
+  extensions?: Extensions;
 }
 
 export interface Route {
@@ -156,56 +254,154 @@ export interface Route {
   description?: string;
   operationId?: string;
   tags: string[];
-  parameters: ParameterDef[];
-  requestBody?: RequestBody;
-  responses: Map<string, ResponseDef>;
-  security?: SecurityRequirement[];
+  parameters: ParameterOrRef[];
+  requestBody?: RequestBodyOrRef;
+  responses: Map<string, ResponseOrRef>;
+  // undefined inherits the document default; [] opts the operation out of security
+  security?: SecurityAlternative[];
   deprecated?: boolean;
+  extensions?: Extensions;
+}
+
+// Metadata shared by every operation on a path; routes are linked by path string
+export interface PathItem {
+  id: NodeId;
+  path: string;
+  summary?: string;
+  description?: string;
+  servers?: Server[];
+  parameters: ParameterOrRef[];
+  extensions?: Extensions;
 }
 
 export interface ApiDocument {
   id: NodeId;
+  openapiVersion: OpenApiVersion;
   info: InfoObject;
   servers: Server[];
   routes: Map<NodeId, Route>;
+  pathItems: Map<NodeId, PathItem>;
   schemas: Map<NodeId, SchemaNode>;
   securitySchemes: Map<NodeId, SecurityScheme>;
+  responses: Map<NodeId, Component<ResponseDef>>;
+  parameters: Map<NodeId, Component<ParameterDef>>;
+  requestBodies: Map<NodeId, Component<RequestBody>>;
+  headers: Map<NodeId, Component<HeaderDef>>;
   tags: Tag[];
+  security?: SecurityAlternative[];
+  extensions?: Extensions;
+}
+
+// What each state mutation records about itself, mirroring the arguments of
+// the matching store action. Whole-document replacements record nothing
+export interface CommandPayloads {
+  ADD_SCHEMA: SchemaNode;
+  UPDATE_SCHEMA: { id: NodeId; updates: Partial<SchemaNode> };
+  DELETE_SCHEMA: { id: NodeId };
+  ADD_FIELD: { schemaId: NodeId; field: PropertyDef };
+  UPDATE_FIELD: { schemaId: NodeId; fieldName: string; updates: Partial<PropertyDef> };
+  DELETE_FIELD: { schemaId: NodeId; fieldName: string };
+  ADD_ROUTE: Route;
+  UPDATE_ROUTE: { id: NodeId; updates: Partial<Route> };
+  DELETE_ROUTE: { id: NodeId };
+  UPDATE_PATH_ITEM: { path: string; updates: Partial<Omit<PathItem, 'id' | 'path'>> };
+  ADD_PATH_PARAMETER: { path: string; param: ParameterOrRef };
+  UPDATE_PATH_PARAMETER: { path: string; paramId: NodeId; updates: Partial<ParameterDef> };
+  DELETE_PATH_PARAMETER: { path: string; paramId: NodeId };
+  ADD_PARAMETER: { routeId: NodeId; param: ParameterOrRef };
+  UPDATE_PARAMETER: { routeId: NodeId; paramId: NodeId; updates: Partial<ParameterDef> };
+  DELETE_PARAMETER: { routeId: NodeId; paramId: NodeId };
+  ADD_RESPONSE: { routeId: NodeId; statusCode: string; response: ResponseOrRef };
+  UPDATE_RESPONSE: { routeId: NodeId; statusCode: string; updates: Partial<ResponseDef> };
+  DELETE_RESPONSE: { routeId: NodeId; statusCode: string };
+  SET_REQUEST_BODY: { routeId: NodeId; body: RequestBodyOrRef | undefined };
+  UPDATE_INFO: Partial<InfoObject>;
+  SET_OPENAPI_VERSION: { version: OpenApiVersion };
+  ADD_SERVER: Server;
+  UPDATE_SERVER: { index: number; server: Server };
+  DELETE_SERVER: { index: number };
+  ADD_SECURITY_SCHEME: SecurityScheme;
+  UPDATE_SECURITY_SCHEME: { id: NodeId; updates: Partial<SecurityScheme> };
+  DELETE_SECURITY_SCHEME: { id: NodeId };
+  SET_SECURITY: { security: SecurityAlternative[] | undefined };
+  SET_ROUTE_SECURITY: { routeId: NodeId; security: SecurityAlternative[] | undefined };
+  ADD_COMPONENT: { kind: ComponentKind; component: Component<ComponentDefinitions[ComponentKind]> };
+  UPDATE_COMPONENT: {
+    kind: ComponentKind;
+    id: NodeId;
+    updates: Partial<Component<ComponentDefinitions[ComponentKind]>>;
+  };
+  DELETE_COMPONENT: { kind: ComponentKind; id: NodeId };
+  ADD_TAG: Tag;
+  DELETE_TAG: { name: string };
+  IMPORT_DOCUMENT: null;
+  EDIT_SOURCE: null;
+  MERGE_DOCUMENT: null;
 }
 
 // Command types for state mutations
-export type CommandType =
-  | 'ADD_SCHEMA'
-  | 'UPDATE_SCHEMA'
-  | 'DELETE_SCHEMA'
-  | 'ADD_FIELD'
-  | 'UPDATE_FIELD'
-  | 'DELETE_FIELD'
-  | 'ADD_ROUTE'
-  | 'UPDATE_ROUTE'
-  | 'DELETE_ROUTE'
-  | 'ADD_PARAMETER'
-  | 'UPDATE_PARAMETER'
-  | 'DELETE_PARAMETER'
-  | 'ADD_RESPONSE'
-  | 'UPDATE_RESPONSE'
-  | 'DELETE_RESPONSE'
-  | 'SET_REQUEST_BODY'
-  | 'UPDATE_INFO'
-  | 'ADD_SERVER'
-  | 'UPDATE_SERVER'
-  | 'DELETE_SERVER'
-  | 'ADD_SECURITY_SCHEME'
-  | 'UPDATE_SECURITY_SCHEME'
-  | 'DELETE_SECURITY_SCHEME'
-  | 'ADD_TAG'
-  | 'DELETE_TAG'
-  | 'IMPORT_DOCUMENT';
-
-export interface Command {
-  type: CommandType;
-  payload: unknown;
+export type CommandType = keyof CommandPayloads;
+
+// A command type together with its payload, narrowed by switching on `type`
+export type CommandAction = {
+  [T in CommandType]: { type: T; payload: CommandPayloads[T] };
+}[CommandType];
+
+// Top-level parts of a document a command can change: entries of its Map
+// collections, and its plain fields
+export const DOCUMENT_COLLECTIONS = [
+  'routes',
+  'pathItems',
+  'schemas',
+  'securitySchemes',
+  'responses',
+  'parameters',
+  'requestBodies',
+  'headers',
+] as const;
+
+export type DocumentCollection = (typeof DOCUMENT_COLLECTIONS)[number];
+
+// The kind of entry each collection holds, e.g. Route for 'routes'
+export type DocumentEntry<C extends DocumentCollection> = ApiDocument[C] extends Map<NodeId, infer V> ? V : never;
+
+export const DOCUMENT_FIELDS = [
+  'id',
+  'openapiVersion',
+  'info',
+  'servers',
+  'tags',
+  'security',
+  'extensions',
+] as const;
+
+export type DocumentField = (typeof DOCUMENT_FIELDS)[number];
+
+// The parts of a document one command replaced. A null entry value removes the
+// entry; `order` restores Map ordering when entries were added or removed
+export interface DocumentPatch {
+  entries: { collection: DocumentCollection; id: NodeId; value: unknown | null }[];
+  fields: { field: DocumentField; value: unknown }[];
+  order?: Partial<Record<DocumentCollection, NodeId[]>>;
+}
+
+export type Command = CommandAction & {
+  // Human-readable summary, e.g. "Added field email to User"
+  label: string;
   timestamp: number;
+  // Applying `patch` redoes the command, applying `inverse` undoes it
+  patch: DocumentPatch;
+  inverse: DocumentPatch;
+};
+
+// An entry of the undo log. Commands restored from storage come back without
+// their payload, since only their patches are saved
+export type HistoryCommand = Command | Omit<Command, 'payload'>;
+
+// Undo/redo state saved with a project: commands up to and including `index` are applied
+export interface CommandHistory {
+  commands: HistoryCommand[];
+  index: number;
 }
 
 // Validation types
@@ -219,6 +415,8 @@ export interface ValidationError {
     nodeId?: NodeId;
     path?: string[];
     field?: string;
+    // 1-based line in the parsed source text, when the problem can be placed there
+    line?: number;
   };
 }
 
@@ -233,10 +431,114 @@ export function generateId(): NodeId {
   return crypto.randomUUID();
 }
 
+// Helper to recognise vendor extension keys
+export function isExtensionKey(key: string): boolean {
+  return key.startsWith('x-');
+}
+
+// Helper to recognise JSON media types, including vendor "+json" ones
+export function isJsonMediaType(contentType: string): boolean {
+  const essence = contentType.split(';')[0].trim().toLowerCase();
+  return essence === 'application/json' || essence.endsWith('+json');
+}
+
+// Helper to tell component edges from inline definitions
+export function isComponentRef<K extends ComponentKind>(
+  value: ComponentDefinitions[K] | ComponentRef<K>
+): value is ComponentRef<K> {
+  return (value as ComponentRef<K>).kind === 'ref';
+}
+
+// Helper to follow a component edge; undefined when the target was deleted
+export function resolveComponent<K extends ComponentKind>(
+  doc: ApiDocument,
+  value: ComponentDefinitions[K] | ComponentRef<K>
+): ComponentDefinitions[K] | undefined {
+  if (!isComponentRef(value)) {
+    return value;
+  }
+  const components = doc[value.component] as Map<NodeId, Component<ComponentDefinitions[K]>>;
+  return components.get(value.targetId)?.definition;
+}
+
+// Helper to locate a reusable component by id without knowing its kind
+export function findComponent(
+  doc: ApiDocument,
+  id: NodeId
+): { kind: ComponentKind; component: Component<ComponentDefinitions[ComponentKind]> } | undefined {
+  for (const kind of COMPONENT_KINDS) {
+    const component = doc[kind].get(id);
+    if (component) {
+      return { kind, component };
+    }
+  }
+  return undefined;
+}
+
+// Helper to list the `{name}` placeholders used in a server URL template
+export function getServerUrlVariables(url: string): string[] {
+  const names = Array.from(url.matchAll(/\{([^{}]+)\}/g), (m) => m[1]);
+  return Array.from(new Set(names));
+}
+
+// Helper to substitute server variable defaults into a server URL template
+export function resolveServerUrl(server: Server, values: Record<string, string> = {}): string {
+  return server.url.replace(/\{([^{}]+)\}/g, (match, name: string) => {
+    const value = values[name] ?? server.variables?.[name]?.default;
+    return value !== undefined && value !== '' ? value : match;
+  });
+}
+
+// Helper to list the scopes an OAuth2 scheme declares across all of its flows
+export function getSchemeScopes(scheme: SecurityScheme): string[] {
+  const scopes = new Set<string>();
+  for (const flow of Object.values(scheme.flows ?? {})) {
+    for (const scope of Object.keys(flow?.scopes ?? {})) {
+      scopes.add(scope);
+    }
+  }
+  return Array.from(scopes);
+}
+
+// Helper to find the path item that owns a route's path
+export function findPathItem(doc: ApiDocument, path: string): PathItem | undefined {
+  for (const pathItem of doc.pathItems.values()) {
+    if (pathItem.path === path) {
+      return pathItem;
+    }
+  }
+  return undefined;
+}
+
+// Helper to identify a parameter for override purposes; OpenAPI treats name + location as unique
+export function parameterIdentity(doc: ApiDocument, param: ParameterOrRef): string | undefined {
+  const resolved = resolveComponent(doc, param);
+  return resolved ? `${resolved.in}:${resolved.name}` : undefined;
+}
+
+// Helper to list the parameters a route actually receives: path-level ones it
+// does not override, followed by its own
+export function getEffectiveParameters(
+  doc: ApiDocument,
+  route: Route
+): { parameter: ParameterOrRef; inherited: boolean }[] {
+  const own = route.parameters.map((parameter) => ({ parameter, inherited: false }));
+  const pathItem = findPathItem(doc, route.path);
+  if (!pathItem) {
+    return own;
+  }
+  const overridden = new Set(route.parameters.map((p) => parameterIdentity(doc, p)));
+  const inherited = pathItem.parameters
+    .filter((p) => !overridden.has(parameterIdentity(doc, p)))
+    .map((parameter) => ({ parameter, inherited: true }));
+  return [...inherited, ...own];
+}
+
 // Helper to create empty document
 export function createEmptyDocument(): ApiDocument {
   return {
     id: generateId(),
+    openapiVersion: '3.0.3',
     info: {
       title: 'New API',
       version: '1.0.0',
@@ -244,8 +546,13 @@ export function createEmptyDocument(): ApiDocument {
     },
     servers: [],
     routes: new Map(),
+    pathItems: new Map(),
     schemas: new Map(),
     securitySchemes: new Map(),
+    responses: new Map(),
+    parameters: new Map(),
+    requestBodies: new Map(),
+    headers: new Map(),
     tags: [],
   };
 }
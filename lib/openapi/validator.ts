@@ -6,7 +6,27 @@ import {
   ValidationResult,
   NodeId,
   SchemaOrRef,
+  ParameterDef,
+  RequestBody,
+  ResponseDef,
+  ComponentKind,
+  ComponentRef,
+  ComponentDefinitions,
+  COMPONENT_KINDS,
+  OAUTH_FLOW_TYPES,
+  OAUTH_FLOW_URLS,
+  SecurityAlternative,
+  isComponentRef,
+  resolveComponent,
+  getEffectiveParameters,
+  getSchemeScopes,
+  getServerUrlVariables,
+  Server,
+  MediaType,
+  ExampleDef,
+  isJsonMediaType,
 } from './types';
+import { validateInstance } from './instance-validator';
 
 export function validateDocument(doc: ApiDocument): ValidationResult {
   const errors: ValidationError[] = [];
@@ -18,9 +38,19 @@ export function validateDocument(doc: ApiDocument): ValidationResult {
   // Schema validation
   validateSchemas(doc, errors, warnings);
 
+  // Reusable component validation
+  validateComponents(doc, errors);
+
   // Route validation
   validateRoutes(doc, errors, warnings);
 
+  // Examples and defaults against their schemas
+  validateExamples(doc, warnings);
+
+  // Security scheme and requirement validation
+  validateSecuritySchemes(doc, errors, warnings);
+  validateSecurity(doc, errors, warnings);
+
   // Graph validation (references)
   validateReferences(doc, errors, warnings);
 
@@ -71,6 +101,44 @@ function validateInfo(
       location: { path: ['servers'] },
     });
   }
+
+  doc.servers.forEach((server, index) => {
+    validateServer(server, undefined, ['servers', String(index)], warnings);
+  });
+  for (const [id, pathItem] of doc.pathItems) {
+    pathItem.servers?.forEach((server, index) => {
+      validateServer(server, id, ['paths', pathItem.path, 'servers', String(index)], warnings);
+    });
+  }
+}
+
+function validateServer(
+  server: Server,
+  nodeId: NodeId | undefined,
+  path: string[],
+  warnings: ValidationError[]
+) {
+  for (const name of getServerUrlVariables(server.url)) {
+    if (!server.variables?.[name]) {
+      warnings.push({
+        code: 'UNDEFINED_SERVER_VARIABLE',
+        message: `Server URL "${server.url}" uses {${name}} but does not define it`,
+        severity: 'warning',
+        location: { nodeId, path: [...path, 'variables'], field: name },
+      });
+    }
+  }
+
+  for (const [name, variable] of Object.entries(server.variables ?? {})) {
+    if (variable.enum && variable.enum.length > 0 && !variable.enum.includes(variable.default)) {
+      warnings.push({
+        code: 'INVALID_SERVER_VARIABLE_DEFAULT',
+        message: `Default "${variable.default}" of server variable "${name}" is not one of its allowed values`,
+        severity: 'warning',
+        location: { nodeId, path: [...path, 'variables', name], field: 'default' },
+      });
+    }
+  }
 }
 
 function validateSchemas(
@@ -280,10 +348,11 @@ function validateRoutes(
       });
     }
 
-    // Validate path parameters
+    // Validate path parameters, including those inherited from the path item
     const pathParams = route.path.match(/\{([^}]+)\}/g) || [];
-    const definedPathParams = route.parameters
-      .filter((p) => p.in === 'path')
+    const definedPathParams = getEffectiveParameters(doc, route)
+      .map(({ parameter }) => resolveComponent(doc, parameter))
+      .filter((p): p is ParameterDef => !!p && p.in === 'path')
       .map((p) => `{${p.name}}`);
 
     for (const param of pathParams) {
@@ -335,7 +404,8 @@ function validateRoutes(
 
     // Validate 200 response has schema for non-DELETE methods
     if (route.method !== 'delete') {
-      const successResponse = route.responses.get('200') || route.responses.get('201');
+      const successEntry = route.responses.get('200') || route.responses.get('201');
+      const successResponse = successEntry && resolveComponent(doc, successEntry);
       if (successResponse && !successResponse.content) {
         warnings.push({
           code: 'SUCCESS_WITHOUT_BODY',
@@ -348,6 +418,281 @@ function validateRoutes(
   }
 }
 
+function validateComponents(doc: ApiDocument, errors: ValidationError[]) {
+  for (const kind of COMPONENT_KINDS) {
+    const names = new Set<string>();
+
+    for (const [id, component] of doc[kind]) {
+      if (!component.name.trim()) {
+        errors.push({
+          code: 'MISSING_COMPONENT_NAME',
+          message: `A reusable ${kind} entry has no name`,
+          severity: 'error',
+          location: { nodeId: id },
+        });
+      } else if (names.has(component.name)) {
+        errors.push({
+          code: 'DUPLICATE_COMPONENT_NAME',
+          message: `Duplicate ${kind} component name: ${component.name}`,
+          severity: 'error',
+          location: { nodeId: id },
+        });
+      }
+      names.add(component.name);
+    }
+  }
+}
+
+/**
+ * Check every example and default against the schema it illustrates.
+ * Each mismatch is reported once, with the first problem in the message.
+ */
+function validateExamples(doc: ApiDocument, warnings: ValidationError[]) {
+  const check = (
+    value: unknown,
+    schema: SchemaOrRef,
+    code: string,
+    subject: string,
+    nodeId: NodeId,
+    field?: string
+  ) => {
+    const problems = validateInstance(value, schema, doc);
+    if (problems.length === 0) return;
+    const [first] = problems;
+    const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : '';
+    warnings.push({
+      code,
+      message: `${subject} does not match its schema: ${first.path ? `${first.path}: ` : ''}${first.message}${more}`,
+      severity: 'warning',
+      location: { nodeId, field },
+    });
+  };
+
+  // Named examples with an externalValue have nothing to check
+  const checkExamples = (
+    examples: Map<string, ExampleDef> | undefined,
+    schema: SchemaOrRef,
+    code: string,
+    subject: string,
+    nodeId: NodeId,
+    field: string
+  ) => {
+    for (const [name, example] of examples ?? []) {
+      if (example.value !== undefined) {
+        check(example.value, schema, code, `Example "${name}" of ${subject}`, nodeId, field);
+      }
+    }
+  };
+
+  // Inline schemas nested in a schema carry their own examples and defaults
+  const checkSchemaNode = (schema: SchemaNode, subject: string, nodeId: NodeId, field?: string) => {
+    const self: SchemaOrRef = { kind: 'inline', schema };
+    if (schema.example !== undefined) {
+      check(schema.example, self, 'INVALID_SCHEMA_EXAMPLE', `Example of ${subject}`, nodeId, field);
+    }
+    if (schema.default !== undefined) {
+      check(schema.default, self, 'INVALID_SCHEMA_DEFAULT', `Default of ${subject}`, nodeId, field);
+    }
+    const nested = (schemaOrRef: SchemaOrRef, name: string) => {
+      if (schemaOrRef.kind === 'inline') {
+        checkSchemaNode(schemaOrRef.schema, `${subject}.${name}`, nodeId, field ? `${field}.${name}` : name);
+      }
+    };
+    for (const [name, property] of schema.properties ?? []) nested(property.schema, name);
+    if (schema.items) nested(schema.items, '[]');
+    schema.variants?.forEach((variant, index) => nested(variant, `${schema.type}[${index}]`));
+  };
+
+  // Payloads other than JSON keep their examples as raw text, which is not checked
+  const checkContent = (
+    content: Map<string, MediaType> | undefined,
+    subject: string,
+    nodeId: NodeId,
+    field: string
+  ) => {
+    for (const [contentType, media] of content ?? []) {
+      const mediaField = `${field} ${contentType}`;
+      if (media.schema.kind === 'inline') {
+        checkSchemaNode(media.schema.schema, `${subject} (${contentType}) schema`, nodeId, mediaField);
+      }
+      if (!isJsonMediaType(contentType)) continue;
+      const mediaSubject = `${subject} (${contentType})`;
+      if (media.example !== undefined) {
+        check(media.example, media.schema, 'INVALID_MEDIA_EXAMPLE', `Example of ${mediaSubject}`, nodeId, mediaField);
+      }
+      checkExamples(media.examples, media.schema, 'INVALID_MEDIA_EXAMPLE', mediaSubject, nodeId, mediaField);
+    }
+  };
+
+  const checkParameter = (param: ParameterDef, subject: string, nodeId: NodeId) => {
+    const field = `${param.in} ${param.name}`;
+    if (param.schema.kind === 'inline') {
+      checkSchemaNode(param.schema.schema, `${subject} schema`, nodeId, field);
+    }
+    if (param.example !== undefined) {
+      check(param.example, param.schema, 'INVALID_PARAMETER_EXAMPLE', `Example of ${subject}`, nodeId, field);
+    }
+    checkExamples(param.examples, param.schema, 'INVALID_PARAMETER_EXAMPLE', subject, nodeId, field);
+  };
+
+  for (const [id, schema] of doc.schemas) {
+    checkSchemaNode(schema, `schema "${schema.name || 'Anonymous'}"`, id);
+  }
+
+  for (const [id, route] of doc.routes) {
+    const context = `${route.method} ${route.path}`;
+    for (const param of route.parameters) {
+      if (!isComponentRef(param)) {
+        checkParameter(param, `parameter "${param.name}" of ${context}`, id);
+      }
+    }
+    if (route.requestBody && !isComponentRef(route.requestBody)) {
+      checkContent(route.requestBody.content, `request body of ${context}`, id, 'requestBody');
+    }
+    for (const [statusCode, response] of route.responses) {
+      if (!isComponentRef(response)) {
+        checkContent(response.content, `response ${statusCode} of ${context}`, id, statusCode);
+      }
+    }
+  }
+
+  for (const [id, pathItem] of doc.pathItems) {
+    for (const param of pathItem.parameters) {
+      if (!isComponentRef(param)) {
+        checkParameter(param, `parameter "${param.name}" of ${pathItem.path}`, id);
+      }
+    }
+  }
+
+  for (const [id, component] of doc.parameters) {
+    checkParameter(component.definition, `parameter "${component.name}"`, id);
+  }
+  for (const [id, component] of doc.requestBodies) {
+    checkContent(component.definition.content, `request body "${component.name}"`, id, 'content');
+  }
+  for (const [id, component] of doc.responses) {
+    checkContent(component.definition.content, `response "${component.name}"`, id, 'content');
+  }
+}
+
+function validateSecuritySchemes(
+  doc: ApiDocument,
+  errors: ValidationError[],
+  warnings: ValidationError[]
+) {
+  for (const [id, scheme] of doc.securitySchemes) {
+    if (scheme.type !== 'oauth2') continue;
+    const schemePath = ['components', 'securitySchemes', scheme.name];
+
+    const flowTypes = OAUTH_FLOW_TYPES.filter((type) => scheme.flows?.[type]);
+    if (flowTypes.length === 0) {
+      errors.push({
+        code: 'OAUTH2_NO_FLOWS',
+        message: `OAuth2 scheme "${scheme.name}" must enable at least one flow`,
+        severity: 'error',
+        location: { nodeId: id, path: [...schemePath, 'flows'] },
+      });
+      continue;
+    }
+
+    for (const type of flowTypes) {
+      const flow = scheme.flows![type]!;
+      const flowPath = [...schemePath, 'flows', type];
+
+      for (const field of OAUTH_FLOW_URLS[type]) {
+        if (!flow[field]?.trim()) {
+          errors.push({
+            code: 'MISSING_FLOW_URL',
+            message: `The ${type} flow of "${scheme.name}" requires ${field}`,
+            severity: 'error',
+            location: { nodeId: id, path: flowPath, field },
+          });
+        }
+      }
+
+      for (const field of ['authorizationUrl', 'tokenUrl', 'refreshUrl'] as const) {
+        const url = flow[field]?.trim();
+        if (url && !isAbsoluteUrl(url)) {
+          warnings.push({
+            code: 'INVALID_FLOW_URL',
+            message: `${field} of the ${type} flow of "${scheme.name}" is not an absolute URL`,
+            severity: 'warning',
+            location: { nodeId: id, path: flowPath, field },
+          });
+        }
+      }
+
+      if (Object.keys(flow.scopes).some((scope) => !scope.trim())) {
+        warnings.push({
+          code: 'EMPTY_SCOPE_NAME',
+          message: `The ${type} flow of "${scheme.name}" declares a scope without a name`,
+          severity: 'warning',
+          location: { nodeId: id, path: [...flowPath, 'scopes'] },
+        });
+      }
+    }
+  }
+}
+
+function validateSecurity(
+  doc: ApiDocument,
+  errors: ValidationError[],
+  warnings: ValidationError[]
+) {
+  const checkRequirements = (
+    security: SecurityAlternative[],
+    context: string,
+    location: ValidationError['location']
+  ) => {
+    for (const requirement of security.flat()) {
+      const scheme = doc.securitySchemes.get(requirement.schemeId);
+      if (!scheme) {
+        errors.push({
+          code: 'BROKEN_SECURITY_REFERENCE',
+          message: `${context} requires a security scheme that no longer exists`,
+          severity: 'error',
+          location,
+        });
+        continue;
+      }
+
+      if (scheme.type === 'oauth2') {
+        const declared = getSchemeScopes(scheme);
+        for (const scope of requirement.scopes.filter((s) => !declared.includes(s))) {
+          warnings.push({
+            code: 'UNKNOWN_SCOPE',
+            message: `${context} requests scope "${scope}" which "${scheme.name}" does not declare`,
+            severity: 'warning',
+            location,
+          });
+        }
+      } else if (
+        scheme.type !== 'openIdConnect' &&
+        requirement.scopes.length > 0 &&
+        doc.openapiVersion !== '3.1.0'
+      ) {
+        // 3.1 allows role names here; 3.0 requires an empty list
+        warnings.push({
+          code: 'SCOPES_NOT_ALLOWED',
+          message: `${context} lists scopes for "${scheme.name}", which only OAuth2 and OpenID Connect schemes support in OpenAPI 3.0`,
+          severity: 'warning',
+          location,
+        });
+      }
+    }
+  };
+
+  if (doc.security) {
+    checkRequirements(doc.security, 'Default security', { path: ['security'] });
+  }
+
+  for (const [id, route] of doc.routes) {
+    if (route.security) {
+      checkRequirements(route.security, `${route.method} ${route.path}`, { nodeId: id });
+    }
+  }
+}
+
 function validateReferences(
   doc: ApiDocument,
   errors: ValidationError[],
@@ -393,30 +738,106 @@ function validateReferences(
     checkSchemaRefs(schema, schema.name || 'Anonymous', id);
   }
 
+  // Helper to check an edge to a reusable component
+  const checkComponentRef = (
+    ref: ComponentRef<ComponentKind>,
+    context: string,
+    nodeId: NodeId
+  ) => {
+    if (!doc[ref.component].has(ref.targetId)) {
+      errors.push({
+        code: 'BROKEN_COMPONENT_REFERENCE',
+        message: `Broken ${ref.component} reference in ${context}`,
+        severity: 'error',
+        location: { nodeId },
+      });
+    }
+  };
+
+  const checkParameter = (param: ParameterDef, context: string, nodeId: NodeId) => {
+    checkRef(param.schema, `${context} param ${param.name}`, nodeId);
+  };
+
+  const checkRequestBody = (body: RequestBody, context: string, nodeId: NodeId) => {
+    for (const media of body.content.values()) {
+      checkRef(media.schema, `${context} request body`, nodeId);
+    }
+  };
+
+  const checkResponse = (response: ResponseDef, context: string, nodeId: NodeId) => {
+    if (response.content) {
+      for (const media of response.content.values()) {
+        checkRef(media.schema, context, nodeId);
+      }
+    }
+    if (response.headers) {
+      for (const [name, header] of response.headers) {
+        if (isComponentRef(header)) {
+          checkComponentRef(header, `${context} header ${name}`, nodeId);
+        } else {
+          checkRef(header.schema, `${context} header ${name}`, nodeId);
+        }
+      }
+    }
+  };
+
   // Check routes
   for (const [id, route] of doc.routes) {
+    const context = `${route.method} ${route.path}`;
+
     // Check parameters
     for (const param of route.parameters) {
-      checkRef(param.schema, `${route.method} ${route.path} param ${param.name}`, id);
+      if (isComponentRef(param)) {
+        checkComponentRef(param, context, id);
+      } else {
+        checkParameter(param, context, id);
+      }
     }
 
     // Check request body
-    if (route.requestBody?.content) {
-      for (const [contentType, media] of route.requestBody.content) {
-        checkRef(media.schema, `${route.method} ${route.path} request body`, id);
+    if (route.requestBody) {
+      if (isComponentRef(route.requestBody)) {
+        checkComponentRef(route.requestBody, context, id);
+      } else {
+        checkRequestBody(route.requestBody, context, id);
       }
     }
 
     // Check responses
     for (const [statusCode, response] of route.responses) {
-      if (response.content) {
-        for (const [contentType, media] of response.content) {
-          checkRef(media.schema, `${route.method} ${route.path} response ${statusCode}`, id);
-        }
+      if (isComponentRef(response)) {
+        checkComponentRef(response, `${context} response ${statusCode}`, id);
+      } else {
+        checkResponse(response, `${context} response ${statusCode}`, id);
+      }
+    }
+  }
+
+  // Check path-level parameters
+  for (const [id, pathItem] of doc.pathItems) {
+    for (const param of pathItem.parameters) {
+      if (isComponentRef(param)) {
+        checkComponentRef(param, pathItem.path, id);
+      } else {
+        checkParameter(param, pathItem.path, id);
       }
     }
   }
 
+  // Check reusable components
+  for (const [id, component] of doc.parameters) {
+    checkParameter(component.definition, component.name, id);
+  }
+  for (const [id, component] of doc.requestBodies) {
+    checkRequestBody(component.definition, component.name, id);
+  }
+  for (const [id, component] of doc.responses) {
+    checkResponse(component.definition, component.name, id);
+  }
+  for (const [id, component] of doc.headers) {
+    checkRef(component.definition.schema, component.name, id);
+  }
+
   // Check for orphaned schemas
   const usedSchemaIds = new Set<NodeId>();
 
@@ -438,22 +859,40 @@ function validateReferences(
     if (schema.variants) schema.variants.forEach(markUsed);
   };
 
-  // Mark schemas used by routes
-  for (const route of doc.routes.values()) {
-    for (const param of route.parameters) {
-      markUsed(param.schema);
+  // Component refs are skipped; the definitions they point at are marked below
+  const markUsedInDefinition = (
+    definition: ComponentDefinitions[ComponentKind] | ComponentRef<ComponentKind>
+  ) => {
+    if (isComponentRef(definition)) return;
+    if ('schema' in definition) {
+      markUsed(definition.schema);
     }
-    if (route.requestBody?.content) {
-      for (const media of route.requestBody.content.values()) {
+    if ('content' in definition && definition.content) {
+      for (const media of definition.content.values()) {
         markUsed(media.schema);
       }
     }
-    for (const response of route.responses.values()) {
-      if (response.content) {
-        for (const media of response.content.values()) {
-          markUsed(media.schema);
-        }
-      }
+    if ('headers' in definition && definition.headers) {
+      definition.headers.forEach(markUsedInDefinition);
+    }
+  };
+
+  // Mark schemas used by routes
+  for (const route of doc.routes.values()) {
+    route.parameters.forEach(markUsedInDefinition);
+    if (route.requestBody) {
+      markUsedInDefinition(route.requestBody);
+    }
+    route.responses.forEach(markUsedInDefinition);
+  }
+  for (const pathItem of doc.pathItems.values()) {
+    pathItem.parameters.forEach(markUsedInDefinition);
+  }
+
+  // Mark schemas used by reusable components
+  for (const kind of COMPONENT_KINDS) {
+    for (const component of doc[kind].values()) {
+      markUsedInDefinition(component.definition);
     }
   }
 
@@ -509,6 +948,15 @@ function validateReferences(
   }
 }
 
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function collectRefs(schema: SchemaNode): NodeId[] {
   const refs: NodeId[] = [];
 
@@ -3,12 +3,22 @@ import type {
   StoredProject,
   ProjectMetadata,
   SerializedProject,
+  ListProjectsOptions,
+  StoredSnapshot,
+  SnapshotMetadata,
+  SerializedSnapshot,
 } from "./types";
-import { serializeProject, deserializeProject } from "./serializer";
+import {
+  serializeProject,
+  deserializeProject,
+  serializeSnapshot,
+  deserializeSnapshot,
+} from "./serializer";
 
 const DB_NAME = "openapi-editor";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const PROJECTS_STORE = "projects";
+const SNAPSHOTS_STORE = "snapshots";
 const SETTINGS_STORE = "settings";
 const ACTIVE_PROJECT_KEY = "activeProjectId";
 
@@ -57,6 +67,19 @@ export class IndexedDBRepository implements IProjectRepository {
         if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
           db.createObjectStore(SETTINGS_STORE);
         }
+
+        // Version 2: snapshots store, added alongside existing projects
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshotsStore = db.createObjectStore(SNAPSHOTS_STORE, {
+            keyPath: "metadata.id",
+          });
+          // Index for listing a project's snapshots by createdAt
+          snapshotsStore.createIndex(
+            "projectCreatedAt",
+            ["metadata.projectId", "metadata.createdAt"],
+            { unique: false }
+          );
+        }
       };
     });
 
@@ -114,14 +137,22 @@ export class IndexedDBRepository implements IProjectRepository {
   /**
    * List all projects (returns metadata only for performance)
    */
-  async listProjects(): Promise<ProjectMetadata[]> {
+  async listProjects(options: ListProjectsOptions = {}): Promise<ProjectMetadata[]> {
     const db = await this.getDB();
+    const { namePrefix } = options;
+    // A name search can only walk the name index, so it always sorts by name
+    const sortBy = namePrefix ? "name" : options.sortBy ?? "updatedAt";
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(PROJECTS_STORE, "readonly");
       const store = transaction.objectStore(PROJECTS_STORE);
-      const index = store.index("updatedAt");
-      const request = index.openCursor(null, "prev"); // Sort by updatedAt descending
+      const index = store.index(sortBy);
+      const request =
+        sortBy === "updatedAt"
+          ? index.openCursor(null, "prev") // Sort by updatedAt descending
+          : index.openCursor(
+              namePrefix ? IDBKeyRange.bound(namePrefix, namePrefix + "\uffff") : null
+            );
 
       const projects: ProjectMetadata[] = [];
 
@@ -143,18 +174,123 @@ export class IndexedDBRepository implements IProjectRepository {
   }
 
   /**
-   * Delete a project by ID
+   * Delete a project by ID, along with its snapshots
    */
   async deleteProject(id: string): Promise<void> {
     const db = await this.getDB();
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(PROJECTS_STORE, "readwrite");
-      const store = transaction.objectStore(PROJECTS_STORE);
+      const transaction = db.transaction([PROJECTS_STORE, SNAPSHOTS_STORE], "readwrite");
+      transaction.objectStore(PROJECTS_STORE).delete(id);
+
+      const index = transaction.objectStore(SNAPSHOTS_STORE).index("projectCreatedAt");
+      const request = index.openCursor(snapshotRange(id));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+
+      transaction.onerror = () => {
+        reject(new Error("Failed to delete project"));
+      };
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Get a snapshot by ID
+   */
+  async getSnapshot(id: string): Promise<StoredSnapshot | null> {
+    const db = await this.getDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readonly");
+      const store = transaction.objectStore(SNAPSHOTS_STORE);
+      const request = store.get(id);
+
+      request.onerror = () => {
+        reject(new Error("Failed to get snapshot"));
+      };
+
+      request.onsuccess = () => {
+        const result = request.result as SerializedSnapshot | undefined;
+        resolve(result ? deserializeSnapshot(result) : null);
+      };
+    });
+  }
+
+  /**
+   * Save a snapshot of a project
+   */
+  async saveSnapshot(snapshot: StoredSnapshot): Promise<void> {
+    const db = await this.getDB();
+    const serialized = serializeSnapshot(snapshot);
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+      const store = transaction.objectStore(SNAPSHOTS_STORE);
+      const request = store.put(serialized);
+
+      request.onerror = () => {
+        reject(new Error("Failed to save snapshot"));
+      };
+
+      request.onsuccess = () => {
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * List a project's snapshots (returns metadata only for performance)
+   */
+  async listSnapshots(projectId: string): Promise<SnapshotMetadata[]> {
+    const db = await this.getDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readonly");
+      const store = transaction.objectStore(SNAPSHOTS_STORE);
+      const index = store.index("projectCreatedAt");
+      const request = index.openCursor(snapshotRange(projectId), "prev"); // Newest first
+
+      const snapshots: SnapshotMetadata[] = [];
+
+      request.onerror = () => {
+        reject(new Error("Failed to list snapshots"));
+      };
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const snapshot = cursor.value as SerializedSnapshot;
+          snapshots.push(snapshot.metadata);
+          cursor.continue();
+        } else {
+          resolve(snapshots);
+        }
+      };
+    });
+  }
+
+  /**
+   * Delete a snapshot by ID
+   */
+  async deleteSnapshot(id: string): Promise<void> {
+    const db = await this.getDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+      const store = transaction.objectStore(SNAPSHOTS_STORE);
       const request = store.delete(id);
 
       request.onerror = () => {
-        reject(new Error("Failed to delete project"));
+        reject(new Error("Failed to delete snapshot"));
       };
 
       request.onsuccess = () => {
@@ -210,6 +346,13 @@ export class IndexedDBRepository implements IProjectRepository {
   }
 }
 
+/**
+ * Key range covering every snapshot of a project in the projectCreatedAt index
+ */
+function snapshotRange(projectId: string): IDBKeyRange {
+  return IDBKeyRange.bound([projectId, 0], [projectId, Infinity]);
+}
+
 // Singleton instance
 let repositoryInstance: IndexedDBRepository | null = null;
 
@@ -1,40 +1,124 @@
-import type { ApiDocument, Route, SchemaNode, ResponseDef, RequestBody, MediaType, PropertyDef } from "@/lib/openapi/types";
+import type {
+  ApiDocument,
+  Route,
+  SchemaNode,
+  ResponseDef,
+  ResponseOrRef,
+  RequestBody,
+  RequestBodyOrRef,
+  MediaType,
+  EncodingDef,
+  ExampleDef,
+  HeaderOrRef,
+  PropertyDef,
+  Component,
+  ComponentKind,
+  ComponentDefinitions,
+  CommandHistory,
+  DocumentCollection,
+  DocumentPatch,
+  NodeId,
+} from "@/lib/openapi/types";
+import { isComponentRef } from "@/lib/openapi/types";
 import type {
   StoredProject,
   SerializedProject,
+  StoredSnapshot,
+  SerializedSnapshot,
   SerializedApiDocument,
+  SerializedCommandHistory,
+  SerializedComponent,
   SerializedRoute,
   SerializedSchema,
 } from "./types";
 
+/**
+ * Check for a component ref edge, which is stored as-is
+ */
+function isSerializedRef(serialized: unknown): boolean {
+  return (serialized as { kind?: string }).kind === "ref";
+}
+
+type SerializedEncoding = Omit<EncodingDef, 'headers'> & { headers?: [string, HeaderOrRef][] };
+type SerializedMediaType = Omit<MediaType, 'encoding' | 'examples'> & {
+  encoding?: [string, SerializedEncoding][];
+  examples?: [string, ExampleDef][];
+};
+
+/**
+ * Serialize body content (convert the content Map and the encoding and
+ * examples Maps inside it to arrays)
+ */
+function serializeContent(content: Map<string, MediaType>): [string, SerializedMediaType][] {
+  return Array.from(content.entries()).map(([contentType, media]) => [
+    contentType,
+    {
+      ...media,
+      encoding: media.encoding
+        ? Array.from(media.encoding.entries()).map(([property, encoding]) => [
+            property,
+            { ...encoding, headers: encoding.headers ? Array.from(encoding.headers.entries()) : undefined },
+          ])
+        : undefined,
+      examples: media.examples ? Array.from(media.examples.entries()) : undefined,
+    },
+  ]);
+}
+
+/**
+ * Deserialize body content (convert arrays back to Maps)
+ */
+function deserializeContent(serialized: [string, SerializedMediaType][]): Map<string, MediaType> {
+  return new Map(
+    serialized.map(([contentType, media]) => [
+      contentType,
+      {
+        ...media,
+        encoding: media.encoding
+          ? new Map(
+              media.encoding.map(([property, encoding]) => [
+                property,
+                { ...encoding, headers: encoding.headers ? new Map(encoding.headers) : undefined },
+              ])
+            )
+          : undefined,
+        examples: media.examples ? new Map(media.examples) : undefined,
+      },
+    ])
+  );
+}
+
 /**
  * Serialize a RequestBody (convert content Map to array)
  */
-function serializeRequestBody(body: RequestBody): unknown {
+function serializeRequestBody(body: RequestBodyOrRef): unknown {
+  if (isComponentRef(body)) return body;
   return {
     ...body,
-    content: Array.from(body.content.entries()),
+    content: serializeContent(body.content),
   };
 }
 
 /**
  * Deserialize a RequestBody (convert content array back to Map)
  */
-function deserializeRequestBody(serialized: unknown): RequestBody {
-  const body = serialized as { content: [string, MediaType][] } & Omit<RequestBody, 'content'>;
+function deserializeRequestBody(serialized: unknown): RequestBodyOrRef {
+  if (isSerializedRef(serialized)) return serialized as RequestBodyOrRef;
+  const body = serialized as { content: [string, SerializedMediaType][] } & Omit<RequestBody, 'content'>;
   return {
     ...body,
-    content: new Map(body.content),
+    content: deserializeContent(body.content),
   };
 }
 
 /**
  * Serialize a ResponseDef (convert content and headers Maps to arrays)
  */
-function serializeResponse(response: ResponseDef): unknown {
+function serializeResponse(response: ResponseOrRef): unknown {
+  if (isComponentRef(response)) return response;
   return {
     ...response,
-    content: response.content ? Array.from(response.content.entries()) : undefined,
+    content: response.content ? serializeContent(response.content) : undefined,
     headers: response.headers ? Array.from(response.headers.entries()) : undefined,
   };
 }
@@ -42,19 +126,80 @@ function serializeResponse(response: ResponseDef): unknown {
 /**
  * Deserialize a ResponseDef (convert arrays back to Maps)
  */
-function deserializeResponse(serialized: unknown): ResponseDef {
+function deserializeResponse(serialized: unknown): ResponseOrRef {
+  if (isSerializedRef(serialized)) return serialized as ResponseOrRef;
   const resp = serialized as {
-    content?: [string, MediaType][];
+    content?: [string, SerializedMediaType][];
     headers?: [string, unknown][];
   } & Omit<ResponseDef, 'content' | 'headers'>;
   
   return {
     ...resp,
-    content: resp.content ? new Map(resp.content) : undefined,
+    content: resp.content ? deserializeContent(resp.content) : undefined,
     headers: resp.headers ? new Map(resp.headers as [string, Parameters<Map<string, unknown>['set']>[1]][]) : undefined,
   } as ResponseDef;
 }
 
+/**
+ * Serialize a reusable component, converting Maps inside its definition
+ */
+function serializeComponent<K extends ComponentKind>(
+  kind: K,
+  component: Component<ComponentDefinitions[K]>
+): SerializedComponent {
+  return {
+    ...component,
+    definition:
+      kind === "responses"
+        ? serializeResponse(component.definition as ResponseDef)
+        : kind === "requestBodies"
+          ? serializeRequestBody(component.definition as RequestBody)
+          : component.definition,
+  };
+}
+
+/**
+ * Deserialize a reusable component
+ */
+function deserializeComponent<K extends ComponentKind>(
+  kind: K,
+  component: SerializedComponent
+): Component<ComponentDefinitions[K]> {
+  return {
+    ...component,
+    definition: (kind === "responses"
+      ? deserializeResponse(component.definition)
+      : kind === "requestBodies"
+        ? deserializeRequestBody(component.definition)
+        : component.definition) as ComponentDefinitions[K],
+  };
+}
+
+/**
+ * Serialize a reusable components Map, converting Maps inside each definition
+ */
+function serializeComponents<K extends ComponentKind>(
+  kind: K,
+  components: Map<NodeId, Component<ComponentDefinitions[K]>>
+): [string, SerializedComponent][] {
+  return Array.from(components.entries()).map(([id, component]) => [
+    id,
+    serializeComponent(kind, component),
+  ]);
+}
+
+/**
+ * Deserialize a reusable components array back to a Map
+ */
+function deserializeComponents<K extends ComponentKind>(
+  kind: K,
+  serialized: [string, SerializedComponent][] | undefined
+): Map<NodeId, Component<ComponentDefinitions[K]>> {
+  return new Map(
+    (serialized ?? []).map(([id, component]) => [id, deserializeComponent(kind, component)])
+  );
+}
+
 /**
  * Serialize a Route (convert responses Map to array)
  */
@@ -75,6 +220,7 @@ function serializeRoute(route: Route): SerializedRoute {
     ]),
     security: route.security,
     deprecated: route.deprecated,
+    extensions: route.extensions,
   };
 }
 
@@ -97,6 +243,7 @@ function deserializeRoute(serialized: SerializedRoute): Route {
     ),
     security: serialized.security as Route['security'],
     deprecated: serialized.deprecated,
+    extensions: serialized.extensions,
   };
 }
 
@@ -115,6 +262,8 @@ function serializeSchema(schema: SchemaNode): SerializedSchema {
     enumValues: schema.enumValues,
     required: schema.required,
     format: schema.format,
+    nullable: schema.nullable,
+    const: schema.const,
     example: schema.example,
     default: schema.default,
     minimum: schema.minimum,
@@ -123,6 +272,7 @@ function serializeSchema(schema: SchemaNode): SerializedSchema {
     maxLength: schema.maxLength,
     pattern: schema.pattern,
     discriminator: schema.discriminator,
+    extensions: schema.extensions,
   };
 }
 
@@ -141,6 +291,8 @@ function deserializeSchema(serialized: SerializedSchema): SchemaNode {
     enumValues: serialized.enumValues,
     required: serialized.required,
     format: serialized.format,
+    nullable: serialized.nullable,
+    const: serialized.const,
     example: serialized.example,
     default: serialized.default,
     minimum: serialized.minimum,
@@ -149,6 +301,7 @@ function deserializeSchema(serialized: SerializedSchema): SchemaNode {
     maxLength: serialized.maxLength,
     pattern: serialized.pattern,
     discriminator: serialized.discriminator as SchemaNode['discriminator'],
+    extensions: serialized.extensions,
   };
 }
 
@@ -159,12 +312,20 @@ function deserializeSchema(serialized: SerializedSchema): SchemaNode {
 export function serializeDocument(doc: ApiDocument): SerializedApiDocument {
   return {
     id: doc.id,
+    openapiVersion: doc.openapiVersion,
     info: doc.info,
     servers: doc.servers,
     routes: Array.from(doc.routes.entries()).map(([id, route]) => [id, serializeRoute(route)]),
+    pathItems: Array.from(doc.pathItems.entries()),
     schemas: Array.from(doc.schemas.entries()).map(([id, schema]) => [id, serializeSchema(schema)]),
     securitySchemes: Array.from(doc.securitySchemes.entries()),
+    responses: serializeComponents("responses", doc.responses),
+    parameters: serializeComponents("parameters", doc.parameters),
+    requestBodies: serializeComponents("requestBodies", doc.requestBodies),
+    headers: serializeComponents("headers", doc.headers),
     tags: doc.tags,
+    security: doc.security,
+    extensions: doc.extensions,
   };
 }
 
@@ -175,16 +336,109 @@ export function serializeDocument(doc: ApiDocument): SerializedApiDocument {
 export function deserializeDocument(serialized: SerializedApiDocument): ApiDocument {
   return {
     id: serialized.id,
+    openapiVersion: serialized.openapiVersion ?? "3.0.3",
     info: serialized.info,
     servers: serialized.servers,
     routes: new Map(
       serialized.routes.map(([id, route]) => [id, deserializeRoute(route)])
     ),
+    pathItems: new Map(serialized.pathItems ?? []),
     schemas: new Map(
       serialized.schemas.map(([id, schema]) => [id, deserializeSchema(schema)])
     ),
     securitySchemes: new Map(serialized.securitySchemes),
+    responses: deserializeComponents("responses", serialized.responses),
+    parameters: deserializeComponents("parameters", serialized.parameters),
+    requestBodies: deserializeComponents("requestBodies", serialized.requestBodies),
+    headers: deserializeComponents("headers", serialized.headers),
     tags: serialized.tags,
+    security: serialized.security,
+    extensions: serialized.extensions,
+  };
+}
+
+/**
+ * Serialize one entry of a document collection, as serializeDocument would
+ */
+function serializeEntry(collection: DocumentCollection, value: unknown): unknown {
+  switch (collection) {
+    case "routes":
+      return serializeRoute(value as Route);
+    case "schemas":
+      return serializeSchema(value as SchemaNode);
+    case "responses":
+    case "parameters":
+    case "requestBodies":
+    case "headers":
+      return serializeComponent(collection, value as Component<ComponentDefinitions[typeof collection]>);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Deserialize one entry of a document collection
+ */
+function deserializeEntry(collection: DocumentCollection, value: unknown): unknown {
+  switch (collection) {
+    case "routes":
+      return deserializeRoute(value as SerializedRoute);
+    case "schemas":
+      return deserializeSchema(value as SerializedSchema);
+    case "responses":
+    case "parameters":
+    case "requestBodies":
+    case "headers":
+      return deserializeComponent(collection, value as SerializedComponent);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert the entry values of a patch; removed entries stay null
+ */
+function mapPatchEntries(
+  patch: DocumentPatch,
+  convert: (collection: DocumentCollection, value: unknown) => unknown
+): DocumentPatch {
+  return {
+    ...patch,
+    entries: patch.entries.map((entry) => ({
+      ...entry,
+      value: entry.value === null ? null : convert(entry.collection, entry.value),
+    })),
+  };
+}
+
+/**
+ * Serialize a command history for storage
+ * Payloads are dropped: the patches carry everything undo and redo need
+ */
+export function serializeHistory(history: CommandHistory): SerializedCommandHistory {
+  return {
+    index: history.index,
+    commands: history.commands.map((command) => ({
+      type: command.type,
+      label: command.label,
+      timestamp: command.timestamp,
+      patch: mapPatchEntries(command.patch, serializeEntry),
+      inverse: mapPatchEntries(command.inverse, serializeEntry),
+    })),
+  };
+}
+
+/**
+ * Deserialize a command history from storage
+ */
+export function deserializeHistory(serialized: SerializedCommandHistory): CommandHistory {
+  return {
+    index: serialized.index,
+    commands: serialized.commands.map((command) => ({
+      ...command,
+      patch: mapPatchEntries(command.patch, deserializeEntry),
+      inverse: mapPatchEntries(command.inverse, deserializeEntry),
+    })),
   };
 }
 
@@ -195,6 +449,7 @@ export function serializeProject(project: StoredProject): SerializedProject {
   return {
     metadata: project.metadata,
     document: serializeDocument(project.document),
+    history: project.history ? serializeHistory(project.history) : undefined,
   };
 }
 
@@ -202,6 +457,27 @@ export function serializeProject(project: StoredProject): SerializedProject {
  * Deserialize a StoredProject from IndexedDB storage
  */
 export function deserializeProject(serialized: SerializedProject): StoredProject {
+  return {
+    metadata: serialized.metadata,
+    document: deserializeDocument(serialized.document),
+    history: serialized.history ? deserializeHistory(serialized.history) : undefined,
+  };
+}
+
+/**
+ * Serialize a StoredSnapshot for IndexedDB storage
+ */
+export function serializeSnapshot(snapshot: StoredSnapshot): SerializedSnapshot {
+  return {
+    metadata: snapshot.metadata,
+    document: serializeDocument(snapshot.document),
+  };
+}
+
+/**
+ * Deserialize a StoredSnapshot from IndexedDB storage
+ */
+export function deserializeSnapshot(serialized: SerializedSnapshot): StoredSnapshot {
   return {
     metadata: serialized.metadata,
     document: deserializeDocument(serialized.document),
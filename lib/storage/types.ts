@@ -1,4 +1,4 @@
-import type { ApiDocument } from "@/lib/openapi/types";
+import type { ApiDocument, Command, CommandHistory, PathItem } from "@/lib/openapi/types";
 
 /**
  * Metadata for a stored project
@@ -17,6 +17,28 @@ export interface ProjectMetadata {
 export interface StoredProject {
   metadata: ProjectMetadata;
   document: ApiDocument;
+  /** Undo/redo history; missing on projects saved before it was persisted */
+  history?: CommandHistory;
+}
+
+/**
+ * Metadata for a point-in-time copy of a project's document
+ */
+export interface SnapshotMetadata {
+  id: string;
+  projectId: string;
+  name: string;
+  /** Manual snapshots are named by the user; auto checkpoints are taken while editing */
+  kind: "manual" | "auto";
+  createdAt: number;
+}
+
+/**
+ * A snapshot stored in the database
+ */
+export interface StoredSnapshot {
+  metadata: SnapshotMetadata;
+  document: ApiDocument;
 }
 
 /**
@@ -26,6 +48,25 @@ export interface StoredProject {
 export interface SerializedProject {
   metadata: ProjectMetadata;
   document: SerializedApiDocument;
+  history?: SerializedCommandHistory;
+}
+
+/**
+ * Serialized undo/redo history
+ * Commands keep their patches, with entry values serialized like the
+ * document's collections, but not their payloads
+ */
+export interface SerializedCommandHistory {
+  commands: Omit<Command, "payload">[];
+  index: number;
+}
+
+/**
+ * Serialized snapshot for IndexedDB storage
+ */
+export interface SerializedSnapshot {
+  metadata: SnapshotMetadata;
+  document: SerializedApiDocument;
 }
 
 /**
@@ -34,12 +75,32 @@ export interface SerializedProject {
  */
 export interface SerializedApiDocument {
   id: string;
+  /** Missing on projects saved before 3.1 output was supported */
+  openapiVersion?: ApiDocument["openapiVersion"];
   info: ApiDocument["info"];
   servers: ApiDocument["servers"];
   routes: [string, SerializedRoute][];
+  /** Missing on projects saved before path items were modelled */
+  pathItems?: [string, PathItem][];
   schemas: [string, SerializedSchema][];
   securitySchemes: [string, unknown][];
+  /** Reusable components; missing on projects saved before they were supported */
+  responses?: [string, SerializedComponent][];
+  parameters?: [string, SerializedComponent][];
+  requestBodies?: [string, SerializedComponent][];
+  headers?: [string, SerializedComponent][];
   tags: ApiDocument["tags"];
+  security?: ApiDocument["security"];
+  extensions?: ApiDocument["extensions"];
+}
+
+/**
+ * Serialized reusable component with Maps in its definition converted to arrays
+ */
+export interface SerializedComponent {
+  id: string;
+  name: string;
+  definition: unknown;
 }
 
 /**
@@ -58,6 +119,7 @@ export interface SerializedRoute {
   responses: [string, unknown][];
   security?: unknown[];
   deprecated?: boolean;
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -74,6 +136,8 @@ export interface SerializedSchema {
   enumValues?: string[];
   required?: string[];
   format?: string;
+  nullable?: boolean;
+  const?: unknown;
   example?: unknown;
   default?: unknown;
   minimum?: number;
@@ -82,6 +146,17 @@ export interface SerializedSchema {
   maxLength?: number;
   pattern?: string;
   discriminator?: unknown;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Options for listing projects
+ */
+export interface ListProjectsOptions {
+  /** Index to sort by; updatedAt lists newest first, name alphabetically */
+  sortBy?: "updatedAt" | "name";
+  /** Only list projects whose name starts with this prefix (uses the name index) */
+  namePrefix?: string;
 }
 
 /**
@@ -102,13 +177,33 @@ export interface IProjectRepository {
   /**
    * List all projects (metadata only for performance)
    */
-  listProjects(): Promise<ProjectMetadata[]>;
+  listProjects(options?: ListProjectsOptions): Promise<ProjectMetadata[]>;
 
   /**
-   * Delete a project by ID
+   * Delete a project by ID, along with its snapshots
    */
   deleteProject(id: string): Promise<void>;
 
+  /**
+   * Get a snapshot by ID
+   */
+  getSnapshot(id: string): Promise<StoredSnapshot | null>;
+
+  /**
+   * Save a snapshot of a project
+   */
+  saveSnapshot(snapshot: StoredSnapshot): Promise<void>;
+
+  /**
+   * List a project's snapshots, newest first (metadata only for performance)
+   */
+  listSnapshots(projectId: string): Promise<SnapshotMetadata[]>;
+
+  /**
+   * Delete a snapshot by ID
+   */
+  deleteSnapshot(id: string): Promise<void>;
+
   /**
    * Get the currently active project ID
    */